@@ -0,0 +1,5 @@
+// Variáveis mínimas para carregar src/config sem um .env (os testes não acessam serviços externos)
+process.env.SUPABASE_URL = process.env.SUPABASE_URL || 'http://localhost:54321';
+process.env.SUPABASE_ANON_KEY = process.env.SUPABASE_ANON_KEY || 'test-anon-key';
+process.env.OPENAI_API_KEY = process.env.OPENAI_API_KEY || 'test-openai-key';
+process.env.LOG_LEVEL = process.env.LOG_LEVEL || 'error';
@@ -0,0 +1,150 @@
+import express, { Express } from 'express';
+import cors from 'cors';
+import helmet from 'helmet';
+import { z } from 'zod';
+import { config } from './config/env';
+import { logger } from './utils/logger';
+import { errorHandler } from './middleware/errorHandler';
+import { rateLimiter } from './middleware/rateLimiter';
+import { requireOperatorToken } from './middleware/auth';
+import webhookRoutes from './routes/webhook';
+import healthRoutes from './routes/health';
+import queueRoutes from './routes/queue';
+import replayRoutes from './routes/replay';
+import cronRoutes from './routes/cron';
+import promptRoutes from './routes/prompts';
+import templateRoutes from './routes/templates';
+import instanceRoutes from './routes/instances';
+import usageRoutes from './routes/usage';
+import adminRoutes from './routes/admin';
+import { monitoringService } from './services/monitoringService';
+import { registerJobHandlers } from './services/jobHandlers';
+
+// Função para criar a aplicação Express (usada pelo servidor e pela função serverless)
+export const createApp = (): Express => {
+  const app = express();
+
+  // Middleware de segurança
+  app.use(helmet());
+  app.use(cors({
+    origin: config.security.corsOrigin,
+    credentials: true
+  }));
+
+  // Rate limiting
+  app.use(rateLimiter);
+
+  // Parsing de JSON
+  app.use(express.json({
+    limit: '10mb',
+    // Guardar o corpo original para validar assinaturas do webhook
+    verify: (req, res, buf) => {
+      (req as express.Request).rawBody = buf;
+    }
+  }));
+  app.use(express.urlencoded({ extended: true, limit: '10mb' }));
+
+  // Trust proxy se configurado
+  if (config.security.trustProxy) {
+    app.set('trust proxy', 1);
+  }
+
+  // Rotas
+  app.use('/health', healthRoutes);
+  app.use('/webhook', webhookRoutes);
+  app.use('/queue', queueRoutes);
+  app.use('/replay', replayRoutes);
+  app.use('/cron', cronRoutes);
+  app.use('/prompts', promptRoutes);
+  app.use('/templates', templateRoutes);
+  app.use('/instances', instanceRoutes);
+  app.use('/usage', usageRoutes);
+  app.use('/admin', adminRoutes);
+
+  // Rota de métricas (agregadas de todos os estabelecimentos)
+  app.get('/metrics', requireOperatorToken, async (req, res) => {
+    try {
+      const metrics = await monitoringService.getSystemMetrics();
+      res.json(metrics);
+    } catch (error) {
+      logger.error('Erro ao obter métricas:', error);
+      res.status(500).json({ error: 'Erro interno' });
+    }
+  });
+
+  // Visão do operador: volume, tempo de resposta e taxa de erro de cada estabelecimento
+  app.get('/metrics/overview', requireOperatorToken, async (req, res) => {
+    try {
+      const hours = parseInt(req.query.hours as string) || 24;
+      const establishments = await monitoringService.getEstablishmentsOverview(hours);
+      res.json({ hours, establishments });
+    } catch (error) {
+      logger.error('Erro ao obter visão geral dos estabelecimentos:', error);
+      res.status(500).json({ error: 'Erro interno' });
+    }
+  });
+
+  // Rota de métricas de um estabelecimento
+  app.get('/metrics/:establishmentId', requireOperatorToken, async (req, res) => {
+    const establishmentId = z.string().uuid().safeParse(req.params.establishmentId);
+    if (!establishmentId.success) {
+      return res.status(400).json({ error: 'Estabelecimento inválido' });
+    }
+
+    try {
+      const hours = parseInt(req.query.hours as string) || 24;
+      const metrics = await monitoringService.getSystemMetrics(establishmentId.data, hours);
+      return res.json(metrics);
+    } catch (error) {
+      logger.error('Erro ao obter métricas do estabelecimento:', error);
+      return res.status(500).json({ error: 'Erro interno' });
+    }
+  });
+
+  // Rota de relatório
+  app.get('/report', requireOperatorToken, async (req, res) => {
+    try {
+      const hours = parseInt(req.query.hours as string) || 24;
+      const report = await monitoringService.generateActivityReport(hours);
+      res.json(report);
+    } catch (error) {
+      logger.error('Erro ao gerar relatório:', error);
+      res.status(500).json({ error: 'Erro interno' });
+    }
+  });
+
+  // Rota de relatório de um estabelecimento
+  app.get('/report/:establishmentId', requireOperatorToken, async (req, res) => {
+    const establishmentId = z.string().uuid().safeParse(req.params.establishmentId);
+    if (!establishmentId.success) {
+      return res.status(400).json({ error: 'Estabelecimento inválido' });
+    }
+
+    try {
+      const hours = parseInt(req.query.hours as string) || 24;
+      const report = await monitoringService.generateActivityReport(hours, establishmentId.data);
+      return res.json(report);
+    } catch (error) {
+      logger.error('Erro ao gerar relatório do estabelecimento:', error);
+      return res.status(500).json({ error: 'Erro interno' });
+    }
+  });
+
+  // Rota raiz
+  app.get('/', (req, res) => {
+    res.json({
+      message: 'Agenteia WhatsApp API',
+      version: '1.0.0',
+      status: 'running',
+      timestamp: new Date().toISOString()
+    });
+  });
+
+  // Middleware de tratamento de erros
+  app.use(errorHandler);
+
+  // Handlers da fila: os jobs são executados pelos workers (servidor) ou pelo cron (serverless)
+  registerJobHandlers();
+
+  return app;
+};
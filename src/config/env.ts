@@ -28,8 +28,9 @@ export const config = {
   
   // Webhook
   webhook: {
-    token: process.env.WEBHOOK_TOKEN,
     url: process.env.WEBHOOK_URL,
+    replayWindowSeconds: parseInt(process.env.WEBHOOK_REPLAY_WINDOW_SECONDS || '300'),
+    secretGraceSeconds: parseInt(process.env.WEBHOOK_SECRET_GRACE_SECONDS || '86400'),
   },
   
   // Logging
@@ -50,6 +51,38 @@ export const config = {
     trustProxy: process.env.TRUST_PROXY === 'true',
     jwtSecret: process.env.JWT_SECRET,
     encryptionKey: process.env.ENCRYPTION_KEY,
+    operatorToken: process.env.OPERATOR_TOKEN,
+    cronSecret: process.env.CRON_SECRET,
+  },
+
+  // Verificação das instâncias e alertas de desconexão
+  alerts: {
+    healthCheckIntervalMs: parseInt(process.env.INSTANCE_HEALTH_INTERVAL_MS || '300000'),
+    emailApiUrl: process.env.ALERT_EMAIL_API_URL,
+    emailApiKey: process.env.ALERT_EMAIL_API_KEY,
+    emailFrom: process.env.ALERT_EMAIL_FROM,
+    whatsappInstance: process.env.ALERT_WHATSAPP_INSTANCE,
+    linkSecret: process.env.ALERT_LINK_SECRET,
+    publicUrl: process.env.PUBLIC_BASE_URL,
+    qrLinkTtlSeconds: parseInt(process.env.ALERT_QR_LINK_TTL_SECONDS || '86400'),
+  },
+
+  // Lista de espera: prazo para o cliente aceitar um horário liberado
+  waitlist: {
+    holdMinutes: parseInt(process.env.WAITLIST_HOLD_MINUTES || '30'),
+    checkIntervalMs: parseInt(process.env.WAITLIST_CHECK_INTERVAL_MS || '60000'),
+  },
+
+  // Fila de processamento de mensagens
+  queue: {
+    storage: process.env.QUEUE_STORAGE || 'supabase',
+    concurrency: parseInt(process.env.QUEUE_CONCURRENCY || '2'),
+    maxAttempts: parseInt(process.env.QUEUE_MAX_ATTEMPTS || '5'),
+    backoffMs: parseInt(process.env.QUEUE_BACKOFF_MS || '5000'),
+    pollIntervalMs: parseInt(process.env.QUEUE_POLL_INTERVAL_MS || '1000'),
+    lockTimeoutMs: parseInt(process.env.QUEUE_LOCK_TIMEOUT_MS || '300000'),
+    // Tempo que cada chamada de /cron/queue fica processando a fila (abaixo do maxDuration da função)
+    drainBudgetMs: parseInt(process.env.QUEUE_DRAIN_BUDGET_MS || '50000'),
   },
 };
 
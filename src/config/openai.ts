@@ -1,5 +1,5 @@
 import OpenAI from 'openai';
-import { logger } from '@/utils/logger';
+import { logger } from '../utils/logger';
 
 // Verificar se a API key está configurada
 const apiKey = process.env.OPENAI_API_KEY;
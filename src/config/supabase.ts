@@ -58,6 +58,8 @@ export interface Establishment {
   admin_name?: string;
   admin_email?: string;
   auth_user_id?: string;
+  // Intervalo mínimo, em minutos, entre atendimentos do mesmo profissional
+  appointment_buffer_minutes?: number | null;
   created_at: string;
   updated_at: string;
 }
@@ -74,8 +76,13 @@ export interface UazapiConfiguration {
   ai_prompt?: string;
   auto_reply_enabled: boolean;
   webhook_url?: string;
+  webhook_secret?: string | null;
+  previous_webhook_secret?: string | null;
+  previous_webhook_secret_expires_at?: string | null;
   status: 'connected' | 'disconnected' | 'connecting';
   qr_code?: string;
+  // Política para mensagens de grupo: ignorar, responder só quando o bot for mencionado ou só registrar
+  group_policy?: 'ignore' | 'mention_only' | 'log_only';
   message_templates: {
     welcome?: string;
     followup?: string;
@@ -1,81 +1,25 @@
-import express from 'express';
-import cors from 'cors';
-import helmet from 'helmet';
 import { createServer } from 'http';
 import { config } from './config/env';
 import { logger } from './utils/logger';
-import { errorHandler } from './middleware/errorHandler';
-import { rateLimiter } from './middleware/rateLimiter';
-import webhookRoutes from './routes/webhook';
-import healthRoutes from './routes/health';
+import { createApp } from './app';
 import { automaticMessageService } from './services/automaticMessageService';
 import { monitoringService } from './services/monitoringService';
+import { messageQueue } from './services/messageQueue';
+import { instanceHealthService } from './services/instanceHealthService';
+import { waitlistService } from './services/waitlistService';
 
-const app = express();
+const app = createApp();
 const server = createServer(app);
 const PORT = config.port;
 
-// Middleware de segurança
-app.use(helmet());
-app.use(cors({
-  origin: config.security.corsOrigin,
-  credentials: true
-}));
-
-// Rate limiting
-app.use(rateLimiter);
-
-// Parsing de JSON
-app.use(express.json({ limit: '10mb' }));
-app.use(express.urlencoded({ extended: true, limit: '10mb' }));
-
-// Trust proxy se configurado
-if (config.security.trustProxy) {
-  app.set('trust proxy', 1);
-}
-
-// Rotas
-app.use('/health', healthRoutes);
-app.use('/webhook', webhookRoutes);
-
-// Rota de métricas
-app.get('/metrics', async (req, res) => {
-  try {
-    const metrics = await monitoringService.getSystemMetrics();
-    res.json(metrics);
-  } catch (error) {
-    logger.error('Erro ao obter métricas:', error);
-    res.status(500).json({ error: 'Erro interno' });
-  }
-});
-
-// Rota de relatório
-app.get('/report', async (req, res) => {
-  try {
-    const hours = parseInt(req.query.hours as string) || 24;
-    const report = await monitoringService.generateActivityReport(hours);
-    res.json(report);
-  } catch (error) {
-    logger.error('Erro ao gerar relatório:', error);
-    res.status(500).json({ error: 'Erro interno' });
-  }
-});
-
-// Rota raiz
-app.get('/', (req, res) => {
-  res.json({
-    message: 'Agenteia WhatsApp API',
-    version: '1.0.0',
-    status: 'running',
-    timestamp: new Date().toISOString()
-  });
-});
-
-// Middleware de tratamento de erros
-app.use(errorHandler);
-
-// Inicializar serviços automáticos
+// Inicializar serviços automáticos (na Vercel, essas tarefas rodam pelos endpoints de /cron)
 automaticMessageService.startAutomaticProcessing();
+monitoringService.startMonitoring();
+instanceHealthService.startHealthChecks();
+waitlistService.startWaitlistChecks();
+
+// Inicializar workers da fila de mensagens
+messageQueue.start();
 
 // Iniciar servidor
 server.listen(PORT, () => {
@@ -84,12 +28,14 @@ server.listen(PORT, () => {
   logger.info(`🏥 Health check: http://localhost:${PORT}/health`);
   logger.info(`📊 Métricas: http://localhost:${PORT}/metrics`);
   logger.info(`📈 Relatórios: http://localhost:${PORT}/report`);
+  logger.info(`📬 Fila de mensagens: http://localhost:${PORT}/queue`);
   logger.info('✅ Serviços automáticos iniciados');
 });
 
 // Graceful shutdown
 process.on('SIGTERM', () => {
   logger.info('SIGTERM recebido, encerrando servidor...');
+  messageQueue.stop();
   server.close(() => {
     logger.info('Servidor encerrado');
     process.exit(0);
@@ -98,6 +44,7 @@ process.on('SIGTERM', () => {
 
 process.on('SIGINT', () => {
   logger.info('SIGINT recebido, encerrando servidor...');
+  messageQueue.stop();
   server.close(() => {
     logger.info('Servidor encerrado');
     process.exit(0);
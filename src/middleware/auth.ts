@@ -0,0 +1,114 @@
+import { Request, Response, NextFunction } from 'express';
+import jwt from 'jsonwebtoken';
+import { config } from '../config/env';
+import { supabase } from '../config/supabase';
+import { logger } from '../utils/logger';
+import { safeCompare } from '../utils/security';
+
+// Extrai o token do header Authorization (Bearer) ou de um header dedicado
+const extractToken = (req: Request, headerName: string): string | undefined => {
+  const dedicated = req.headers[headerName];
+  if (typeof dedicated === 'string' && dedicated) {
+    return dedicated;
+  }
+
+  const authorization = req.headers.authorization;
+  if (authorization?.startsWith('Bearer ')) {
+    return authorization.slice('Bearer '.length);
+  }
+
+  return undefined;
+};
+
+// Middleware para rotas operacionais (fila, reprocessamento, visão agregada)
+export const requireOperatorToken = (req: Request, res: Response, next: NextFunction) => {
+  const expected = config.security.operatorToken;
+  const token = extractToken(req, 'x-operator-token');
+
+  if (!expected || !token || !safeCompare(token, expected)) {
+    logger.warn('Tentativa de acesso a rota operacional com token inválido', {
+      ip: req.ip,
+      url: req.url,
+      token: token ? 'presente' : 'ausente'
+    });
+
+    return res.status(401).json({ error: 'Token de operador inválido' });
+  }
+
+  return next();
+};
+
+// Middleware para os endpoints de cron (a Vercel envia Authorization: Bearer <CRON_SECRET>)
+export const requireCronSecret = (req: Request, res: Response, next: NextFunction) => {
+  const expected = config.security.cronSecret;
+  const token = extractToken(req, 'x-cron-secret');
+
+  if (!expected || !token || !safeCompare(token, expected)) {
+    logger.warn('Tentativa de acesso a rota de cron com segredo inválido', {
+      ip: req.ip,
+      url: req.url
+    });
+
+    return res.status(401).json({ error: 'Segredo de cron inválido' });
+  }
+
+  return next();
+};
+
+// Claims aceitos no JWT da API administrativa (tokens próprios ou do Supabase Auth)
+interface AdminTokenClaims {
+  sub?: string;
+  establishment_id?: string;
+  app_metadata?: { establishment_id?: string };
+}
+
+// Middleware para a API administrativa: valida o JWT e identifica o estabelecimento do usuário
+export const requireAdminToken = async (req: Request, res: Response, next: NextFunction) => {
+  const secret = config.security.jwtSecret;
+  const token = extractToken(req, 'x-admin-token');
+
+  if (!secret || !token) {
+    return res.status(401).json({ error: 'Token de acesso inválido' });
+  }
+
+  let claims: AdminTokenClaims;
+  try {
+    claims = jwt.verify(token, secret, { algorithms: ['HS256'] }) as AdminTokenClaims;
+  } catch (error) {
+    logger.warn('Tentativa de acesso à API administrativa com token inválido', {
+      ip: req.ip,
+      url: req.url,
+      error: error instanceof Error ? error.message : 'Erro desconhecido'
+    });
+
+    return res.status(401).json({ error: 'Token de acesso inválido' });
+  }
+
+  if (!claims.sub) {
+    return res.status(401).json({ error: 'Token de acesso inválido' });
+  }
+
+  // Sem o estabelecimento no token, usar o estabelecimento do qual o usuário é administrador
+  let establishmentId = claims.establishment_id || claims.app_metadata?.establishment_id;
+  if (!establishmentId) {
+    const { data, error } = await supabase
+      .from('establishments')
+      .select('id')
+      .eq('auth_user_id', claims.sub)
+      .maybeSingle();
+
+    if (error) {
+      logger.error('Erro ao identificar estabelecimento do usuário:', error);
+      return res.status(500).json({ error: 'Erro interno' });
+    }
+
+    establishmentId = data?.id;
+  }
+
+  if (!establishmentId) {
+    return res.status(403).json({ error: 'Usuário sem estabelecimento associado' });
+  }
+
+  req.admin = { userId: claims.sub, establishmentId };
+  return next();
+};
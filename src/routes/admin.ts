@@ -0,0 +1,590 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { supabase } from '../config/supabase';
+import { asyncHandler } from '../middleware/errorHandler';
+import { requireAdminToken } from '../middleware/auth';
+import { appointmentService } from '../services/appointmentService';
+import { automaticMessageService, TEMPLATE_IDS } from '../services/automaticMessageService';
+import { contextService } from '../services/contextService';
+import { promptService } from '../services/promptService';
+import { businessHoursService } from '../services/businessHoursService';
+import { instanceOnboardingService } from '../services/instanceOnboardingService';
+import { professionalScheduleService } from '../services/professionalScheduleService';
+import { waitlistService } from '../services/waitlistService';
+import { INTENT_TYPES } from '../services/intentService';
+
+const router = Router();
+
+const APPOINTMENT_STATUSES = ['scheduled', 'confirmed', 'cancelled', 'completed', 'pending', 'no_show'] as const;
+
+const DateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/);
+const TimeSchema = z.string().regex(/^\d{2}:\d{2}(:\d{2})?$/);
+const LimitSchema = z.coerce.number().int().min(1).max(200).default(50);
+
+const AppointmentQuerySchema = z.object({
+  date: DateSchema.optional(),
+  status: z.enum(APPOINTMENT_STATUSES).optional(),
+  professional_id: z.string().uuid().optional(),
+  client_id: z.string().uuid().optional()
+});
+
+const CreateAppointmentSchema = z.object({
+  professional_id: z.string().uuid(),
+  client_id: z.string().uuid(),
+  service_id: z.string().uuid(),
+  appointment_date: DateSchema,
+  appointment_time: TimeSchema,
+  // Sem preço informado, vale o preço do serviço
+  total_price: z.number().nonnegative().optional(),
+  commission_value: z.number().nonnegative().default(0)
+});
+
+const CancelAppointmentSchema = z.object({
+  reason: z.string().max(500).optional()
+});
+
+const RescheduleAppointmentSchema = z.object({
+  appointment_date: DateSchema,
+  appointment_time: TimeSchema
+});
+
+const AppointmentStatusSchema = z.object({
+  status: z.enum(APPOINTMENT_STATUSES)
+});
+
+const AgendaQuerySchema = z.object({
+  date: DateSchema.optional()
+});
+
+// Jornada semanal: no máximo uma linha por dia, intervalo dentro da jornada
+const ScheduleDaySchema = z.object({
+  weekday: z.number().int().min(0).max(6),
+  starts_at: TimeSchema,
+  ends_at: TimeSchema,
+  break_start: TimeSchema.nullable().default(null),
+  break_end: TimeSchema.nullable().default(null)
+}).refine(day => day.starts_at < day.ends_at, {
+  message: 'starts_at deve ser anterior a ends_at'
+}).refine(day => Boolean(day.break_start) === Boolean(day.break_end), {
+  message: 'Informe break_start e break_end juntos'
+}).refine(day => !day.break_start || !day.break_end ||
+  (day.starts_at <= day.break_start && day.break_start < day.break_end && day.break_end <= day.ends_at), {
+  message: 'O intervalo deve estar dentro da jornada'
+});
+
+const ScheduleSchema = z.object({
+  days: z.array(ScheduleDaySchema).max(7)
+}).refine(body => new Set(body.days.map(day => day.weekday)).size === body.days.length, {
+  message: 'Dia da semana repetido'
+});
+
+// Sem start_time/end_time, a ausência vale o dia inteiro (folga ou férias)
+const TimeOffSchema = z.object({
+  starts_on: DateSchema,
+  ends_on: DateSchema,
+  start_time: TimeSchema.optional(),
+  end_time: TimeSchema.optional(),
+  reason: z.string().max(200).optional()
+}).refine(body => body.starts_on <= body.ends_on, {
+  message: 'starts_on deve ser anterior ou igual a ends_on'
+}).refine(body => Boolean(body.start_time) === Boolean(body.end_time), {
+  message: 'Informe start_time e end_time juntos'
+}).refine(body => !body.start_time || !body.end_time || body.start_time < body.end_time, {
+  message: 'start_time deve ser anterior a end_time'
+});
+
+const ConversationQuerySchema = z.object({
+  state: z.enum(['active', 'waiting', 'closed']).optional(),
+  limit: LimitSchema
+});
+
+const MessagesQuerySchema = z.object({
+  limit: LimitSchema
+});
+
+const ScheduledMessageQuerySchema = z.object({
+  status: z.enum(['pending', 'sent', 'failed', 'skipped', 'cancelled']).optional(),
+  limit: LimitSchema
+});
+
+const WaitlistQuerySchema = z.object({
+  status: z.enum(['waiting', 'offered', 'booked', 'cancelled', 'expired']).optional()
+});
+
+const TemplatesSchema = z.object({
+  templates: z.record(z.enum(TEMPLATE_IDS), z.string().min(1).max(4096).nullable())
+});
+
+const PromptText = z.string().max(8000).nullable();
+
+// Campos de ai_prompts editáveis pelo estabelecimento (as flags são gravadas como texto)
+const PromptsSchema = z.object({
+  system_prompt: PromptText,
+  greeting_prompt: PromptText,
+  new_client_prompt: PromptText,
+  scheduling_prompt: PromptText,
+  reschedule_prompt: PromptText,
+  cancel_prompt: PromptText,
+  services_prompt: PromptText,
+  prices_prompt: PromptText,
+  farewell_prompt: PromptText,
+  fallback_prompt: PromptText,
+  response_delay: z.number().min(0).max(60).transform(String),
+  enable_scheduling: z.boolean().transform(String),
+  enable_services_info: z.boolean().transform(String),
+  enable_context_memory: z.boolean().transform(String),
+  enable_proactive_suggestions: z.boolean().transform(String)
+}).partial();
+
+const PromptPreviewQuerySchema = z.object({
+  intent: z.enum(INTENT_TYPES).default('other'),
+  newClient: z.enum(['true', 'false']).default('false')
+});
+
+const InstanceQuerySchema = z.object({
+  refresh: z.enum(['true', 'false']).default('false')
+});
+
+// Função para obter o estabelecimento do usuário autenticado
+const establishmentOf = (req: Request): string => {
+  return req.admin!.establishmentId;
+};
+
+// Função para conferir se um registro pertence ao estabelecimento
+const belongsTo = async (table: string, id: string, establishmentId: string): Promise<boolean> => {
+  const { data, error } = await supabase
+    .from(table)
+    .select('id')
+    .eq('id', id)
+    .eq('establishment_id', establishmentId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return Boolean(data);
+};
+
+router.use(requireAdminToken);
+
+// Agendamentos do estabelecimento
+router.get('/appointments', asyncHandler(async (req: Request, res: Response) => {
+  const query = AppointmentQuerySchema.parse(req.query);
+
+  const appointments = await appointmentService.searchAppointments({
+    establishment_id: establishmentOf(req),
+    ...(query.date ? { date: query.date } : {}),
+    ...(query.status ? { status: query.status } : {}),
+    ...(query.professional_id ? { professional_id: query.professional_id } : {}),
+    ...(query.client_id ? { client_id: query.client_id } : {})
+  });
+
+  res.json({ appointments });
+}));
+
+router.post('/appointments', asyncHandler(async (req: Request, res: Response) => {
+  const establishmentId = establishmentOf(req);
+  const body = CreateAppointmentSchema.parse(req.body);
+
+  const [professional, client, service] = await Promise.all([
+    belongsTo('professionals', body.professional_id, establishmentId),
+    belongsTo('clients', body.client_id, establishmentId),
+    supabase
+      .from('services')
+      .select('id, price')
+      .eq('id', body.service_id)
+      .eq('establishment_id', establishmentId)
+      .maybeSingle()
+  ]);
+
+  if (!professional || !client || !service.data) {
+    return res.status(404).json({ error: 'Profissional, cliente ou serviço não encontrado' });
+  }
+
+  const result = await appointmentService.createAppointment({
+    establishment_id: establishmentId,
+    professional_id: body.professional_id,
+    client_id: body.client_id,
+    service_id: body.service_id,
+    appointment_date: body.appointment_date,
+    appointment_time: body.appointment_time.length === 5 ? `${body.appointment_time}:00` : body.appointment_time,
+    total_price: body.total_price ?? Number(service.data.price),
+    commission_value: body.commission_value
+  });
+
+  if (!result.success) {
+    return res.status(result.error === 'Horário não disponível para agendamento' ? 409 : 400)
+      .json({ error: result.error });
+  }
+
+  return res.status(201).json({ appointment: result.data });
+}));
+
+router.post('/appointments/:id/cancel', asyncHandler(async (req: Request, res: Response) => {
+  const appointmentId = z.string().uuid().parse(req.params.id);
+  const body = CancelAppointmentSchema.parse(req.body || {});
+
+  if (!(await belongsTo('appointments', appointmentId, establishmentOf(req)))) {
+    return res.status(404).json({ error: 'Agendamento não encontrado' });
+  }
+
+  const result = await appointmentService.cancelAppointment(appointmentId, body.reason);
+  if (!result.success) {
+    return res.status(result.error === 'Agendamento não pode ser cancelado' ? 409 : 500)
+      .json({ error: result.error });
+  }
+
+  return res.json({ id: appointmentId, status: 'cancelled' });
+}));
+
+router.post('/appointments/:id/reschedule', asyncHandler(async (req: Request, res: Response) => {
+  const appointmentId = z.string().uuid().parse(req.params.id);
+  const body = RescheduleAppointmentSchema.parse(req.body);
+
+  if (!(await belongsTo('appointments', appointmentId, establishmentOf(req)))) {
+    return res.status(404).json({ error: 'Agendamento não encontrado' });
+  }
+
+  const result = await appointmentService.rescheduleAppointment(
+    appointmentId,
+    body.appointment_date,
+    body.appointment_time,
+    'staff'
+  );
+
+  if (!result.success) {
+    const status = result.error === 'Agendamento não encontrado' ? 404
+      : result.error === 'Erro interno' || result.error === 'Erro interno ao remarcar agendamento' ? 500
+        : 409;
+    return res.status(status).json({ error: result.error });
+  }
+
+  return res.json({ appointment: result.data });
+}));
+
+router.get('/appointments/:id/history', asyncHandler(async (req: Request, res: Response) => {
+  const appointmentId = z.string().uuid().parse(req.params.id);
+  const establishmentId = establishmentOf(req);
+
+  if (!(await belongsTo('appointments', appointmentId, establishmentId))) {
+    return res.status(404).json({ error: 'Agendamento não encontrado' });
+  }
+
+  const { data, error } = await supabase
+    .from('appointment_history')
+    .select('*')
+    .eq('appointment_id', appointmentId)
+    .eq('establishment_id', establishmentId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw error;
+  }
+
+  return res.json({ appointmentId, history: data || [] });
+}));
+
+router.patch('/appointments/:id/status', asyncHandler(async (req: Request, res: Response) => {
+  const appointmentId = z.string().uuid().parse(req.params.id);
+  const body = AppointmentStatusSchema.parse(req.body);
+
+  if (!(await belongsTo('appointments', appointmentId, establishmentOf(req)))) {
+    return res.status(404).json({ error: 'Agendamento não encontrado' });
+  }
+
+  const result = await appointmentService.updateAppointmentStatus(appointmentId, body.status);
+  if (!result.success) {
+    const conflict = result.error === 'Agendamento não pode ser cancelado'
+      || result.error === 'Agendamento cancelado não pode ser reativado';
+    return res.status(conflict ? 409 : 500).json({ error: result.error });
+  }
+
+  return res.json({ id: appointmentId, status: body.status });
+}));
+
+// Agenda do dia por profissional (jornada, intervalos, ausências e atendimentos)
+router.get('/agenda', asyncHandler(async (req: Request, res: Response) => {
+  const query = AgendaQuerySchema.parse(req.query);
+  const date = query.date || businessHoursService.toLocal().date;
+
+  const agenda = await appointmentService.getDailyAgenda(establishmentOf(req), date);
+  res.json(agenda);
+}));
+
+// Jornada e ausências dos profissionais
+router.get('/professionals', asyncHandler(async (req: Request, res: Response) => {
+  const { data, error } = await supabase
+    .from('professionals')
+    .select('id, name, active')
+    .eq('establishment_id', establishmentOf(req))
+    .order('name', { ascending: true });
+
+  if (error) {
+    throw error;
+  }
+
+  res.json({ professionals: data || [] });
+}));
+
+router.get('/professionals/:id/schedule', asyncHandler(async (req: Request, res: Response) => {
+  const professionalId = z.string().uuid().parse(req.params.id);
+
+  if (!(await belongsTo('professionals', professionalId, establishmentOf(req)))) {
+    return res.status(404).json({ error: 'Profissional não encontrado' });
+  }
+
+  const [schedule, timeOff] = await Promise.all([
+    professionalScheduleService.getSchedule(professionalId),
+    professionalScheduleService.listTimeOff(professionalId, businessHoursService.toLocal().date)
+  ]);
+
+  return res.json({ professionalId, schedule, timeOff });
+}));
+
+router.put('/professionals/:id/schedule', asyncHandler(async (req: Request, res: Response) => {
+  const professionalId = z.string().uuid().parse(req.params.id);
+  const body = ScheduleSchema.parse(req.body);
+
+  if (!(await belongsTo('professionals', professionalId, establishmentOf(req)))) {
+    return res.status(404).json({ error: 'Profissional não encontrado' });
+  }
+
+  const schedule = await professionalScheduleService.replaceSchedule(professionalId, body.days);
+  return res.json({ professionalId, schedule });
+}));
+
+router.post('/professionals/:id/time-off', asyncHandler(async (req: Request, res: Response) => {
+  const professionalId = z.string().uuid().parse(req.params.id);
+  const body = TimeOffSchema.parse(req.body);
+
+  if (!(await belongsTo('professionals', professionalId, establishmentOf(req)))) {
+    return res.status(404).json({ error: 'Profissional não encontrado' });
+  }
+
+  const timeOff = await professionalScheduleService.addTimeOff(professionalId, {
+    starts_on: body.starts_on,
+    ends_on: body.ends_on,
+    start_time: body.start_time ?? null,
+    end_time: body.end_time ?? null,
+    reason: body.reason ?? null
+  });
+
+  return res.status(201).json({ timeOff });
+}));
+
+router.delete('/professionals/:id/time-off/:timeOffId', asyncHandler(async (req: Request, res: Response) => {
+  const professionalId = z.string().uuid().parse(req.params.id);
+  const timeOffId = z.string().uuid().parse(req.params.timeOffId);
+
+  if (!(await belongsTo('professionals', professionalId, establishmentOf(req)))) {
+    return res.status(404).json({ error: 'Profissional não encontrado' });
+  }
+
+  if (!(await professionalScheduleService.removeTimeOff(professionalId, timeOffId))) {
+    return res.status(404).json({ error: 'Ausência não encontrada' });
+  }
+
+  return res.status(204).send();
+}));
+
+// Conversas (contextos) e histórico de mensagens
+router.get('/conversations', asyncHandler(async (req: Request, res: Response) => {
+  const query = ConversationQuerySchema.parse(req.query);
+
+  let conversations = supabase
+    .from('conversation_contexts')
+    .select('*')
+    .eq('establishment_id', establishmentOf(req))
+    .order('last_interaction', { ascending: false })
+    .limit(query.limit);
+
+  if (query.state) {
+    conversations = conversations.eq('conversation_state', query.state);
+  }
+
+  const { data, error } = await conversations;
+  if (error) {
+    throw error;
+  }
+
+  res.json({ conversations: data || [] });
+}));
+
+router.get('/conversations/stats', asyncHandler(async (req: Request, res: Response) => {
+  const stats = await contextService.getContextStats(establishmentOf(req));
+  res.json(stats);
+}));
+
+router.get('/conversations/:phone/messages', asyncHandler(async (req: Request, res: Response) => {
+  const phone = z.string().regex(/^\d{8,20}$/).parse(req.params.phone);
+  const query = MessagesQuerySchema.parse(req.query);
+
+  const { data, error } = await supabase
+    .from('messages')
+    .select('id, direction, message_content, message_type, timestamp, delivered_at, read_at')
+    .eq('establishment_id', establishmentOf(req))
+    .eq('phone_number', phone)
+    .order('timestamp', { ascending: false })
+    .limit(query.limit);
+
+  if (error) {
+    throw error;
+  }
+
+  res.json({ phone, messages: (data || []).reverse() });
+}));
+
+// Mensagens automáticas agendadas
+router.get('/scheduled-messages', asyncHandler(async (req: Request, res: Response) => {
+  const query = ScheduledMessageQuerySchema.parse(req.query);
+
+  let messages = supabase
+    .from('scheduled_messages')
+    .select('*')
+    .eq('establishment_id', establishmentOf(req))
+    .order('scheduled_for', { ascending: false })
+    .limit(query.limit);
+
+  if (query.status) {
+    messages = messages.eq('status', query.status);
+  }
+
+  const { data, error } = await messages;
+  if (error) {
+    throw error;
+  }
+
+  res.json({ scheduledMessages: data || [] });
+}));
+
+router.post('/scheduled-messages/:id/cancel', asyncHandler(async (req: Request, res: Response) => {
+  const messageId = z.string().uuid().parse(req.params.id);
+
+  // Só mensagens ainda não enviadas podem ser canceladas
+  const { data, error } = await supabase
+    .from('scheduled_messages')
+    .update({ status: 'cancelled' })
+    .eq('id', messageId)
+    .eq('establishment_id', establishmentOf(req))
+    .eq('status', 'pending')
+    .select('id');
+
+  if (error) {
+    throw error;
+  }
+
+  if (!data || data.length === 0) {
+    return res.status(404).json({ error: 'Mensagem pendente não encontrada' });
+  }
+
+  return res.json({ id: messageId, status: 'cancelled' });
+}));
+
+// Lista de espera (ordem de chegada)
+router.get('/waitlist', asyncHandler(async (req: Request, res: Response) => {
+  const { status } = WaitlistQuerySchema.parse(req.query);
+  const entries = await waitlistService.listEntries(establishmentOf(req), status);
+  res.json({ waitlist: entries });
+}));
+
+router.post('/waitlist/:id/cancel', asyncHandler(async (req: Request, res: Response) => {
+  const entryId = z.string().uuid().parse(req.params.id);
+
+  if (!(await waitlistService.cancelEntry(establishmentOf(req), entryId))) {
+    return res.status(404).json({ error: 'Pedido ativo na lista de espera não encontrado' });
+  }
+
+  return res.json({ id: entryId, status: 'cancelled' });
+}));
+
+// Templates das mensagens automáticas
+router.get('/templates', asyncHandler(async (req: Request, res: Response) => {
+  const templates = await automaticMessageService.getEstablishmentTemplates(establishmentOf(req));
+  res.json({ templates });
+}));
+
+router.put('/templates', asyncHandler(async (req: Request, res: Response) => {
+  const establishmentId = establishmentOf(req);
+  const body = TemplatesSchema.parse(req.body);
+
+  const result = await automaticMessageService.saveTemplateOverrides(establishmentId, body.templates);
+
+  if (result.errors) {
+    return res.status(400).json({
+      error: 'Variáveis desconhecidas nos templates',
+      details: result.errors
+    });
+  }
+
+  if (!result.success) {
+    return res.status(result.error === 'Configuração do estabelecimento não encontrada' ? 404 : 500)
+      .json({ error: result.error });
+  }
+
+  const templates = await automaticMessageService.getEstablishmentTemplates(establishmentId);
+  return res.json({ templates });
+}));
+
+// Prompts da IA
+router.get('/prompts', asyncHandler(async (req: Request, res: Response) => {
+  const prompts = await promptService.getPrompts(establishmentOf(req));
+  res.json({ prompts });
+}));
+
+router.put('/prompts', asyncHandler(async (req: Request, res: Response) => {
+  const establishmentId = establishmentOf(req);
+  const body = PromptsSchema.parse(req.body);
+
+  const { data, error } = await supabase
+    .from('ai_prompts')
+    .upsert({
+      ...body,
+      establishment_id: establishmentId,
+      updated_at: new Date().toISOString()
+    }, { onConflict: 'establishment_id' })
+    .select('*')
+    .single();
+
+  if (error) {
+    throw error;
+  }
+
+  promptService.invalidateCache(establishmentId);
+  res.json({ prompts: data });
+}));
+
+router.get('/prompts/preview', asyncHandler(async (req: Request, res: Response) => {
+  const establishmentId = establishmentOf(req);
+  const query = PromptPreviewQuerySchema.parse(req.query);
+
+  const [prompts, establishment, businessHours] = await Promise.all([
+    promptService.getPrompts(establishmentId),
+    promptService.getEstablishment(establishmentId),
+    businessHoursService.describeSchedule(establishmentId)
+  ]);
+
+  const composed = promptService.composeSystemPrompt({
+    prompts,
+    establishment,
+    intent: query.intent,
+    newClient: query.newClient === 'true',
+    businessHours
+  });
+
+  res.json({ intent: query.intent, sections: composed.sections, prompt: composed.prompt });
+}));
+
+// Status da instância do WhatsApp
+router.get('/instance', asyncHandler(async (req: Request, res: Response) => {
+  const query = InstanceQuerySchema.parse(req.query);
+
+  const result = await instanceOnboardingService.getInstance(establishmentOf(req), query.refresh === 'true');
+  if (!result.success) {
+    return res.status(result.reason === 'not_found' ? 404 : 500).json({ error: result.error });
+  }
+
+  return res.json({ instance: result.data });
+}));
+
+export default router;
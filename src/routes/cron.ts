@@ -0,0 +1,52 @@
+import { Router, Request, Response } from 'express';
+import { config } from '../config/env';
+import { asyncHandler } from '../middleware/errorHandler';
+import { requireCronSecret } from '../middleware/auth';
+import { automaticMessageService } from '../services/automaticMessageService';
+import { monitoringService } from '../services/monitoringService';
+import { messageQueue } from '../services/messageQueue';
+import { instanceHealthService } from '../services/instanceHealthService';
+import { waitlistService } from '../services/waitlistService';
+
+const router = Router();
+
+// Tarefas periódicas. No servidor rodam em intervalos; na Vercel, pelos crons de vercel.json.
+router.use(requireCronSecret);
+
+// Enviar mensagens agendadas (lembretes, follow-ups)
+router.get('/scheduled-messages', asyncHandler(async (req: Request, res: Response) => {
+  await automaticMessageService.processPendingMessages();
+  res.json({ status: 'ok', task: 'scheduled-messages' });
+}));
+
+// Coletar e gravar métricas do sistema
+router.get('/metrics', asyncHandler(async (req: Request, res: Response) => {
+  await monitoringService.collectMetrics();
+  res.json({ status: 'ok', task: 'metrics' });
+}));
+
+// Limpar logs de erro e métricas antigas
+router.get('/cleanup', asyncHandler(async (req: Request, res: Response) => {
+  await monitoringService.cleanupOldLogs();
+  res.json({ status: 'ok', task: 'cleanup' });
+}));
+
+// Processar a fila de mensagens até o fim do prazo (QUEUE_DRAIN_BUDGET_MS)
+router.get('/queue', asyncHandler(async (req: Request, res: Response) => {
+  const processed = await messageQueue.drain(config.queue.drainBudgetMs);
+  res.json({ status: 'ok', task: 'queue', processed });
+}));
+
+// Conferir a conexão das instâncias e alertar desconexões
+router.get('/instance-health', asyncHandler(async (req: Request, res: Response) => {
+  const report = await instanceHealthService.checkAllInstances();
+  res.json({ status: 'ok', task: 'instance-health', ...report });
+}));
+
+// Expirar ofertas da lista de espera sem resposta e passar o horário ao próximo da fila
+router.get('/waitlist', asyncHandler(async (req: Request, res: Response) => {
+  const report = await waitlistService.processExpired();
+  res.json({ status: 'ok', task: 'waitlist', ...report });
+}));
+
+export default router;
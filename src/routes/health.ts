@@ -1,7 +1,7 @@
 import { Router, Request, Response } from 'express';
-import { asyncHandler } from '@/middleware/errorHandler';
-import { supabase } from '@/config/supabase';
-import { logger } from '@/utils/logger';
+import { asyncHandler } from '../middleware/errorHandler';
+import { supabase } from '../config/supabase';
+import { logger } from '../utils/logger';
 
 const router = Router();
 
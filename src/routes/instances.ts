@@ -0,0 +1,120 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { asyncHandler } from '../middleware/errorHandler';
+import { requireOperatorToken } from '../middleware/auth';
+import { instanceOnboardingService, OnboardingFailure, OnboardingResult } from '../services/instanceOnboardingService';
+import { instanceHealthService } from '../services/instanceHealthService';
+
+const router = Router();
+
+const FAILURE_STATUS: Record<OnboardingFailure, number> = {
+  not_found: 404,
+  conflict: 409,
+  not_configured: 503,
+  provider_error: 502,
+  internal: 500
+};
+
+const CreateInstanceSchema = z.object({
+  establishmentId: z.string().uuid(),
+  // Nomes de instância viram parte das URLs da UazAPI
+  instanceName: z.string().regex(/^[a-zA-Z0-9_-]{3,64}$/).optional(),
+  whatsappNumber: z.string().regex(/^\d{10,15}$/).optional()
+});
+
+const InstanceQuerySchema = z.object({
+  refresh: z.enum(['true', 'false']).default('false')
+});
+
+// Função para responder com o resultado de uma operação de cadastro
+const sendResult = <T>(res: Response, result: OnboardingResult<T>, successStatus: number = 200) => {
+  if (!result.success) {
+    return res.status(FAILURE_STATUS[result.reason]).json({ error: result.error });
+  }
+
+  return res.status(successStatus).json(result.data);
+};
+
+const QrLinkQuerySchema = z.object({
+  expires: z.string(),
+  signature: z.string()
+});
+
+// Página de pareamento enviada nos alertas de desconexão (link assinado, sem token de operador)
+router.get('/:establishmentId/qr', asyncHandler(async (req: Request, res: Response) => {
+  const establishmentId = z.string().uuid().parse(req.params.establishmentId);
+  const query = QrLinkQuerySchema.safeParse(req.query);
+
+  if (!query.success || !instanceHealthService.verifyQrLink(establishmentId, query.data.expires, query.data.signature)) {
+    return res.status(403).send('Link inválido ou expirado');
+  }
+
+  const current = await instanceOnboardingService.getInstance(establishmentId, true);
+  if (!current.success) {
+    return res.status(FAILURE_STATUS[current.reason]).send(current.error);
+  }
+
+  if (current.data.status === 'connected') {
+    return res.send('<p>O WhatsApp já está conectado.</p>');
+  }
+
+  // Sem QR code pendente, solicitar um novo pareamento
+  const instance = current.data.qr_code ? current : await instanceOnboardingService.reconnect(establishmentId);
+  if (!instance.success || !instance.data.qr_code) {
+    return res.status(502).send('Não foi possível gerar o QR code. Tente novamente em instantes.');
+  }
+
+  const qrCode = instance.data.qr_code.startsWith('data:')
+    ? instance.data.qr_code
+    : `data:image/png;base64,${instance.data.qr_code}`;
+
+  return res.send(
+    '<p>Abra o WhatsApp no celular do salão, vá em Aparelhos conectados e escaneie o QR code:</p>' +
+    `<img src="${qrCode}" alt="QR code" />`
+  );
+}));
+
+router.use(requireOperatorToken);
+
+// Cadastro de um estabelecimento: cria a instância, salva a configuração e devolve o QR code
+router.post('/', asyncHandler(async (req: Request, res: Response) => {
+  const body = CreateInstanceSchema.parse(req.body);
+
+  const result = await instanceOnboardingService.createInstance(body);
+  return sendResult(res, result, 201);
+}));
+
+// Estado da instância (refresh=true consulta a UazAPI em vez de esperar o evento de conexão)
+router.get('/:establishmentId', asyncHandler(async (req: Request, res: Response) => {
+  const establishmentId = z.string().uuid().parse(req.params.establishmentId);
+  const query = InstanceQuerySchema.parse(req.query);
+
+  const result = await instanceOnboardingService.getInstance(establishmentId, query.refresh === 'true');
+  return sendResult(res, result);
+}));
+
+// Novo pareamento (gera outro QR code)
+router.post('/:establishmentId/connect', asyncHandler(async (req: Request, res: Response) => {
+  const establishmentId = z.string().uuid().parse(req.params.establishmentId);
+
+  const result = await instanceOnboardingService.reconnect(establishmentId);
+  return sendResult(res, result);
+}));
+
+// Desconexão do WhatsApp (a instância é mantida para um novo pareamento)
+router.post('/:establishmentId/disconnect', asyncHandler(async (req: Request, res: Response) => {
+  const establishmentId = z.string().uuid().parse(req.params.establishmentId);
+
+  const result = await instanceOnboardingService.disconnect(establishmentId);
+  return sendResult(res, result);
+}));
+
+// Remoção da instância e da configuração do estabelecimento
+router.delete('/:establishmentId', asyncHandler(async (req: Request, res: Response) => {
+  const establishmentId = z.string().uuid().parse(req.params.establishmentId);
+
+  const result = await instanceOnboardingService.removeInstance(establishmentId);
+  return sendResult(res, result);
+}));
+
+export default router;
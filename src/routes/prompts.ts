@@ -0,0 +1,62 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { supabase } from '../config/supabase';
+import { asyncHandler } from '../middleware/errorHandler';
+import { requireOperatorToken } from '../middleware/auth';
+import { promptService } from '../services/promptService';
+import { businessHoursService } from '../services/businessHoursService';
+import { INTENT_TYPES } from '../services/intentService';
+
+const router = Router();
+
+const PreviewQuerySchema = z.object({
+  intent: z.enum(INTENT_TYPES).default('other'),
+  // Simula o primeiro contato do cliente (inclui new_client_prompt)
+  newClient: z.enum(['true', 'false']).default('false')
+});
+
+router.use(requireOperatorToken);
+
+// Pré-visualização do prompt final enviado à IA para uma intenção
+router.get('/:establishmentId/preview', asyncHandler(async (req: Request, res: Response) => {
+  const establishmentId = z.string().uuid().parse(req.params.establishmentId);
+  const query = PreviewQuerySchema.parse(req.query);
+
+  // Sempre ler a versão atual do banco, e não a do cache
+  promptService.invalidateCache(establishmentId);
+
+  businessHoursService.invalidateCache(establishmentId);
+
+  const [prompts, establishment, businessHours, instance] = await Promise.all([
+    promptService.getPrompts(establishmentId),
+    promptService.getEstablishment(establishmentId),
+    businessHoursService.describeSchedule(establishmentId),
+    supabase
+      .from('uazapi_configurations')
+      .select('ai_prompt')
+      .eq('establishment_id', establishmentId)
+      .maybeSingle()
+  ]);
+
+  if (!establishment) {
+    return res.status(404).json({ error: 'Estabelecimento não encontrado' });
+  }
+
+  const composed = promptService.composeSystemPrompt({
+    prompts,
+    establishment,
+    intent: query.intent,
+    newClient: query.newClient === 'true',
+    instancePrompt: instance.data?.ai_prompt || undefined,
+    businessHours
+  });
+
+  return res.json({
+    establishmentId,
+    intent: query.intent,
+    sections: composed.sections,
+    prompt: composed.prompt
+  });
+}));
+
+export default router;
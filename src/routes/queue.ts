@@ -0,0 +1,58 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { asyncHandler } from '../middleware/errorHandler';
+import { requireOperatorToken } from '../middleware/auth';
+import { messageQueue } from '../services/messageQueue';
+import { JOB_STATUSES } from '../services/queueStorage';
+
+const router = Router();
+
+const JobListQuerySchema = z.object({
+  status: z.enum(JOB_STATUSES).optional(),
+  type: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(500).optional()
+});
+
+router.use(requireOperatorToken);
+
+// Estatísticas gerais da fila
+router.get('/', asyncHandler(async (req: Request, res: Response) => {
+  const stats = await messageQueue.getStats();
+  res.json(stats);
+}));
+
+// Listagem de jobs (ex.: ?status=dead para inspecionar a dead-letter)
+router.get('/jobs', asyncHandler(async (req: Request, res: Response) => {
+  const query = JobListQuerySchema.parse(req.query);
+  const jobs = await messageQueue.listJobs({
+    status: query.status,
+    type: query.type,
+    limit: query.limit
+  });
+
+  res.json({ jobs, count: jobs.length });
+}));
+
+// Detalhes de um job
+router.get('/jobs/:id', asyncHandler(async (req: Request, res: Response) => {
+  const job = await messageQueue.getJob(req.params.id!);
+
+  if (!job) {
+    return res.status(404).json({ error: 'Job não encontrado' });
+  }
+
+  return res.json(job);
+}));
+
+// Reenfileirar job da dead-letter
+router.post('/jobs/:id/retry', asyncHandler(async (req: Request, res: Response) => {
+  const requeued = await messageQueue.retryDeadJob(req.params.id!);
+
+  if (!requeued) {
+    return res.status(409).json({ error: 'Job não encontrado ou não está em dead-letter' });
+  }
+
+  return res.json({ status: 'requeued', jobId: req.params.id });
+}));
+
+export default router;
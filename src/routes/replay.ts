@@ -0,0 +1,38 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { asyncHandler } from '../middleware/errorHandler';
+import { requireOperatorToken } from '../middleware/auth';
+import { replayService } from '../services/replayService';
+
+const router = Router();
+
+const ReplayRequestSchema = z.object({
+  establishmentId: z.string().uuid().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  processed: z.boolean().optional(),
+  limit: z.number().int().min(1).max(1000).optional(),
+  dryRun: z.boolean().default(false)
+});
+
+router.use(requireOperatorToken);
+
+// Reprocessar mensagens salvas (ex.: após indisponibilidade da OpenAI ou da UazAPI)
+router.post('/', asyncHandler(async (req: Request, res: Response) => {
+  const body = ReplayRequestSchema.parse(req.body);
+
+  const report = await replayService.replay(
+    {
+      establishmentId: body.establishmentId,
+      from: body.from,
+      to: body.to,
+      processed: body.processed,
+      limit: body.limit
+    },
+    { dryRun: body.dryRun }
+  );
+
+  res.json(report);
+}));
+
+export default router;
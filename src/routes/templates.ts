@@ -0,0 +1,47 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { asyncHandler } from '../middleware/errorHandler';
+import { requireOperatorToken } from '../middleware/auth';
+import { automaticMessageService, TEMPLATE_IDS } from '../services/automaticMessageService';
+
+const router = Router();
+
+// null remove o texto próprio do estabelecimento e volta ao padrão
+const TemplateOverridesSchema = z.object({
+  templates: z.record(z.enum(TEMPLATE_IDS), z.string().min(1).max(4096).nullable())
+});
+
+router.use(requireOperatorToken);
+
+// Templates efetivos do estabelecimento (texto próprio ou padrão, e se a automação está ativa)
+router.get('/:establishmentId', asyncHandler(async (req: Request, res: Response) => {
+  const establishmentId = z.string().uuid().parse(req.params.establishmentId);
+  const templates = await automaticMessageService.getEstablishmentTemplates(establishmentId);
+
+  return res.json({ establishmentId, templates });
+}));
+
+// Atualização dos textos próprios do estabelecimento
+router.put('/:establishmentId', asyncHandler(async (req: Request, res: Response) => {
+  const establishmentId = z.string().uuid().parse(req.params.establishmentId);
+  const body = TemplateOverridesSchema.parse(req.body);
+
+  const result = await automaticMessageService.saveTemplateOverrides(establishmentId, body.templates);
+
+  if (result.errors) {
+    return res.status(400).json({
+      error: 'Variáveis desconhecidas nos templates',
+      details: result.errors
+    });
+  }
+
+  if (!result.success) {
+    return res.status(result.error === 'Configuração do estabelecimento não encontrada' ? 404 : 500)
+      .json({ error: result.error });
+  }
+
+  const templates = await automaticMessageService.getEstablishmentTemplates(establishmentId);
+  return res.json({ establishmentId, templates });
+}));
+
+export default router;
@@ -0,0 +1,41 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { asyncHandler } from '../middleware/errorHandler';
+import { requireOperatorToken } from '../middleware/auth';
+import { usageService } from '../services/usageService';
+
+const router = Router();
+
+// Limites nulos removem aquele limite; sem nenhum limite, o uso é ilimitado
+const BudgetSchema = z.object({
+  monthlyTokenLimit: z.number().int().positive().nullable().default(null),
+  monthlyCostLimit: z.number().positive().nullable().default(null),
+  warningThresholds: z.array(z.number().gt(0).lt(1)).max(5).nullable().default(null)
+});
+
+router.use(requireOperatorToken);
+
+// Consumo de IA do mês e situação do orçamento
+router.get('/:establishmentId', asyncHandler(async (req: Request, res: Response) => {
+  const establishmentId = z.string().uuid().parse(req.params.establishmentId);
+  const status = await usageService.getBudgetStatus(establishmentId);
+
+  return res.json({ establishmentId, ...status });
+}));
+
+// Definição do orçamento mensal (tokens e/ou dólares)
+router.put('/:establishmentId/budget', asyncHandler(async (req: Request, res: Response) => {
+  const establishmentId = z.string().uuid().parse(req.params.establishmentId);
+  const body = BudgetSchema.parse(req.body);
+
+  const budget = await usageService.setBudget(establishmentId, {
+    monthly_token_limit: body.monthlyTokenLimit,
+    monthly_cost_limit: body.monthlyCostLimit,
+    warning_thresholds: body.warningThresholds
+  });
+  const status = await usageService.getBudgetStatus(establishmentId);
+
+  return res.json({ budget, status });
+}));
+
+export default router;
@@ -1,93 +1,87 @@
-import { Router, Request, Response } from 'express';
+import { Router, Request, Response, NextFunction } from 'express';
 import { z } from 'zod';
-import { UazapiWebhookSchema, ProcessedMessage } from '../types/schemas';
+import { UazapiWebhookSchema, UazapiWebhook, ProcessedMessage } from '../types/schemas';
 import { logger } from '../utils/logger';
 import { supabase } from '../config/supabase';
 import { asyncHandler } from '../middleware/errorHandler';
-import { MessageProcessor } from '../services/messageProcessor';
+import { requireOperatorToken } from '../middleware/auth';
+import { deduplicationService } from '../services/deduplicationService';
+import { instanceEventService } from '../services/instanceEventService';
+import { webhookSecretService } from '../services/webhookSecretService';
+import { classifyJid, extractPhoneNumber, isNumberMentioned } from '../utils/jid';
+import { parseMessage, extractQuotedMessage } from '../utils/messageParser';
+import { messageQueue } from '../services/messageQueue';
+import { promptService } from '../services/promptService';
+import { automaticMessageService } from '../services/automaticMessageService';
+import {
+  PROCESS_MESSAGE_JOB,
+  ProcessMessageJobPayload,
+  conversationGroupKey,
+  mergeMessagePayloads
+} from '../services/jobHandlers';
 
 const router = Router();
 
-// Middleware para validar token do webhook
-const validateWebhookToken = (req: Request, res: Response, next: any) => {
-  const token = req.headers['x-webhook-token'] || req.query.token;
-  
-  if (!token || token !== process.env.WEBHOOK_TOKEN) {
-    logger.warn('Tentativa de acesso ao webhook com token inválido', {
+// Middleware para validar a assinatura HMAC do webhook com o segredo da instância
+const validateWebhookSignature = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  const instanceName = typeof req.body?.instanceName === 'string' ? req.body.instanceName : undefined;
+  const signature = req.get('x-webhook-signature');
+  const timestamp = req.get('x-webhook-timestamp');
+
+  if (!instanceName || !signature || !timestamp || !req.rawBody) {
+    logger.warn('Webhook sem assinatura ou instância', {
       ip: req.ip,
-      token: token ? 'presente' : 'ausente'
+      instanceName,
+      signature: signature ? 'presente' : 'ausente',
+      timestamp: timestamp ? 'presente' : 'ausente'
     });
-    
-    return res.status(401).json({ error: 'Token de webhook inválido' });
-  }
-  
-  return next();
-};
 
-// Função para extrair conteúdo da mensagem
-const extractMessageContent = (message: any): { content: string; type: string } => {
-  // Mensagem de texto simples
-  if (message.conversation) {
-    return {
-      content: message.conversation,
-      type: 'text'
-    };
+    return res.status(401).json({ error: 'Assinatura de webhook inválida' });
   }
 
-  // Mensagem de texto estendida
-  if (message.extendedTextMessage?.text) {
-    return {
-      content: message.extendedTextMessage.text,
-      type: 'text'
-    };
-  }
+  const { data: instanceSecrets } = await supabase
+    .from('uazapi_configurations')
+    .select('webhook_secret, previous_webhook_secret, previous_webhook_secret_expires_at')
+    .eq('instance_name', instanceName)
+    .single();
 
-  // Mensagem de imagem
-  if (message.imageMessage) {
-    return {
-      content: message.imageMessage.caption || '[Imagem]',
-      type: 'image'
-    };
+  if (!instanceSecrets) {
+    logger.warn('Webhook recebido para instância desconhecida', { ip: req.ip, instanceName });
+    return res.status(401).json({ error: 'Assinatura de webhook inválida' });
   }
 
-  // Mensagem de áudio
-  if (message.audioMessage) {
-    return {
-      content: '[Áudio]',
-      type: 'audio'
-    };
-  }
+  const check = webhookSecretService.verifySignature(instanceSecrets, timestamp, signature, req.rawBody);
 
-  // Mensagem de vídeo
-  if (message.videoMessage) {
-    return {
-      content: message.videoMessage.caption || '[Vídeo]',
-      type: 'video'
-    };
+  if (!check.valid) {
+    logger.warn('Tentativa de acesso ao webhook com assinatura inválida', {
+      ip: req.ip,
+      instanceName,
+      reason: check.reason
+    });
+
+    return res.status(401).json({ error: 'Assinatura de webhook inválida' });
   }
 
-  // Mensagem de documento
-  if (message.documentMessage) {
-    return {
-      content: message.documentMessage.caption || `[Documento: ${message.documentMessage.fileName || 'arquivo'}]`,
-      type: 'document'
-    };
+  if (check.usedPreviousSecret) {
+    logger.info('Webhook assinado com segredo anterior (rotação em andamento)', { instanceName });
   }
 
-  return {
-    content: '[Mensagem não suportada]',
-    type: 'unknown'
-  };
-};
+  return next();
+});
 
-// Função para extrair número de telefone
-const extractPhoneNumber = (remoteJid: string): string => {
-  // Remove o sufixo @s.whatsapp.net ou @c.us
-  const phone = remoteJid?.split('@')[0];
-  if (!phone) {
-    throw new Error('Número de telefone inválido');
+// Função para decidir o que fazer com uma mensagem de grupo conforme a política do estabelecimento
+const resolveGroupHandling = (
+  policy: 'ignore' | 'mention_only' | 'log_only' | undefined,
+  botMentioned: boolean
+): 'reply' | 'log' | 'ignore' => {
+  switch (policy) {
+    case 'mention_only':
+      return botMentioned ? 'reply' : 'log';
+    case 'log_only':
+      return 'log';
+    default:
+      return 'ignore';
   }
-  return phone;
 };
 
 // Função para buscar configuração da instância
@@ -112,12 +106,41 @@ const getInstanceConfig = async (instanceName: string) => {
   }
 };
 
+// Função para tratar eventos que não são mensagens (recibos, conexão, QR code)
+const handleInstanceEvent = async (
+  webhookData: Exclude<UazapiWebhook, { event: 'messages.upsert' }>
+): Promise<void> => {
+  switch (webhookData.event) {
+    case 'messages.update':
+      await instanceEventService.handleMessageStatusUpdate(webhookData);
+      break;
+    case 'connection.update':
+      await instanceEventService.handleConnectionUpdate(webhookData);
+      break;
+    case 'qrcode.updated':
+      await instanceEventService.handleQrCodeUpdate(webhookData);
+      break;
+  }
+};
+
 // Endpoint principal do webhook
-router.post('/', validateWebhookToken, asyncHandler(async (req: Request, res: Response) => {
+router.post('/', validateWebhookSignature, asyncHandler(async (req: Request, res: Response) => {
+  let claimedDelivery: { instanceName: string; messageId: string } | null = null;
+
   try {
     // Validar estrutura do webhook
     const webhookData = UazapiWebhookSchema.parse(req.body);
-    
+
+    if (webhookData.event !== 'messages.upsert') {
+      logger.debug('Evento de instância recebido:', {
+        instanceName: webhookData.instanceName,
+        event: webhookData.event
+      });
+
+      await handleInstanceEvent(webhookData);
+      return res.status(200).json({ status: 'processed', event: webhookData.event });
+    }
+
     logger.info('Webhook recebido:', {
       instanceName: webhookData.instanceName,
       messageId: webhookData.data.key.id,
@@ -130,6 +153,14 @@ router.post('/', validateWebhookToken, asyncHandler(async (req: Request, res: Re
       return res.status(200).json({ status: 'ignored', reason: 'message_from_me' });
     }
 
+    // Status, listas de transmissão e canais nunca são conversas com clientes
+    const chatJid = webhookData.data.key.remoteJid;
+    const chatType = classifyJid(chatJid);
+    if (chatType !== 'private' && chatType !== 'group') {
+      logger.debug('Ignorando mensagem que não é de conversa:', { chatType, chatJid });
+      return res.status(200).json({ status: 'ignored', reason: `chat_type_${chatType}` });
+    }
+
     // Buscar configuração da instância
     const instanceConfig = await getInstanceConfig(webhookData.instanceName);
     if (!instanceConfig) {
@@ -137,9 +168,43 @@ router.post('/', validateWebhookToken, asyncHandler(async (req: Request, res: Re
       return res.status(404).json({ error: 'Instância não configurada' });
     }
 
+    // Aplicar a política de grupos do estabelecimento
+    let groupHandling: 'reply' | 'log' | 'ignore' = 'reply';
+    if (chatType === 'group') {
+      const mentionedJids = webhookData.data.message.extendedTextMessage?.contextInfo?.mentionedJid;
+      groupHandling = resolveGroupHandling(
+        instanceConfig.group_policy,
+        isNumberMentioned(instanceConfig.whatsapp_number, mentionedJids)
+      );
+
+      if (groupHandling === 'ignore') {
+        logger.debug('Ignorando mensagem de grupo pela política do estabelecimento', { chatJid });
+        return res.status(200).json({ status: 'ignored', reason: 'group_policy' });
+      }
+    }
+
+    // Deduplicar reentregas da UazAPI pelo id da mensagem
+    const claim = await deduplicationService.claimDelivery(
+      webhookData.instanceName,
+      webhookData.data.key.id
+    );
+
+    if (claim.isNew) {
+      claimedDelivery = { instanceName: webhookData.instanceName, messageId: webhookData.data.key.id };
+    } else {
+      return res.status(200).json({
+        ...(claim.delivery?.result || { status: 'in_progress', messageId: webhookData.data.key.id }),
+        duplicate: true,
+        firstSeenAt: claim.delivery?.first_seen_at
+      });
+    }
+
     // Extrair informações da mensagem
-    const { content, type } = extractMessageContent(webhookData.data.message);
-    const clientPhone = extractPhoneNumber(webhookData.data.key.remoteJid);
+    const parsed = parseMessage(webhookData.data.message);
+    // Em grupos, o cliente é o participante que escreveu, não o grupo
+    const clientPhone = extractPhoneNumber(
+      chatType === 'group' ? webhookData.data.key.participant || '' : chatJid
+    );
     const clientName = webhookData.data.pushName || 'Cliente';
 
     // Criar objeto de mensagem processada
@@ -148,20 +213,25 @@ router.post('/', validateWebhookToken, asyncHandler(async (req: Request, res: Re
       instanceName: webhookData.instanceName,
       clientPhone,
       clientName,
-      messageContent: content,
-      messageType: type as any,
+      messageContent: parsed.content,
+      messageType: parsed.type,
       timestamp: webhookData.data.messageTimestamp,
       isFromClient: true,
+      chatType,
+      chatJid,
       metadata: {
         remoteJid: webhookData.data.key.remoteJid,
-        originalMessage: webhookData.data.message
+        originalMessage: webhookData.data.message,
+        ...(parsed.data ? { normalized: parsed.data } : {}),
+        quotedMessage: extractQuotedMessage(webhookData.data.message)
       }
     };
 
-    // Salvar mensagem no banco de dados
+    // Salvar mensagem no banco de dados. Se o enfileiramento falhar, a reentrega da UazAPI passa por
+    // aqui de novo: a mensagem já gravada é mantida em vez de duplicada
     const { error: saveError } = await supabase
       .from('whatsapp_messages')
-      .insert({
+      .upsert({
         message_id: processedMessage.messageId,
         establishment_id: instanceConfig.establishment_id,
         client_phone: processedMessage.clientPhone,
@@ -173,30 +243,56 @@ router.post('/', validateWebhookToken, asyncHandler(async (req: Request, res: Re
         metadata: JSON.stringify(processedMessage.metadata),
         processed: false,
         created_at: new Date(processedMessage.timestamp * 1000).toISOString()
-      });
+      }, { onConflict: 'establishment_id,message_id', ignoreDuplicates: true });
 
     if (saveError) {
       logger.error('Erro ao salvar mensagem no banco:', saveError);
-      return res.status(500).json({ error: 'Erro interno do servidor' });
+      throw saveError;
     }
 
-    // Processar mensagem se IA estiver habilitada
-    if (instanceConfig.ai_enabled) {
-      try {
-        const messageProcessor = new MessageProcessor();
-        await messageProcessor.processMessage(processedMessage);
-        logger.info('Mensagem processada com sucesso');
-      } catch (error) {
-        logger.error('Erro ao processar mensagem:', error);
-        // Não retornar erro para não afetar o webhook
-      }
+    // Reações não geram resposta da IA; um 👍 num lembrete confirma o agendamento
+    let reaction: { confirmedAppointmentId?: string } | undefined;
+    if (parsed.data?.kind === 'reaction') {
+      reaction = chatType === 'private' && !parsed.data.removed
+        ? await automaticMessageService.handleReminderReaction(
+          instanceConfig.establishment_id,
+          parsed.data.emoji,
+          parsed.data.targetMessageId
+        )
+        : {};
     }
 
-    return res.status(200).json({ 
-      status: 'success', 
+    // Enfileirar processamento se IA estiver habilitada (resposta imediata ao webhook).
+    // Mensagens que chegam dentro da janela response_delay entram no mesmo job.
+    let jobId: string | undefined;
+    const shouldReply = instanceConfig.ai_enabled && groupHandling === 'reply' && !reaction;
+    if (shouldReply) {
+      const job = await messageQueue.enqueueCoalesced<ProcessMessageJobPayload>(
+        PROCESS_MESSAGE_JOB,
+        {
+          establishmentId: instanceConfig.establishment_id,
+          messages: [processedMessage]
+        },
+        {
+          groupKey: conversationGroupKey(instanceConfig.establishment_id, processedMessage.clientPhone),
+          delayMs: await promptService.getResponseDelayMs(instanceConfig.establishment_id),
+          merge: mergeMessagePayloads
+        }
+      );
+      jobId = job.id;
+    }
+
+    const result = {
+      status: shouldReply ? 'queued' : 'success',
       messageId: processedMessage.messageId,
-      processed: instanceConfig.ai_enabled
-    });
+      processed: shouldReply,
+      jobId,
+      ...(reaction?.confirmedAppointmentId ? { confirmedAppointmentId: reaction.confirmedAppointmentId } : {})
+    };
+
+    await deduplicationService.recordResult(processedMessage.instanceName, processedMessage.messageId, result);
+
+    return res.status(200).json(result);
 
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -208,6 +304,11 @@ router.post('/', validateWebhookToken, asyncHandler(async (req: Request, res: Re
     }
 
     logger.error('Erro no processamento do webhook:', error);
+
+    if (claimedDelivery) {
+      await deduplicationService.releaseDelivery(claimedDelivery.instanceName, claimedDelivery.messageId);
+    }
+
     return res.status(500).json({ error: 'Erro interno do servidor' });
   }
 }));
@@ -221,6 +322,25 @@ router.get('/status', (req: Request, res: Response) => {
   });
 });
 
+// Endpoint para rotacionar o segredo de assinatura de uma instância
+router.post('/instances/:instanceName/rotate-secret', requireOperatorToken, asyncHandler(async (req: Request, res: Response) => {
+  const graceSeconds = req.body?.graceSeconds !== undefined
+    ? z.coerce.number().int().min(0).parse(req.body.graceSeconds)
+    : undefined;
+
+  const rotation = await webhookSecretService.rotateSecret(req.params.instanceName!, graceSeconds);
+
+  if (!rotation) {
+    return res.status(404).json({ error: 'Instância não encontrada' });
+  }
+
+  return res.json({
+    instanceName: req.params.instanceName,
+    secret: rotation.secret,
+    previousSecretExpiresAt: rotation.previousSecretExpiresAt
+  });
+}));
+
 // Endpoint para testar webhook (apenas em desenvolvimento)
 if (process.env.NODE_ENV === 'development') {
   router.post('/test', asyncHandler(async (req: Request, res: Response) => {
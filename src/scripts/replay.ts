@@ -0,0 +1,50 @@
+import { parseArgs } from 'util';
+import { logger } from '../utils/logger';
+import { replayService } from '../services/replayService';
+
+// Uso: npm run replay -- --establishment <id> --from 2024-01-01T00:00:00Z --to 2024-01-02T00:00:00Z [--processed] [--limit 100] [--dry-run]
+const { values } = parseArgs({
+  options: {
+    establishment: { type: 'string' },
+    from: { type: 'string' },
+    to: { type: 'string' },
+    processed: { type: 'boolean', default: false },
+    limit: { type: 'string' },
+    'dry-run': { type: 'boolean', default: false }
+  }
+});
+
+const parseDate = (value: string | undefined, name: string): Date | undefined => {
+  if (!value) {
+    return undefined;
+  }
+
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new Error(`Data inválida em --${name}: ${value}`);
+  }
+
+  return date;
+};
+
+const main = async (): Promise<void> => {
+  const report = await replayService.replay(
+    {
+      establishmentId: values.establishment,
+      from: parseDate(values.from, 'from'),
+      to: parseDate(values.to, 'to'),
+      processed: values.processed,
+      limit: values.limit ? parseInt(values.limit, 10) : undefined
+    },
+    { dryRun: values['dry-run'] }
+  );
+
+  // O relatório é a saída do script (os logs seguem pelo logger)
+  process.stdout.write(`${JSON.stringify(report, null, 2)}\n`);
+  process.exit(report.failed > 0 ? 1 : 0);
+};
+
+main().catch(error => {
+  logger.error('Erro no reprocessamento de mensagens:', error);
+  process.exit(1);
+});
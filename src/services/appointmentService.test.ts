@@ -0,0 +1,35 @@
+import { appointmentService } from './appointmentService';
+
+// Atendimento ocupado das 10h às 10h30, em minutos desde a meia-noite
+const busy = [{ start: 600, end: 630 }];
+
+const overlaps = (start: number, end: number, bufferMinutes: number): boolean =>
+  appointmentService['overlapsAny'](busy, start, end, bufferMinutes);
+
+describe('AppointmentService.overlapsAny', () => {
+  it('aceita atendimentos encostados quando não há intervalo entre eles', () => {
+    expect(overlaps(630, 660, 0)).toBe(false);
+    expect(overlaps(570, 600, 0)).toBe(false);
+    expect(overlaps(620, 650, 0)).toBe(true);
+  });
+
+  it('exige o intervalo depois de um atendimento ocupado', () => {
+    expect(overlaps(630, 660, 10)).toBe(true);
+    expect(overlaps(639, 669, 10)).toBe(true);
+    expect(overlaps(640, 670, 10)).toBe(false);
+  });
+
+  it('exige o intervalo antes de um atendimento ocupado', () => {
+    expect(overlaps(565, 595, 10)).toBe(true);
+    expect(overlaps(560, 590, 10)).toBe(false);
+  });
+
+  it('detecta atendimentos que contêm ou estão contidos no período ocupado', () => {
+    expect(overlaps(540, 720, 0)).toBe(true);
+    expect(overlaps(605, 625, 0)).toBe(true);
+  });
+
+  it('não encontra conflito em uma agenda vazia', () => {
+    expect(appointmentService['overlapsAny']([], 600, 630, 10)).toBe(false);
+  });
+});
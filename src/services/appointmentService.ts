@@ -4,6 +4,10 @@ import { z } from 'zod';
 import { addDays, format, parse, isAfter, isBefore, startOfDay } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
 import { automaticMessageService } from './automaticMessageService';
+import { businessHoursService } from './businessHoursService';
+import { promptService } from './promptService';
+import { professionalScheduleService, ProfessionalDay } from './professionalScheduleService';
+import { waitlistService } from './waitlistService';
 
 // Schemas de validação
 const AppointmentSchema = z.object({
@@ -18,6 +22,7 @@ const AppointmentSchema = z.object({
 });
 
 const AppointmentSearchSchema = z.object({
+  establishment_id: z.string().uuid().optional(),
   date: z.string().optional(),
   professional_id: z.string().uuid().optional(),
   client_id: z.string().uuid().optional(),
@@ -44,7 +49,44 @@ export interface AvailableSlot {
   professional_name: string;
 }
 
+// Período ocupado na agenda de um profissional, em minutos desde a meia-noite
+interface BusyInterval {
+  start: number;
+  end: number;
+}
+
+// Agendamento ativo lido para montar os períodos ocupados. A duração vem do serviço, que o PostgREST
+// devolve como objeto (relação muitos-para-um), embora o tipo inferido do select seja uma lista
+interface BookedRow {
+  id: string;
+  professional_id: string;
+  appointment_date: string;
+  appointment_time: string;
+  created_at: string;
+  services: { duration_minutes: number | null } | null;
+}
+
+// Espaçamento entre os horários oferecidos
+const SLOT_STEP_MINUTES = 30;
+
+// Duração assumida quando o serviço não informa duration_minutes
+const DEFAULT_DURATION_MINUTES = 30;
+
+// Agenda do dia de um profissional: jornada efetiva e atendimentos marcados
+export interface AgendaProfessional {
+  id: string;
+  name: string;
+  day: ProfessionalDay;
+  appointments: AppointmentData[];
+}
+
+export interface DailyAgenda {
+  date: string;
+  professionals: AgendaProfessional[];
+}
+
 export interface AppointmentSearchParams {
+  establishment_id?: string;
   date?: string;
   professional_id?: string;
   client_id?: string;
@@ -60,11 +102,32 @@ class AppointmentService {
       // Validar dados
       const validatedData = AppointmentSchema.parse(appointmentData);
       
-      // Verificar se o horário está disponível
-      const isAvailable = await this.checkAvailability(
-        validatedData.professional_id,
-        validatedData.appointment_date,
-        validatedData.appointment_time
+      // Verificar se o horário está disponível pela duração do serviço
+      const [durationMinutes, bufferMinutes] = await Promise.all([
+        this.getServiceDuration(validatedData.service_id),
+        this.getBufferMinutes(validatedData.establishment_id)
+      ]);
+      const [isFree, days] = await Promise.all([
+        this.checkAvailability(
+          validatedData.professional_id,
+          validatedData.appointment_date,
+          validatedData.appointment_time,
+          durationMinutes,
+          bufferMinutes
+        ),
+        professionalScheduleService.getProfessionalDays(
+          validatedData.establishment_id,
+          [validatedData.professional_id],
+          validatedData.appointment_date
+        )
+      ]);
+
+      // O atendimento também precisa caber na jornada do profissional (folgas, intervalos e ausências)
+      const start = businessHoursService.toMinutes(validatedData.appointment_time);
+      const isAvailable = isFree && professionalScheduleService.fitsInDay(
+        days.get(validatedData.professional_id),
+        start,
+        start + durationMinutes
       );
       
       if (!isAvailable) {
@@ -91,6 +154,33 @@ class AppointmentService {
           error: 'Erro interno ao criar agendamento'
         };
       }
+
+      // A verificação acima e o insert não são atômicos: conferir de novo e desfazer se outro
+      // agendamento concorrente, gravado antes, ocupou o mesmo período (ou se não deu para conferir)
+      const conflict = await this.findConflictAfterWrite(data, durationMinutes, bufferMinutes, true);
+      if (conflict !== 'none') {
+        const { error: rollbackError } = await supabase
+          .from('appointments')
+          .delete()
+          .eq('id', data.id);
+
+        if (rollbackError) {
+          logger.error('Erro ao desfazer agendamento em conflito:', rollbackError);
+        }
+
+        logger.warn('Agendamento desfeito após conferir conflitos:', {
+          appointmentId: data.id,
+          professionalId: data.professional_id,
+          date: data.appointment_date,
+          time: data.appointment_time,
+          conflict
+        });
+
+        return {
+          success: false,
+          error: conflict === 'overlap' ? 'Horário não disponível para agendamento' : 'Erro interno ao criar agendamento'
+        };
+      }
       
       logger.info('Agendamento criado com sucesso:', { appointmentId: data.id });
       
@@ -99,7 +189,7 @@ class AppointmentService {
         await automaticMessageService.sendAppointmentConfirmation(data.id);
         
         // Agendar follow-up automático (24h após o agendamento)
-        await automaticMessageService.scheduleFollowUp(data.id, 'appointment_followup');
+        await automaticMessageService.scheduleFollowUp(data.id, data.establishment_id);
       } catch (error) {
         logger.error('Erro ao enviar confirmação automática:', error);
       }
@@ -119,29 +209,21 @@ class AppointmentService {
   }
   
   /**
-   * Verifica disponibilidade de horário
+   * Verifica se o intervalo [horário, horário + duração) não se sobrepõe a outro agendamento do profissional
    */
   async checkAvailability(
     professionalId: string,
     date: string,
-    time: string
+    time: string,
+    durationMinutes: number = DEFAULT_DURATION_MINUTES,
+    bufferMinutes: number = 0,
+    excludeAppointmentId?: string
   ): Promise<boolean> {
     try {
-      const { data, error } = await supabase
-        .from('appointments')
-        .select('id')
-        .eq('professional_id', professionalId)
-        .eq('appointment_date', date)
-        .eq('appointment_time', time)
-        .in('status', ['scheduled', 'confirmed'])
-        .limit(1);
-      
-      if (error) {
-        logger.error('Erro ao verificar disponibilidade:', error);
-        return false;
-      }
-      
-      return data.length === 0;
+      const busy = await this.getBusyIntervals([professionalId], date, excludeAppointmentId);
+      const start = businessHoursService.toMinutes(time);
+
+      return !this.overlapsAny(busy.get(professionalId) || [], start, start + durationMinutes, bufferMinutes);
       
     } catch (error) {
       logger.error('Erro ao verificar disponibilidade:', error);
@@ -150,15 +232,24 @@ class AppointmentService {
   }
   
   /**
-   * Busca horários disponíveis
+   * Busca horários disponíveis (com o serviço informado, apenas horários em que ele cabe inteiro)
    */
   async getAvailableSlots(
     establishmentId: string,
     date?: string,
-    professionalId?: string
+    professionalId?: string,
+    serviceId?: string,
+    excludeAppointmentId?: string
   ): Promise<AvailableSlot[]> {
     try {
-      const targetDate = date || format(new Date(), 'yyyy-MM-dd');
+      const now = businessHoursService.toLocal();
+      const targetDate = date || now.date;
+
+      // Dia fechado (folga semanal, feriado ou fechamento especial): sem horários
+      const dayHours = await businessHoursService.getDayHours(establishmentId, targetDate);
+      if (!dayHours.open) {
+        return [];
+      }
       
       // Buscar profissionais
       let professionalsQuery = supabase
@@ -177,42 +268,45 @@ class AppointmentService {
         logger.error('Erro ao buscar profissionais:', profError);
         return [];
       }
-      
-      // Buscar agendamentos existentes
-      const { data: existingAppointments, error: apptError } = await supabase
-        .from('appointments')
-        .select('professional_id, appointment_time')
-        .eq('appointment_date', targetDate)
-        .in('status', ['scheduled', 'confirmed']);
-      
-      if (apptError) {
-        logger.error('Erro ao buscar agendamentos:', apptError);
-        return [];
-      }
-      
-      // Gerar horários disponíveis (8h às 18h, intervalos de 30min)
+
+      const professionalIds = professionals.map(professional => professional.id);
+      const [durationMinutes, bufferMinutes, busy, days] = await Promise.all([
+        serviceId ? this.getServiceDuration(serviceId) : Promise.resolve(DEFAULT_DURATION_MINUTES),
+        this.getBufferMinutes(establishmentId),
+        this.getBusyIntervals(professionalIds, targetDate, excludeAppointmentId),
+        professionalScheduleService.getProfessionalDays(establishmentId, professionalIds, targetDate)
+      ]);
+      
+      // Gerar inícios na jornada de cada profissional em que o serviço cabe inteiro, sem sobreposição
       const availableSlots: AvailableSlot[] = [];
-      const startHour = 8;
-      const endHour = 18;
       
       for (const professional of professionals) {
-        for (let hour = startHour; hour < endHour; hour++) {
-          for (const minute of [0, 30]) {
-            const timeSlot = `${hour.toString().padStart(2, '0')}:${minute.toString().padStart(2, '0')}:00`;
-            
-            // Verificar se horário está ocupado
-            const isOccupied = existingAppointments?.some(
-              apt => apt.professional_id === professional.id && apt.appointment_time === timeSlot
-            );
-            
-            if (!isOccupied) {
-              availableSlots.push({
-                date: targetDate,
-                time: timeSlot,
-                professional_id: professional.id,
-                professional_name: professional.name
-              });
-            }
+        const day = days.get(professional.id);
+        if (!day?.available) {
+          continue;
+        }
+
+        const intervals = busy.get(professional.id) || [];
+        const endMinutes = businessHoursService.toMinutes(day.endsAt);
+
+        for (let start = businessHoursService.toMinutes(day.startsAt); start < endMinutes; start += SLOT_STEP_MINUTES) {
+          const time = this.toTime(start);
+
+          // Hoje, só horários que ainda não passaram
+          if (targetDate === now.date && time <= now.time) {
+            continue;
+          }
+
+          if (
+            professionalScheduleService.fitsInDay(day, start, start + durationMinutes) &&
+            !this.overlapsAny(intervals, start, start + durationMinutes, bufferMinutes)
+          ) {
+            availableSlots.push({
+              date: targetDate,
+              time: `${time}:00`,
+              professional_id: professional.id,
+              professional_name: professional.name
+            });
           }
         }
       }
@@ -224,6 +318,125 @@ class AppointmentService {
       return [];
     }
   }
+
+  /**
+   * Busca os períodos ocupados dos profissionais na data, pela duração do serviço de cada agendamento
+   * (o agendamento excluído é o que está sendo remarcado)
+   */
+  private async getBusyIntervals(
+    professionalIds: string[],
+    date: string,
+    excludeAppointmentId?: string
+  ): Promise<Map<string, BusyInterval[]>> {
+    const busy = new Map<string, BusyInterval[]>();
+    if (professionalIds.length === 0) {
+      return busy;
+    }
+
+    const { data, error } = await supabase
+      .from('appointments')
+      .select('id, professional_id, appointment_time, services(duration_minutes)')
+      .in('professional_id', professionalIds)
+      .eq('appointment_date', date)
+      .in('status', ['scheduled', 'confirmed']);
+
+    if (error) {
+      logger.error('Erro ao buscar agendamentos:', error);
+      throw error;
+    }
+
+    const rows = (data || []) as unknown as Pick<BookedRow, 'id' | 'professional_id' | 'appointment_time' | 'services'>[];
+    for (const appointment of rows) {
+      if (appointment.id === excludeAppointmentId) {
+        continue;
+      }
+
+      const start = businessHoursService.toMinutes(appointment.appointment_time);
+      const duration = appointment.services?.duration_minutes || DEFAULT_DURATION_MINUTES;
+      const intervals = busy.get(appointment.professional_id) || [];
+      intervals.push({ start, end: start + duration });
+      busy.set(appointment.professional_id, intervals);
+    }
+
+    return busy;
+  }
+
+  /**
+   * Confere, depois de gravar, se o agendamento colide com outro do profissional. Com onlyEarlier, só contam
+   * os gravados antes dele (ordem de created_at e, no empate, de id): entre dois concorrentes, só o mais novo
+   * é desfeito. Falha na consulta é devolvida como 'error', para que quem gravou desfaça a gravação
+   */
+  private async findConflictAfterWrite(
+    written: Omit<BookedRow, 'services'>,
+    durationMinutes: number,
+    bufferMinutes: number,
+    onlyEarlier: boolean
+  ): Promise<'none' | 'overlap' | 'error'> {
+    const { data, error } = await supabase
+      .from('appointments')
+      .select('id, appointment_time, created_at, services(duration_minutes)')
+      .eq('professional_id', written.professional_id)
+      .eq('appointment_date', written.appointment_date)
+      .in('status', ['scheduled', 'confirmed'])
+      .neq('id', written.id);
+
+    if (error) {
+      logger.error('Erro ao conferir conflitos do agendamento:', error);
+      return 'error';
+    }
+
+    const start = businessHoursService.toMinutes(written.appointment_time);
+    const others = ((data || []) as unknown as Pick<BookedRow, 'id' | 'appointment_time' | 'created_at' | 'services'>[])
+      .filter(other => !onlyEarlier
+        || other.created_at < written.created_at
+        || (other.created_at === written.created_at && other.id < written.id))
+      .map(other => {
+        const otherStart = businessHoursService.toMinutes(other.appointment_time);
+        return { start: otherStart, end: otherStart + (other.services?.duration_minutes || DEFAULT_DURATION_MINUTES) };
+      });
+
+    return this.overlapsAny(others, start, start + durationMinutes, bufferMinutes) ? 'overlap' : 'none';
+  }
+
+  /**
+   * Verifica se [start, end) colide com algum período ocupado, respeitando o intervalo entre atendimentos
+   */
+  private overlapsAny(intervals: BusyInterval[], start: number, end: number, bufferMinutes: number): boolean {
+    return intervals.some(interval => start < interval.end + bufferMinutes && interval.start < end + bufferMinutes);
+  }
+
+  /**
+   * Busca a duração do serviço em minutos
+   */
+  private async getServiceDuration(serviceId: string): Promise<number> {
+    const { data, error } = await supabase
+      .from('services')
+      .select('duration_minutes')
+      .eq('id', serviceId)
+      .maybeSingle();
+
+    if (error) {
+      logger.error('Erro ao buscar duração do serviço:', error);
+      throw error;
+    }
+
+    return data?.duration_minutes || DEFAULT_DURATION_MINUTES;
+  }
+
+  /**
+   * Busca o intervalo mínimo entre atendimentos configurado pelo estabelecimento
+   */
+  private async getBufferMinutes(establishmentId: string): Promise<number> {
+    const establishment = await promptService.getEstablishment(establishmentId);
+    return Math.max(0, establishment?.appointment_buffer_minutes || 0);
+  }
+
+  /**
+   * Converte minutos desde a meia-noite em "HH:mm"
+   */
+  private toTime(minutes: number): string {
+    return `${Math.floor(minutes / 60).toString().padStart(2, '0')}:${(minutes % 60).toString().padStart(2, '0')}`;
+  }
   
   /**
    * Busca agendamentos
@@ -241,6 +454,10 @@ class AppointmentService {
           services(name, duration_minutes, price)
         `);
       
+      if (validatedParams.establishment_id) {
+        query = query.eq('establishment_id', validatedParams.establishment_id);
+      }
+      
       if (validatedParams.date) {
         query = query.eq('appointment_date', validatedParams.date);
       }
@@ -273,20 +490,65 @@ class AppointmentService {
   }
   
   /**
-   * Atualiza status do agendamento
+   * Monta a agenda do dia do estabelecimento, por profissional
+   */
+  async getDailyAgenda(establishmentId: string, date: string): Promise<DailyAgenda> {
+    const { data: professionals, error } = await supabase
+      .from('professionals')
+      .select('id, name')
+      .eq('establishment_id', establishmentId)
+      .eq('active', true)
+      .order('name', { ascending: true });
+
+    if (error) {
+      logger.error('Erro ao buscar profissionais:', error);
+      throw error;
+    }
+
+    const [appointments, days] = await Promise.all([
+      this.searchAppointments({ establishment_id: establishmentId, date }),
+      professionalScheduleService.getProfessionalDays(
+        establishmentId,
+        (professionals || []).map(professional => professional.id),
+        date
+      )
+    ]);
+
+    return {
+      date,
+      professionals: (professionals || []).map(professional => ({
+        id: professional.id,
+        name: professional.name,
+        day: days.get(professional.id)!,
+        appointments: appointments
+          .filter(appointment => appointment.professional_id === professional.id && appointment.status !== 'cancelled')
+          .sort((a, b) => a.appointment_time.localeCompare(b.appointment_time))
+      }))
+    };
+  }
+
+  /**
+   * Atualiza status do agendamento. Cancelamentos passam por cancelAppointment (lembretes e lista de espera);
+   * um agendamento cancelado não volta a ficar ativo, já que o horário pode ter sido ocupado
    */
   async updateAppointmentStatus(
     appointmentId: string,
     status: string
   ): Promise<{ success: boolean; error?: string }> {
+    if (status === 'cancelled') {
+      return this.cancelAppointment(appointmentId);
+    }
+
     try {
-      const { error } = await supabase
+      const { data: updated, error } = await supabase
         .from('appointments')
         .update({ 
           status,
           updated_at: new Date().toISOString()
         })
-        .eq('id', appointmentId);
+        .eq('id', appointmentId)
+        .neq('status', 'cancelled')
+        .select('id');
       
       if (error) {
         logger.error('Erro ao atualizar status do agendamento:', error);
@@ -295,6 +557,13 @@ class AppointmentService {
           error: 'Erro interno ao atualizar agendamento'
         };
       }
+
+      if (!updated || updated.length === 0) {
+        return {
+          success: false,
+          error: 'Agendamento cancelado não pode ser reativado'
+        };
+      }
       
       logger.info('Status do agendamento atualizado:', { appointmentId, status });
       
@@ -309,6 +578,152 @@ class AppointmentService {
     }
   }
   
+  /**
+   * Remarca o agendamento para outra data/horário, mantendo o id, e registra a mudança em appointment_history
+   */
+  async rescheduleAppointment(
+    appointmentId: string,
+    newDate: string,
+    newTime: string,
+    changedBy: 'client' | 'staff'
+  ): Promise<{ success: boolean; data?: AppointmentData; error?: string }> {
+    try {
+      const { data: appointment, error: fetchError } = await supabase
+        .from('appointments')
+        .select('*')
+        .eq('id', appointmentId)
+        .maybeSingle();
+
+      if (fetchError) {
+        logger.error('Erro ao buscar agendamento para remarcação:', fetchError);
+        return { success: false, error: 'Erro interno ao remarcar agendamento' };
+      }
+
+      if (!appointment) {
+        return { success: false, error: 'Agendamento não encontrado' };
+      }
+
+      if (!['scheduled', 'confirmed'].includes(appointment.status)) {
+        return { success: false, error: 'Agendamento não pode ser remarcado' };
+      }
+
+      const time = newTime.length === 5 ? `${newTime}:00` : newTime;
+      const [durationMinutes, bufferMinutes] = await Promise.all([
+        this.getServiceDuration(appointment.service_id),
+        this.getBufferMinutes(appointment.establishment_id)
+      ]);
+      const [isFree, days] = await Promise.all([
+        this.checkAvailability(appointment.professional_id, newDate, time, durationMinutes, bufferMinutes, appointmentId),
+        professionalScheduleService.getProfessionalDays(appointment.establishment_id, [appointment.professional_id], newDate)
+      ]);
+
+      const start = businessHoursService.toMinutes(time);
+      if (!isFree || !professionalScheduleService.fitsInDay(days.get(appointment.professional_id), start, start + durationMinutes)) {
+        return { success: false, error: 'Horário não disponível para agendamento' };
+      }
+
+      // Atualização condicional: só move se o agendamento não mudou desde a leitura
+      const { data: moved, error: updateError } = await supabase
+        .from('appointments')
+        .update({
+          appointment_date: newDate,
+          appointment_time: time,
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', appointmentId)
+        .eq('appointment_date', appointment.appointment_date)
+        .eq('appointment_time', appointment.appointment_time)
+        .in('status', ['scheduled', 'confirmed'])
+        .select('*');
+
+      if (updateError) {
+        logger.error('Erro ao remarcar agendamento:', updateError);
+        return { success: false, error: 'Erro interno ao remarcar agendamento' };
+      }
+
+      if (!moved || moved.length === 0) {
+        return { success: false, error: 'Agendamento alterado por outra operação' };
+      }
+
+      // Como na criação, a verificação e a atualização não são atômicas: quem remarca cede o horário a
+      // qualquer outro agendamento que o ocupe agora e volta para o horário anterior
+      const conflict = await this.findConflictAfterWrite(moved[0], durationMinutes, bufferMinutes, false);
+      if (conflict !== 'none') {
+        const { error: revertError } = await supabase
+          .from('appointments')
+          .update({
+            appointment_date: appointment.appointment_date,
+            appointment_time: appointment.appointment_time,
+            updated_at: new Date().toISOString()
+          })
+          .eq('id', appointmentId)
+          .eq('appointment_date', newDate)
+          .eq('appointment_time', time);
+
+        if (revertError) {
+          logger.error('Erro ao desfazer remarcação em conflito:', revertError);
+        }
+
+        logger.warn('Remarcação desfeita após conferir conflitos:', {
+          appointmentId,
+          to: `${newDate} ${time}`,
+          conflict
+        });
+
+        return {
+          success: false,
+          error: conflict === 'overlap' ? 'Horário não disponível para agendamento' : 'Erro interno ao remarcar agendamento'
+        };
+      }
+
+      const { error: historyError } = await supabase
+        .from('appointment_history')
+        .insert({
+          appointment_id: appointmentId,
+          establishment_id: appointment.establishment_id,
+          action: 'rescheduled',
+          previous_date: appointment.appointment_date,
+          previous_time: appointment.appointment_time,
+          new_date: newDate,
+          new_time: time,
+          changed_by: changedBy,
+          created_at: new Date().toISOString()
+        });
+
+      if (historyError) {
+        logger.error('Erro ao registrar histórico da remarcação:', historyError);
+      }
+
+      logger.info('Agendamento remarcado:', {
+        appointmentId,
+        from: `${appointment.appointment_date} ${appointment.appointment_time}`,
+        to: `${newDate} ${time}`,
+        changedBy
+      });
+
+      // Lembretes e follow-up pendentes passam a valer para o novo horário
+      try {
+        await automaticMessageService.replanAppointmentMessages(appointmentId, appointment.establishment_id);
+      } catch (error) {
+        logger.error('Erro ao reprogramar mensagens do agendamento remarcado:', error);
+      }
+
+      // O horário antigo ficou livre: oferecer à lista de espera
+      await waitlistService.onSlotFreed({
+        establishmentId: appointment.establishment_id,
+        professionalId: appointment.professional_id,
+        date: appointment.appointment_date,
+        time: appointment.appointment_time
+      });
+
+      return { success: true, data: moved[0] };
+
+    } catch (error) {
+      logger.error('Erro ao remarcar agendamento:', error);
+      return { success: false, error: 'Erro interno' };
+    }
+  }
+
   /**
    * Cancela agendamento
    */
@@ -317,13 +732,16 @@ class AppointmentService {
     reason?: string
   ): Promise<{ success: boolean; error?: string }> {
     try {
-      const { error } = await supabase
+      const { data: cancelled, error } = await supabase
         .from('appointments')
         .update({ 
           status: 'cancelled',
           updated_at: new Date().toISOString()
         })
-        .eq('id', appointmentId);
+        .eq('id', appointmentId)
+        .in('status', ['scheduled', 'confirmed'])
+        .select('establishment_id, professional_id, appointment_date, appointment_time')
+        .maybeSingle();
       
       if (error) {
         logger.error('Erro ao cancelar agendamento:', error);
@@ -332,8 +750,27 @@ class AppointmentService {
           error: 'Erro interno ao cancelar agendamento'
         };
       }
+
+      // Nenhuma linha alterada: já cancelado, concluído ou inexistente, e o horário não foi liberado agora
+      if (!cancelled) {
+        return {
+          success: false,
+          error: 'Agendamento não pode ser cancelado'
+        };
+      }
       
       logger.info('Agendamento cancelado:', { appointmentId, reason });
+
+      // Lembretes e follow-up de um horário que não vai acontecer
+      await automaticMessageService.cancelAppointmentMessages(appointmentId);
+
+      // Oferecer o horário liberado a quem está na lista de espera
+      await waitlistService.onSlotFreed({
+        establishmentId: cancelled.establishment_id,
+        professionalId: cancelled.professional_id,
+        date: cancelled.appointment_date,
+        time: cancelled.appointment_time
+      });
       
       return { success: true };
       
@@ -1,29 +1,65 @@
-import { supabase } from '../config/supabase';
+import { supabase, UazapiConfiguration } from '../config/supabase';
 import { logger } from '../utils/logger';
-import { messageService } from './messageService';
+import { outboundGateway } from './outboundGateway';
 import { appointmentService } from './appointmentService';
-import { format, addDays, subDays, isAfter, parseISO } from 'date-fns';
+import { tenantContext } from './tenantContext';
+import { businessHoursService } from './businessHoursService';
+import { format, addDays, subDays, subHours, isAfter, parseISO } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
 
+export const TEMPLATE_IDS = ['reminder_24h', 'reminder_1h', 'confirmation', 'welcome', 'follow_up'] as const;
+
+export type TemplateId = typeof TEMPLATE_IDS[number];
+
+// Chave do template em uazapi_configurations.message_templates (o toggle é `<chave>_enabled`)
+type TemplateConfigKey = keyof UazapiConfiguration['message_templates'];
+
 export interface MessageTemplate {
-  id: string;
+  id: TemplateId;
   name: string;
   content: string;
   type: 'reminder' | 'confirmation' | 'welcome' | 'follow_up';
   variables: string[];
 }
 
+// Template já resolvido para um estabelecimento
+export interface ResolvedTemplate extends MessageTemplate {
+  source: 'default' | 'establishment';
+  enabled: boolean;
+}
+
+export interface TemplateValidationError {
+  templateId: TemplateId;
+  unknownVariables: string[];
+}
+
 export interface ScheduledMessage {
   id?: string;
   client_phone: string;
   message_content: string;
   scheduled_for: string;
-  status: 'pending' | 'sent' | 'failed';
+  status: 'pending' | 'sent' | 'failed' | 'skipped' | 'cancelled';
   appointment_id?: string;
   establishment_id: string;
+  template_id?: TemplateId;
+  external_message_id?: string;
 }
 
+const TEMPLATE_CONFIG_KEYS: Record<TemplateId, TemplateConfigKey> = {
+  reminder_24h: 'reminder_24h',
+  reminder_1h: 'reminder_1h',
+  confirmation: 'confirmation',
+  welcome: 'welcome',
+  follow_up: 'followup'
+};
+
+type AutomationConfig = Pick<UazapiConfiguration, 'message_templates' | 'automation_settings'>;
+
+// Reações que contam como confirmação de um lembrete
+const CONFIRMATION_REACTIONS = ['👍', '✅', '👌', '🙏', '❤️'];
+
 class AutomaticMessageService {
+  // Textos padrão; cada estabelecimento pode sobrescrevê-los em uazapi_configurations.message_templates
   private messageTemplates: MessageTemplate[] = [
     {
       id: 'reminder_24h',
@@ -32,6 +68,13 @@ class AutomaticMessageService {
       type: 'reminder',
       variables: ['client_name', 'date', 'time', 'professional_name', 'service_name', 'price']
     },
+    {
+      id: 'reminder_1h',
+      name: 'Lembrete 1h',
+      content: 'Olá {client_name}! ⏰\n\nSeu horário com {professional_name} é daqui a pouco, às {time}.\n\nServiço: {service_name}\n\nTe esperamos! 😊',
+      type: 'reminder',
+      variables: ['client_name', 'date', 'time', 'professional_name', 'service_name', 'price']
+    },
     {
       id: 'confirmation',
       name: 'Confirmação de Agendamento',
@@ -55,19 +98,151 @@ class AutomaticMessageService {
     }
   ];
 
+  /**
+   * Busca templates e toggles de automação do estabelecimento
+   */
+  private async getAutomationConfig(establishmentId: string): Promise<AutomationConfig | null> {
+    // Dentro do processamento de uma mensagem a configuração já está carregada
+    const tenant = tenantContext.getTenant();
+    if (tenant?.establishmentId === establishmentId) {
+      return tenant.instanceConfig;
+    }
+
+    const { data, error } = await supabase
+      .from('uazapi_configurations')
+      .select('message_templates, automation_settings')
+      .eq('establishment_id', establishmentId)
+      .maybeSingle();
+
+    if (error) {
+      logger.error('Erro ao buscar configuração de automações:', error);
+      return null;
+    }
+
+    return data as AutomationConfig | null;
+  }
+
+  /**
+   * Resolve um template para o estabelecimento (texto próprio sobre o padrão, e o toggle da automação)
+   */
+  async resolveTemplate(templateId: TemplateId, establishmentId: string): Promise<ResolvedTemplate | null> {
+    const template = this.messageTemplates.find(t => t.id === templateId);
+    if (!template) {
+      return null;
+    }
+
+    const config = await this.getAutomationConfig(establishmentId);
+    const key = TEMPLATE_CONFIG_KEYS[templateId];
+    const override = config?.message_templates?.[key];
+    const enabled = config?.automation_settings?.[`${key}_enabled`];
+
+    return {
+      ...template,
+      content: override && override.trim() ? override : template.content,
+      source: override && override.trim() ? 'establishment' : 'default',
+      enabled: enabled !== false
+    };
+  }
+
+  /**
+   * Substitui as variáveis {nome} do template
+   */
+  private renderTemplate(content: string, variables: Record<string, string>): string {
+    let messageContent = content;
+    for (const [key, value] of Object.entries(variables)) {
+      messageContent = messageContent.replace(new RegExp(`{${key}}`, 'g'), value);
+    }
+    return messageContent;
+  }
+
+  /**
+   * Valida um texto de template contra as variáveis declaradas
+   */
+  validateTemplate(templateId: TemplateId, content: string): TemplateValidationError | null {
+    const template = this.messageTemplates.find(t => t.id === templateId);
+    const declared = template?.variables || [];
+    const used = [...content.matchAll(/\{(\w+)\}/g)].map(match => match[1]!);
+    const unknownVariables = [...new Set(used.filter(variable => !declared.includes(variable)))];
+
+    return unknownVariables.length > 0 ? { templateId, unknownVariables } : null;
+  }
+
+  /**
+   * Salva os textos próprios do estabelecimento, validando as variáveis de cada template
+   */
+  async saveTemplateOverrides(
+    establishmentId: string,
+    overrides: Partial<Record<TemplateId, string | null>>
+  ): Promise<{ success: boolean; errors?: TemplateValidationError[]; error?: string }> {
+    try {
+      const errors = Object.entries(overrides)
+        .filter((entry): entry is [TemplateId, string] => typeof entry[1] === 'string')
+        .map(([templateId, content]) => this.validateTemplate(templateId, content))
+        .filter((error): error is TemplateValidationError => error !== null);
+
+      if (errors.length > 0) {
+        return { success: false, errors };
+      }
+
+      const config = await this.getAutomationConfig(establishmentId);
+      if (!config) {
+        return { success: false, error: 'Configuração do estabelecimento não encontrada' };
+      }
+
+      // null remove o texto próprio e volta ao padrão
+      const messageTemplates: Record<string, string | undefined> = { ...config.message_templates };
+      for (const [templateId, content] of Object.entries(overrides) as Array<[TemplateId, string | null | undefined]>) {
+        const key = TEMPLATE_CONFIG_KEYS[templateId];
+        if (content === null) {
+          delete messageTemplates[key];
+        } else if (content !== undefined) {
+          messageTemplates[key] = content;
+        }
+      }
+
+      const { error } = await supabase
+        .from('uazapi_configurations')
+        .update({
+          message_templates: messageTemplates,
+          updated_at: new Date().toISOString()
+        })
+        .eq('establishment_id', establishmentId);
+
+      if (error) {
+        logger.error('Erro ao salvar templates do estabelecimento:', error);
+        return { success: false, error: 'Erro interno ao salvar templates' };
+      }
+
+      return { success: true };
+
+    } catch (error) {
+      logger.error('Erro ao salvar templates do estabelecimento:', error);
+      return { success: false, error: 'Erro interno' };
+    }
+  }
+
   /**
    * Agenda mensagem automática
    */
   async scheduleMessage(
     clientPhone: string,
-    templateId: string,
+    templateId: TemplateId,
     scheduledFor: Date,
     variables: Record<string, string> = {},
     appointmentId?: string,
     establishmentId?: string
-  ): Promise<{ success: boolean; error?: string }> {
+  ): Promise<{ success: boolean; skipped?: boolean; error?: string }> {
     try {
-      const template = this.messageTemplates.find(t => t.id === templateId);
+      // Mensagens agendadas sempre pertencem a um estabelecimento
+      const targetEstablishmentId = establishmentId || tenantContext.getTenant()?.establishmentId;
+      if (!targetEstablishmentId) {
+        return {
+          success: false,
+          error: 'Estabelecimento não informado'
+        };
+      }
+
+      const template = await this.resolveTemplate(templateId, targetEstablishmentId);
       if (!template) {
         return {
           success: false,
@@ -75,12 +250,17 @@ class AutomaticMessageService {
         };
       }
 
-      // Substituir variáveis no template
-      let messageContent = template.content;
-      for (const [key, value] of Object.entries(variables)) {
-        messageContent = messageContent.replace(new RegExp(`{${key}}`, 'g'), value);
+      if (!template.enabled) {
+        logger.info('Automação desativada pelo estabelecimento, mensagem não agendada:', {
+          templateId,
+          establishmentId: targetEstablishmentId
+        });
+        return { success: true, skipped: true };
       }
 
+      // Substituir variáveis no template
+      const messageContent = this.renderTemplate(template.content, variables);
+
       // Salvar mensagem agendada
       const { data, error } = await supabase
         .from('scheduled_messages')
@@ -90,7 +270,8 @@ class AutomaticMessageService {
           scheduled_for: scheduledFor.toISOString(),
           status: 'pending',
           appointment_id: appointmentId,
-          establishment_id: establishmentId
+          establishment_id: targetEstablishmentId,
+          template_id: templateId
         })
         .select('*')
         .single();
@@ -147,6 +328,11 @@ class AutomaticMessageService {
 
       // Processar cada mensagem
       for (const message of pendingMessages) {
+        // Horário de silêncio do estabelecimento: a mensagem continua pendente para a próxima rodada
+        if (!(await businessHoursService.isContactAllowed(message.establishment_id, now))) {
+          continue;
+        }
+
         await this.sendScheduledMessage(message);
         
         // Aguardar um pouco entre envios para evitar spam
@@ -163,10 +349,25 @@ class AutomaticMessageService {
    */
   private async sendScheduledMessage(message: ScheduledMessage): Promise<void> {
     try {
+      // A automação pode ter sido desligada depois do agendamento
+      if (message.template_id) {
+        const template = await this.resolveTemplate(message.template_id, message.establishment_id);
+        if (template && !template.enabled) {
+          await supabase
+            .from('scheduled_messages')
+            .update({ status: 'skipped' })
+            .eq('id', message.id);
+
+          logger.info('Automação desativada, mensagem agendada descartada:', { messageId: message.id });
+          return;
+        }
+      }
+
       // Tentar enviar mensagem
-      const result = await messageService.sendTextMessage({
-        phone: message.client_phone,
-        message: message.message_content
+      const result = await outboundGateway.sendText({
+        to: message.client_phone,
+        message: message.message_content,
+        instance: { establishmentId: message.establishment_id }
       });
       const success = result.success;
       
@@ -177,7 +378,9 @@ class AutomaticMessageService {
         .from('scheduled_messages')
         .update({ 
           status: newStatus,
-          sent_at: success ? new Date().toISOString() : null
+          sent_at: success ? new Date().toISOString() : null,
+          // Guardar o id do WhatsApp para reconhecer reações e replies ao lembrete
+          external_message_id: result.messageId || null
         })
         .eq('id', message.id);
 
@@ -202,6 +405,62 @@ class AutomaticMessageService {
     }
   }
 
+  /**
+   * Trata a reação do cliente a uma mensagem automática (👍 em um lembrete confirma o agendamento)
+   */
+  async handleReminderReaction(
+    establishmentId: string,
+    emoji: string,
+    targetMessageId: string
+  ): Promise<{ confirmedAppointmentId?: string }> {
+    try {
+      // Remover modificadores de tom de pele (👍🏽 -> 👍)
+      const baseEmoji = emoji.replace(/[\u{1F3FB}-\u{1F3FF}]/gu, '');
+      if (!CONFIRMATION_REACTIONS.includes(baseEmoji)) {
+        return {};
+      }
+
+      const { data: reminder, error } = await supabase
+        .from('scheduled_messages')
+        .select('id, appointment_id, appointments(status)')
+        .eq('establishment_id', establishmentId)
+        .eq('external_message_id', targetMessageId)
+        .single();
+
+      if (error && error.code !== 'PGRST116') { // PGRST116 = no rows returned
+        logger.error('Erro ao buscar mensagem agendada da reação:', error);
+        return {};
+      }
+
+      if (!reminder?.appointment_id) {
+        return {};
+      }
+
+      // Só confirmar agendamentos que ainda aguardam confirmação
+      const appointment = reminder.appointments as { status?: string } | { status?: string }[] | null;
+      const status = Array.isArray(appointment) ? appointment[0]?.status : appointment?.status;
+      if (status !== 'scheduled' && status !== 'pending') {
+        return {};
+      }
+
+      const result = await appointmentService.updateAppointmentStatus(reminder.appointment_id, 'confirmed');
+      if (!result.success) {
+        return {};
+      }
+
+      logger.info('Agendamento confirmado por reação ao lembrete:', {
+        appointmentId: reminder.appointment_id,
+        emoji
+      });
+
+      return { confirmedAppointmentId: reminder.appointment_id };
+
+    } catch (error) {
+      logger.error('Erro ao tratar reação ao lembrete:', error);
+      return {};
+    }
+  }
+
   /**
    * Agenda lembretes para agendamentos
    */
@@ -230,27 +489,32 @@ class AutomaticMessageService {
       }
 
       const appointmentDate = parseISO(`${appointment.appointment_date}T${appointment.appointment_time}`);
-      const reminderDate = subDays(appointmentDate, 1); // 24h antes
-
-      // Só agendar se a data do lembrete for no futuro
-      if (isAfter(reminderDate, new Date())) {
-        const variables = {
-          client_name: appointment.clients.name,
-          date: appointmentService.formatDateForDisplay(appointment.appointment_date),
-          time: appointmentService.formatTimeForDisplay(appointment.appointment_time),
-          professional_name: appointment.professionals.name,
-          service_name: appointment.services.name,
-          price: appointment.services.price.toFixed(2)
-        };
+      const variables = {
+        client_name: appointment.clients.name,
+        date: appointmentService.formatDateForDisplay(appointment.appointment_date),
+        time: appointmentService.formatTimeForDisplay(appointment.appointment_time),
+        professional_name: appointment.professionals.name,
+        service_name: appointment.services.name,
+        price: appointment.services.price.toFixed(2)
+      };
 
-        await this.scheduleMessage(
-          appointment.clients.phone,
-          'reminder_24h',
-          reminderDate,
-          variables,
-          appointmentId,
-          establishmentId
-        );
+      const reminders: Array<{ templateId: TemplateId; sendAt: Date }> = [
+        { templateId: 'reminder_24h', sendAt: subDays(appointmentDate, 1) },
+        { templateId: 'reminder_1h', sendAt: subHours(appointmentDate, 1) }
+      ];
+
+      for (const reminder of reminders) {
+        // Só agendar se a data do lembrete for no futuro
+        if (isAfter(reminder.sendAt, new Date())) {
+          await this.scheduleMessage(
+            appointment.clients.phone,
+            reminder.templateId,
+            reminder.sendAt,
+            variables,
+            appointmentId,
+            establishmentId
+          );
+        }
       }
 
       return { success: true };
@@ -299,7 +563,7 @@ class AutomaticMessageService {
         price: appointment.services.price.toFixed(2)
       };
 
-      const template = this.messageTemplates.find(t => t.id === 'confirmation');
+      const template = await this.resolveTemplate('confirmation', appointment.establishment_id);
       if (!template) {
         return {
           success: false,
@@ -307,15 +571,18 @@ class AutomaticMessageService {
         };
       }
 
-      let messageContent = template.content;
-      for (const [key, value] of Object.entries(variables)) {
-        messageContent = messageContent.replace(new RegExp(`{${key}}`, 'g'), value);
+      if (!template.enabled) {
+        logger.info('Confirmação automática desativada pelo estabelecimento:', { appointmentId });
+        return { success: true };
       }
 
+      const messageContent = this.renderTemplate(template.content, variables);
+
       // Enviar mensagem imediatamente
-      const result = await messageService.sendTextMessage({
-        phone: appointment.clients.phone,
-        message: messageContent
+      const result = await outboundGateway.sendText({
+        to: appointment.clients.phone,
+        message: messageContent,
+        instance: { establishmentId: appointment.establishment_id }
       });
       const success = result.success;
       
@@ -343,7 +610,8 @@ class AutomaticMessageService {
    */
   async sendWelcomeMessage(clientPhone: string): Promise<{ success: boolean; error?: string }> {
     try {
-      const template = this.messageTemplates.find(t => t.id === 'welcome');
+      const tenant = tenantContext.requireTenant();
+      const template = await this.resolveTemplate('welcome', tenant.establishmentId);
       if (!template) {
         return {
           success: false,
@@ -351,8 +619,13 @@ class AutomaticMessageService {
         };
       }
 
-      const result = await messageService.sendTextMessage({
-        phone: clientPhone,
+      if (!template.enabled) {
+        return { success: true };
+      }
+
+      // Enviada pela instância do estabelecimento da conversa atual
+      const result = await outboundGateway.sendText({
+        to: clientPhone,
         message: template.content
       });
       const success = result.success;
@@ -432,6 +705,100 @@ class AutomaticMessageService {
     }
   }
 
+  /**
+   * Cancela lembretes e follow-up ainda pendentes de um agendamento cancelado
+   */
+  async cancelAppointmentMessages(appointmentId: string): Promise<{ success: boolean; error?: string }> {
+    try {
+      const { data, error } = await supabase
+        .from('scheduled_messages')
+        .update({ status: 'cancelled' })
+        .eq('appointment_id', appointmentId)
+        .eq('status', 'pending')
+        .select('id');
+
+      if (error) {
+        logger.error('Erro ao cancelar mensagens do agendamento:', error);
+        return { success: false, error: 'Erro interno' };
+      }
+
+      logger.info('Mensagens do agendamento cancelado descartadas:', {
+        appointmentId,
+        cancelled: data?.length || 0
+      });
+
+      return { success: true };
+
+    } catch (error) {
+      logger.error('Erro ao cancelar mensagens do agendamento:', error);
+      return {
+        success: false,
+        error: 'Erro interno'
+      };
+    }
+  }
+
+  /**
+   * Reprograma lembretes e follow-up de um agendamento remarcado: os pendentes são cancelados
+   * e os já planejados para ele são agendados de novo pelo novo horário
+   */
+  async replanAppointmentMessages(
+    appointmentId: string,
+    establishmentId: string
+  ): Promise<{ success: boolean; error?: string }> {
+    try {
+      const { data: planned, error } = await supabase
+        .from('scheduled_messages')
+        .select('id, template_id, status')
+        .eq('appointment_id', appointmentId)
+        .in('template_id', ['reminder_24h', 'reminder_1h', 'follow_up'])
+        .neq('status', 'cancelled');
+
+      if (error) {
+        logger.error('Erro ao buscar mensagens do agendamento:', error);
+        return { success: false, error: 'Erro interno' };
+      }
+
+      const messages = planned || [];
+      const pendingIds = messages.filter(message => message.status === 'pending').map(message => message.id);
+
+      if (pendingIds.length > 0) {
+        const { error: cancelError } = await supabase
+          .from('scheduled_messages')
+          .update({ status: 'cancelled' })
+          .in('id', pendingIds)
+          .eq('status', 'pending');
+
+        if (cancelError) {
+          logger.error('Erro ao cancelar mensagens do horário anterior:', cancelError);
+          return { success: false, error: 'Erro interno' };
+        }
+      }
+
+      // Lembretes só existem para agendamentos confirmados; o follow-up, para todos os criados
+      if (messages.some(message => message.template_id !== 'follow_up')) {
+        await this.scheduleAppointmentReminders(appointmentId, establishmentId);
+      }
+      if (messages.some(message => message.template_id === 'follow_up')) {
+        await this.scheduleFollowUp(appointmentId, establishmentId);
+      }
+
+      logger.info('Mensagens do agendamento reprogramadas:', {
+        appointmentId,
+        cancelled: pendingIds.length
+      });
+
+      return { success: true };
+
+    } catch (error) {
+      logger.error('Erro ao reprogramar mensagens do agendamento:', error);
+      return {
+        success: false,
+        error: 'Erro interno'
+      };
+    }
+  }
+
   /**
    * Inicia processamento automático de mensagens
    */
@@ -450,6 +817,17 @@ class AutomaticMessageService {
   getAvailableTemplates(): MessageTemplate[] {
     return this.messageTemplates;
   }
+
+  /**
+   * Obtém os templates como o estabelecimento os vê (texto efetivo e toggle)
+   */
+  async getEstablishmentTemplates(establishmentId: string): Promise<ResolvedTemplate[]> {
+    const templates = await Promise.all(
+      this.messageTemplates.map(template => this.resolveTemplate(template.id, establishmentId))
+    );
+
+    return templates.filter((template): template is ResolvedTemplate => template !== null);
+  }
 }
 
 export const automaticMessageService = new AutomaticMessageService();
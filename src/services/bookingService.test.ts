@@ -0,0 +1,83 @@
+import { bookingService } from './bookingService';
+
+// Segunda-feira
+const TODAY = '2026-10-19';
+
+describe('bookingService.extractDate', () => {
+  it('entende hoje, amanhã e depois de amanhã', () => {
+    expect(bookingService.extractDate('pode ser hoje', TODAY)).toBe('2026-10-19');
+    expect(bookingService.extractDate('Amanhã de manhã', TODAY)).toBe('2026-10-20');
+    expect(bookingService.extractDate('depois de amanhã', TODAY)).toBe('2026-10-21');
+  });
+
+  it('usa a próxima ocorrência do dia da semana, contando hoje', () => {
+    expect(bookingService.extractDate('na sexta', TODAY)).toBe('2026-10-23');
+    expect(bookingService.extractDate('sábado', TODAY)).toBe('2026-10-24');
+    expect(bookingService.extractDate('terça-feira', TODAY)).toBe('2026-10-20');
+    expect(bookingService.extractDate('segunda', TODAY)).toBe('2026-10-19');
+    expect(bookingService.extractDate('domingo', TODAY)).toBe('2026-10-25');
+  });
+
+  it('lê datas dd/mm, passando para o ano seguinte quando a data já passou', () => {
+    expect(bookingService.extractDate('dia 25/12', TODAY)).toBe('2026-12-25');
+    expect(bookingService.extractDate('5/1', TODAY)).toBe('2027-01-05');
+    expect(bookingService.extractDate('19/10', TODAY)).toBe('2026-10-19');
+  });
+
+  it('respeita o ano informado', () => {
+    expect(bookingService.extractDate('10/03/2027', TODAY)).toBe('2027-03-10');
+    expect(bookingService.extractDate('10/03/27', TODAY)).toBe('2027-03-10');
+  });
+
+  it('rejeita dias que não existem no mês', () => {
+    expect(bookingService.extractDate('31/02', TODAY)).toBeUndefined();
+    expect(bookingService.extractDate('31/11', TODAY)).toBeUndefined();
+    expect(bookingService.extractDate('29/02', TODAY)).toBeUndefined();
+    expect(bookingService.extractDate('32/01', TODAY)).toBeUndefined();
+    expect(bookingService.extractDate('10/13', TODAY)).toBeUndefined();
+  });
+
+  it('aceita 29/02 quando o ano seguinte é bissexto', () => {
+    expect(bookingService.extractDate('29/02', '2027-10-19')).toBe('2028-02-29');
+  });
+
+  it('não inventa uma data quando o texto não tem nenhuma', () => {
+    expect(bookingService.extractDate('quero marcar um corte', TODAY)).toBeUndefined();
+  });
+});
+
+describe('bookingService.extractTime', () => {
+  it('aceita "14h", "14h30", "14:30" e horas com um dígito', () => {
+    expect(bookingService.extractTime('às 14h')).toBe('14:00');
+    expect(bookingService.extractTime('14h30')).toBe('14:30');
+    expect(bookingService.extractTime('14:30')).toBe('14:30');
+    expect(bookingService.extractTime('9h')).toBe('09:00');
+    expect(bookingService.extractTime('amanhã 9:15')).toBe('09:15');
+  });
+
+  it('ignora textos sem horário válido', () => {
+    expect(bookingService.extractTime('de manhã')).toBeUndefined();
+    expect(bookingService.extractTime('25h')).toBeUndefined();
+    expect(bookingService.extractTime('dia 25/12')).toBeUndefined();
+  });
+});
+
+describe('bookingService.readConfirmation', () => {
+  it('reconhece respostas afirmativas, com pontuação e emojis', () => {
+    for (const text of ['sim', 'Sim!', 's', 'ok 👍', 'Pode ser, obrigado', 'confirmo', 'isso mesmo']) {
+      expect(bookingService.readConfirmation(text)).toBe(true);
+    }
+  });
+
+  it('reconhece respostas negativas', () => {
+    for (const text of ['não', 'Não!', 'n', 'não, obrigada', 'nao nao']) {
+      expect(bookingService.readConfirmation(text)).toBe(false);
+    }
+  });
+
+  it('não decide quando a resposta traz mais conteúdo ou é uma pergunta', () => {
+    for (const text of ['ok, mas prefiro outro dia', 'pode ser amanhã?', 'sim?', 'não sei', 'sim, às 15h', 'qual o valor']) {
+      expect(bookingService.readConfirmation(text)).toBeUndefined();
+    }
+  });
+});
@@ -0,0 +1,947 @@
+import { format, isValid, parse } from 'date-fns';
+import { supabase } from '../config/supabase';
+import { logger } from '../utils/logger';
+import { appointmentService, AvailableSlot } from './appointmentService';
+import { businessHoursService } from './businessHoursService';
+import { contextService } from './contextService';
+import { waitlistService } from './waitlistService';
+import { HandlerReply, DialogSlotRef, DialogAppointmentRef } from '../types/dialogs';
+
+// Rascunho do agendamento guardado em context_data.booking entre as mensagens do cliente
+export interface BookingDraft {
+  service_id?: string | undefined;
+  service_name?: string | undefined;
+  // 'any' = qualquer profissional com o horário livre
+  professional_id?: string | undefined;
+  professional_name?: string | undefined;
+  // Profissional escolhido pelo sistema quando o cliente aceita qualquer um
+  assigned_professional_id?: string | undefined;
+  assigned_professional_name?: string | undefined;
+  date?: string | undefined;
+  time?: string | undefined;
+  awaiting_confirmation?: boolean | undefined;
+  // Dia sem horários livres, oferecido para a lista de espera na mensagem anterior
+  waitlist_date?: string | undefined;
+  updated_at: string;
+}
+
+// Remarcação em andamento, guardada em context_data.reschedule
+export interface RescheduleDraft {
+  // Agendamentos listados quando o cliente tem mais de um
+  candidates?: DialogAppointmentRef[] | undefined;
+  appointment_id?: string | undefined;
+  service_id?: string | undefined;
+  service_name?: string | undefined;
+  professional_id?: string | undefined;
+  professional_name?: string | undefined;
+  current_date?: string | undefined;
+  current_time?: string | undefined;
+  date?: string | undefined;
+  time?: string | undefined;
+  awaiting_confirmation?: boolean | undefined;
+  updated_at: string;
+}
+
+// Mensagem atual do cliente dentro do diálogo de agendamento
+export interface BookingTurn {
+  establishmentId: string;
+  clientPhone: string;
+  clientName?: string | undefined;
+  text: string;
+}
+
+interface ServiceOption {
+  id: string;
+  name: string;
+  price: number;
+  commission_percentage: number | null;
+}
+
+interface ProfessionalOption {
+  id: string;
+  name: string;
+}
+
+type BookingStep = 'service' | 'professional' | 'date' | 'time' | 'confirm';
+
+// Rascunhos parados há mais tempo que isso são descartados
+const DRAFT_TTL_MS = 30 * 60 * 1000;
+
+// Horários exibidos por vez ao pedir o horário
+const MAX_OFFERED_TIMES = 8;
+
+const WEEKDAYS = ['domingo', 'segunda', 'terca', 'quarta', 'quinta', 'sexta', 'sabado'];
+
+const BOOKING_REQUEST = /\b(agendar|marcar|reservar|novo agendamento)\b/;
+const ANY_PROFESSIONAL = /\b(qualquer|tanto faz|sem preferencia|quem estiver)\b/;
+// "Sim" e "não" valem só como a mensagem inteira (com cortesias como "por favor"); "ok, mas prefiro
+// outro dia" ou "pode ser amanhã?" seguem como resposta comum
+const YES = /^(sim|s|confirmo|confirmar|confirma|pode|pode ser|ok|isso|certo|fechado)( (sim|pode|pode ser|isso|mesmo|confirmo|certo|por favor|obrigad[oa]))*$/;
+const NO = /^(nao|n)( (nao|obrigad[oa]))*$/;
+const ABORT = /\b(desistir|desisto|deixa pra la|esquece|cancelar|cancela)\b/;
+const WAITLIST = /\b(lista de espera|me avis[ae])\b/;
+
+// Função para normalizar o texto (minúsculas, sem acentos e espaços extras)
+const normalize = (text: string): string => {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .trim();
+};
+
+// Função para extrair um horário (HH:MM), aceitando formatos como "14h", "14h30" e "14:30"
+const extractTime = (text: string): string | undefined => {
+  const match = text.match(/\b([01]?\d|2[0-3])\s*(?:h|:)\s*([0-5]\d)?\b/i);
+  if (!match) {
+    return undefined;
+  }
+
+  return `${match[1]!.padStart(2, '0')}:${match[2] || '00'}`;
+};
+
+// Função para extrair uma data (yyyy-MM-dd): "hoje", "amanhã", dia da semana ou dd/mm[/aaaa]
+const extractDate = (text: string, today: string): string | undefined => {
+  const normalized = normalize(text);
+
+  if (/\bdepois de amanha\b/.test(normalized)) {
+    return businessHoursService.addDaysToDate(today, 2);
+  }
+  if (/\bamanha\b/.test(normalized)) {
+    return businessHoursService.addDaysToDate(today, 1);
+  }
+  if (/\bhoje\b/.test(normalized)) {
+    return today;
+  }
+
+  const numeric = normalized.match(/\b(\d{1,2})\/(\d{1,2})(?:\/(\d{2}|\d{4}))?\b/);
+  if (numeric) {
+    const day = Number(numeric[1]);
+    const month = Number(numeric[2]);
+    if (day < 1 || day > 31 || month < 1 || month > 12) {
+      return undefined;
+    }
+
+    const currentYear = Number(today.slice(0, 4));
+    let year = numeric[3] ? Number(numeric[3].length === 2 ? `20${numeric[3]}` : numeric[3]) : currentYear;
+    let date = `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+
+    // Sem ano informado, uma data que já passou é a do ano seguinte
+    if (!numeric[3] && date < today) {
+      year++;
+      date = `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+    }
+
+    // Dia que não existe no mês (ex.: 31/02, ou 29/02 fora de ano bissexto) não vira outra data
+    const parsed = parse(date, 'yyyy-MM-dd', new Date());
+    return isValid(parsed) && format(parsed, 'yyyy-MM-dd') === date ? date : undefined;
+  }
+
+  const weekday = WEEKDAYS.findIndex(name => new RegExp(`\\b${name}\\b`).test(normalized));
+  if (weekday >= 0) {
+    const offset = (weekday - businessHoursService.weekdayOf(today) + 7) % 7;
+    return businessHoursService.addDaysToDate(today, offset);
+  }
+
+  return undefined;
+};
+
+// Função para escolher uma opção pelo número da lista ou pelo nome citado no texto
+const matchOption = <T extends { name: string }>(
+  options: T[],
+  text: string,
+  allowNumber: boolean
+): T | undefined => {
+  const normalized = normalize(text);
+
+  if (allowNumber && /^\d{1,2}$/.test(normalized)) {
+    return options[Number(normalized) - 1];
+  }
+
+  // Nome completo citado; na falta, o primeiro nome (ex.: "com a Ana")
+  const byFullName = options.filter(option => normalized.includes(normalize(option.name)));
+  if (byFullName.length > 0) {
+    return byFullName.sort((a, b) => b.name.length - a.name.length)[0];
+  }
+
+  const byFirstName = options.filter(option => {
+    const firstName = (normalize(option.name).split(/\s+/)[0] || '').replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return firstName.length >= 3 && new RegExp(`\\b${firstName}\\b`).test(normalized);
+  });
+
+  return byFirstName.length === 1 ? byFirstName[0] : undefined;
+};
+
+// Função para verificar se o rascunho (agendamento ou remarcação) ainda vale
+const isActive = <T extends { updated_at: string }>(draft: T | null | undefined): draft is T => {
+  return Boolean(draft?.updated_at) && Date.now() - new Date(draft!.updated_at).getTime() < DRAFT_TTL_MS;
+};
+
+// Função para identificar um pedido explícito de agendamento
+const isBookingRequest = (text: string): boolean => {
+  return BOOKING_REQUEST.test(normalize(text));
+};
+
+// Função para ler um "sim" ou "não" (undefined quando a mensagem não é nenhum dos dois, ou é uma pergunta)
+const readConfirmation = (text: string): boolean | undefined => {
+  const normalized = normalize(text);
+  if (normalized.includes('?')) {
+    return undefined;
+  }
+
+  // Pontuação e emojis não contam ("Sim!", "ok 👍", "não, obrigado")
+  const words = normalized.replace(/[^a-z0-9\s]/g, ' ').replace(/\s+/g, ' ').trim();
+  if (YES.test(words)) {
+    return true;
+  }
+  return NO.test(words) ? false : undefined;
+};
+
+// Função para identificar a próxima informação que falta
+const nextStep = (draft: BookingDraft): BookingStep => {
+  if (!draft.service_id) {
+    return 'service';
+  }
+  if (!draft.professional_id) {
+    return 'professional';
+  }
+  if (!draft.date) {
+    return 'date';
+  }
+  if (!draft.time || !draft.awaiting_confirmation) {
+    return 'time';
+  }
+  return 'confirm';
+};
+
+// Função para salvar (ou descartar, com null) o rascunho no contexto da conversa
+const saveDraft = async (turn: BookingTurn, draft: BookingDraft | null): Promise<void> => {
+  await contextService.updateContext(turn.establishmentId, turn.clientPhone, {
+    booking: draft ? { ...draft, updated_at: new Date().toISOString() } : null
+  });
+};
+
+// Função para buscar os serviços do estabelecimento
+const loadServices = async (establishmentId: string): Promise<ServiceOption[]> => {
+  const { data, error } = await supabase
+    .from('services')
+    .select('id, name, price, commission_percentage')
+    .eq('establishment_id', establishmentId)
+    .order('name', { ascending: true });
+
+  if (error) {
+    logger.error('Erro ao buscar serviços para agendamento:', error);
+    throw error;
+  }
+
+  return (data || []) as ServiceOption[];
+};
+
+// Função para buscar os profissionais ativos do estabelecimento
+const loadProfessionals = async (establishmentId: string): Promise<ProfessionalOption[]> => {
+  const { data, error } = await supabase
+    .from('professionals')
+    .select('id, name')
+    .eq('establishment_id', establishmentId)
+    .eq('active', true)
+    .order('name', { ascending: true });
+
+  if (error) {
+    logger.error('Erro ao buscar profissionais para agendamento:', error);
+    throw error;
+  }
+
+  return (data || []) as ProfessionalOption[];
+};
+
+// Função para buscar o cliente pelo telefone ou cadastrá-lo
+const findOrCreateClient = async (
+  establishmentId: string,
+  phone: string,
+  name?: string
+): Promise<string> => {
+  const findClient = async () => {
+    const { data, error } = await supabase
+      .from('clients')
+      .select('id')
+      .eq('establishment_id', establishmentId)
+      .eq('phone', phone)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    return data?.id as string | undefined;
+  };
+
+  const existing = await findClient();
+  if (existing) {
+    return existing;
+  }
+
+  const { data, error } = await supabase
+    .from('clients')
+    .insert({
+      establishment_id: establishmentId,
+      phone,
+      name: name || phone
+    })
+    .select('id')
+    .single();
+
+  if (error) {
+    // 23505 = cliente cadastrado por outra mensagem ao mesmo tempo
+    if (error.code === '23505') {
+      const concurrent = await findClient();
+      if (concurrent) {
+        return concurrent;
+      }
+    }
+    throw error;
+  }
+
+  logger.info('Cliente cadastrado pelo agendamento via WhatsApp:', { establishmentId, phone });
+  return data.id as string;
+};
+
+// Função para aplicar ao rascunho as informações encontradas na mensagem
+const applyAnswer = (
+  draft: BookingDraft,
+  text: string,
+  step: BookingStep,
+  services: ServiceOption[],
+  professionals: ProfessionalOption[]
+): boolean => {
+  const normalized = normalize(text);
+  let changed = false;
+
+  const service = matchOption(services, text, step === 'service');
+  if (service && service.id !== draft.service_id) {
+    draft.service_id = service.id;
+    draft.service_name = service.name;
+    changed = true;
+  }
+
+  const professional = matchOption(professionals, text, step === 'professional');
+  if (professional && professional.id !== draft.professional_id) {
+    draft.professional_id = professional.id;
+    draft.professional_name = professional.name;
+    changed = true;
+  } else if (!professional && ANY_PROFESSIONAL.test(normalized) && draft.professional_id !== 'any') {
+    draft.professional_id = 'any';
+    draft.professional_name = undefined;
+    changed = true;
+  }
+
+  const date = extractDate(text, businessHoursService.toLocal().date);
+  if (date && date !== draft.date) {
+    draft.date = date;
+    changed = true;
+  }
+
+  // No passo do horário, um número sozinho é a hora cheia ("14")
+  const time = extractTime(text) || (step === 'time' && /^\d{1,2}$/.test(normalized)
+    ? `${normalized.padStart(2, '0')}:00`
+    : undefined);
+  if (time && !draft.time?.startsWith(time)) {
+    draft.time = time;
+    changed = true;
+  }
+
+  return changed;
+};
+
+// Função para montar a lista de horários livres (um por horário, no máximo MAX_OFFERED_TIMES)
+const offerTimes = (slots: AvailableSlot[]): { text: string; offered: DialogSlotRef[] } => {
+  const offered: DialogSlotRef[] = [];
+  for (const slot of slots) {
+    if (offered.length >= MAX_OFFERED_TIMES) {
+      break;
+    }
+    if (!offered.some(item => item.time === slot.time)) {
+      offered.push({
+        date: slot.date,
+        time: slot.time,
+        professional_id: slot.professional_id,
+        professional_name: slot.professional_name
+      });
+    }
+  }
+
+  return {
+    text: offered.map(slot => appointmentService.formatTimeForDisplay(slot.time)).join(', '),
+    offered
+  };
+};
+
+// Função para montar o resumo apresentado antes de confirmar
+const buildSummary = (draft: BookingDraft, service: ServiceOption): string => {
+  const date = appointmentService.formatDateForDisplay(draft.date!);
+  const time = appointmentService.formatTimeForDisplay(draft.time!);
+  const professionalName = draft.professional_id === 'any'
+    ? draft.assigned_professional_name
+    : draft.professional_name;
+
+  return '📝 *Confira seu agendamento:*\n\n' +
+    `💼 ${service.name}\n` +
+    `👨‍💼 ${professionalName}\n` +
+    `📅 ${date} às ${time}\n` +
+    `💰 R$ ${Number(service.price).toFixed(2)}\n\n` +
+    'Posso confirmar? Responda *sim* para agendar ou *não* para desistir.';
+};
+
+// Função para pedir a próxima informação ou, com tudo preenchido e validado, o resumo
+const advance = async (
+  turn: BookingTurn,
+  draft: BookingDraft,
+  services: ServiceOption[],
+  professionals: ProfessionalOption[],
+  prefix: string = ''
+): Promise<HandlerReply> => {
+  if (services.length === 0 || professionals.length === 0) {
+    await saveDraft(turn, null);
+    return { message: 'No momento não é possível agendar pelo WhatsApp. Entre em contato com o estabelecimento.' };
+  }
+
+  const service = services.find(item => item.id === draft.service_id);
+  if (!service) {
+    draft.service_id = undefined;
+    draft.service_name = undefined;
+    await saveDraft(turn, draft);
+
+    const list = services
+      .map((item, index) => `${index + 1}. ${item.name} - R$ ${Number(item.price).toFixed(2)}`)
+      .join('\n');
+    return { message: `${prefix}💼 *Qual serviço você deseja?*\n\n${list}\n\nResponda com o número ou o nome do serviço.` };
+  }
+
+  if (!draft.professional_id) {
+    await saveDraft(turn, draft);
+
+    const list = professionals.map((item, index) => `${index + 1}. ${item.name}`).join('\n');
+    return { message: `${prefix}👨‍💼 *Com qual profissional?*\n\n${list}\n\nResponda com o número, o nome ou *qualquer um*.` };
+  }
+
+  if (!draft.date) {
+    await saveDraft(turn, draft);
+    return { message: `${prefix}📅 *Para qual dia?*\n\nPode ser *hoje*, *amanhã*, um dia da semana ou uma data (ex.: 25/10).` };
+  }
+
+  const professionalId = draft.professional_id === 'any' ? undefined : draft.professional_id;
+  // Só horários em que o serviço escolhido cabe inteiro
+  const slots = await appointmentService.getAvailableSlots(turn.establishmentId, draft.date, professionalId, service.id);
+  const dateLabel = appointmentService.formatDateForDisplay(draft.date);
+  const withProfessional = draft.professional_name ? ` com ${draft.professional_name}` : '';
+
+  if (slots.length === 0) {
+    draft.waitlist_date = draft.date;
+    draft.date = undefined;
+    draft.time = undefined;
+    draft.awaiting_confirmation = undefined;
+    await saveDraft(turn, draft);
+    return {
+      message: `${prefix}Não há horários disponíveis em ${dateLabel}${withProfessional}. Qual outro dia fica bom para você?\n\n` +
+        'Se preferir esperar, responda *lista de espera* (ou *lista de espera até 30/10*) e te aviso se abrir um horário.'
+    };
+  }
+
+  const selected = draft.time ? slots.find(slot => slot.time.startsWith(draft.time!)) : undefined;
+
+  if (!selected) {
+    const requested = draft.time;
+    draft.time = undefined;
+    draft.awaiting_confirmation = undefined;
+    await saveDraft(turn, draft);
+
+    const { text, offered } = offerTimes(slots);
+    const intro = requested
+      ? `O horário ${requested} não está disponível em ${dateLabel}${withProfessional}.`
+      : `⏰ *Horários disponíveis em ${dateLabel}${withProfessional}:*`;
+
+    return {
+      message: `${prefix}${intro}\n\n${requested ? 'Horários livres: ' : ''}${text}\n\nQual horário você prefere?`,
+      dialog: { kind: 'slot_offer', slots: offered }
+    };
+  }
+
+  draft.time = selected.time;
+  if (draft.professional_id === 'any') {
+    draft.assigned_professional_id = selected.professional_id;
+    draft.assigned_professional_name = selected.professional_name;
+  }
+  draft.awaiting_confirmation = true;
+  await saveDraft(turn, draft);
+
+  return { message: `${prefix}${buildSummary(draft, service)}` };
+};
+
+// Função para criar o agendamento confirmado pelo cliente
+const book = async (
+  turn: BookingTurn,
+  draft: BookingDraft,
+  services: ServiceOption[],
+  professionals: ProfessionalOption[]
+): Promise<HandlerReply> => {
+  const service = services.find(item => item.id === draft.service_id);
+  const professionalId = draft.professional_id === 'any'
+    ? draft.assigned_professional_id
+    : draft.professional_id;
+
+  if (!service || !professionalId || !draft.date || !draft.time) {
+    draft.awaiting_confirmation = undefined;
+    return advance(turn, draft, services, professionals);
+  }
+
+  const clientId = await findOrCreateClient(turn.establishmentId, turn.clientPhone, turn.clientName);
+  const price = Number(service.price);
+
+  const result = await appointmentService.createAppointment({
+    establishment_id: turn.establishmentId,
+    professional_id: professionalId,
+    client_id: clientId,
+    service_id: service.id,
+    appointment_date: draft.date,
+    appointment_time: draft.time,
+    total_price: price,
+    commission_value: Math.round(price * (service.commission_percentage || 0)) / 100
+  });
+
+  if (!result.success) {
+    if (result.error === 'Horário não disponível para agendamento') {
+      // Ocupado entre o resumo e a confirmação: oferecer os horários que restaram
+      draft.time = undefined;
+      draft.awaiting_confirmation = undefined;
+      return advance(turn, draft, services, professionals, 'Esse horário acabou de ser ocupado. 😕\n\n');
+    }
+
+    logger.error('Falha ao criar agendamento pelo WhatsApp:', {
+      establishmentId: turn.establishmentId,
+      clientPhone: turn.clientPhone,
+      error: result.error
+    });
+    return { message: 'Não consegui concluir seu agendamento agora. Responda *sim* para tentar novamente.' };
+  }
+
+  await saveDraft(turn, null);
+
+  logger.info('Agendamento criado pelo WhatsApp:', {
+    establishmentId: turn.establishmentId,
+    appointmentId: result.data?.id
+  });
+
+  const professionalName = draft.professional_id === 'any'
+    ? draft.assigned_professional_name
+    : draft.professional_name;
+
+  return {
+    message: '✅ *Agendamento realizado!*\n\n' +
+      `💼 ${service.name}\n` +
+      `👨‍💼 ${professionalName}\n` +
+      `📅 ${appointmentService.formatDateForDisplay(draft.date)} às ${appointmentService.formatTimeForDisplay(draft.time)}\n\n` +
+      'Até lá! 😊'
+  };
+};
+
+// Função para colocar o cliente na lista de espera do dia sem horários (ou até a data informada)
+const joinWaitlist = async (turn: BookingTurn, draft: BookingDraft, dateFrom: string): Promise<HandlerReply> => {
+  const until = extractDate(turn.text, businessHoursService.toLocal().date);
+  const dateTo = until && until > dateFrom ? until : dateFrom;
+  const clientId = await findOrCreateClient(turn.establishmentId, turn.clientPhone, turn.clientName);
+
+  await waitlistService.joinWaitlist({
+    establishmentId: turn.establishmentId,
+    clientId,
+    clientPhone: turn.clientPhone,
+    serviceId: draft.service_id!,
+    professionalId: draft.professional_id && draft.professional_id !== 'any' ? draft.professional_id : null,
+    dateFrom,
+    dateTo
+  });
+  await saveDraft(turn, null);
+
+  const period = dateTo === dateFrom
+    ? `em ${appointmentService.formatDateForDisplay(dateFrom)}`
+    : `entre ${appointmentService.formatDateForDisplay(dateFrom)} e ${appointmentService.formatDateForDisplay(dateTo)}`;
+  const withProfessional = draft.professional_id !== 'any' && draft.professional_name
+    ? ` com ${draft.professional_name}`
+    : '';
+
+  return {
+    message: '📝 *Você está na lista de espera!*\n\n' +
+      `Se abrir um horário de ${draft.service_name}${withProfessional} ${period}, te aviso por aqui. ` +
+      'Aí é só responder *sim* para garantir o horário.'
+  };
+};
+
+// Função para conduzir um turno do diálogo de agendamento (serviço, profissional, data, horário e confirmação)
+const handleTurn = async (turn: BookingTurn, current?: BookingDraft | null): Promise<HandlerReply> => {
+  const draft: BookingDraft = isActive(current)
+    ? { ...current }
+    : { updated_at: new Date().toISOString() };
+  const normalized = normalize(turn.text);
+
+  if (isActive(current) && ABORT.test(normalized)) {
+    await saveDraft(turn, null);
+    return { message: 'Tudo bem, deixei o agendamento de lado. Quando quiser, é só me chamar! 😊' };
+  }
+
+  const [services, professionals] = await Promise.all([
+    loadServices(turn.establishmentId),
+    loadProfessionals(turn.establishmentId)
+  ]);
+
+  // A oferta da lista de espera vale só para a resposta seguinte
+  const waitlistDate = draft.waitlist_date;
+  draft.waitlist_date = undefined;
+  if (waitlistDate && WAITLIST.test(normalized)) {
+    return joinWaitlist(turn, draft, waitlistDate);
+  }
+
+  const step = nextStep(draft);
+  const changed = applyAnswer(draft, turn.text, step, services, professionals);
+
+  if (step === 'confirm' && !changed) {
+    const confirmation = readConfirmation(turn.text);
+    if (confirmation === true) {
+      return book(turn, draft, services, professionals);
+    }
+
+    if (confirmation === false) {
+      await saveDraft(turn, null);
+      return { message: 'Sem problemas, não agendei. Se quiser escolher outro horário, é só dizer *quero agendar*.' };
+    }
+
+    return { message: 'Responda *sim* para confirmar o agendamento, *não* para desistir, ou me diga o que deseja alterar.' };
+  }
+
+  // Qualquer alteração exige validar de novo e apresentar um novo resumo
+  draft.awaiting_confirmation = undefined;
+  if (draft.professional_id !== 'any') {
+    draft.assigned_professional_id = undefined;
+    draft.assigned_professional_name = undefined;
+  }
+
+  return advance(turn, draft, services, professionals);
+};
+
+// Função para continuar o agendamento a partir de um horário escolhido numa oferta citada
+const handleSlotChoice = async (
+  turn: BookingTurn,
+  current: BookingDraft | null | undefined,
+  slot: DialogSlotRef
+): Promise<HandlerReply> => {
+  const draft: BookingDraft = isActive(current)
+    ? { ...current }
+    : { updated_at: new Date().toISOString() };
+
+  // Com "qualquer profissional", o profissional é definido ao validar o horário
+  if (draft.professional_id !== 'any') {
+    draft.professional_id = slot.professional_id;
+    draft.professional_name = slot.professional_name;
+  }
+  draft.date = slot.date;
+  draft.time = slot.time;
+  draft.awaiting_confirmation = undefined;
+
+  const [services, professionals] = await Promise.all([
+    loadServices(turn.establishmentId),
+    loadProfessionals(turn.establishmentId)
+  ]);
+
+  // A mesma mensagem pode trazer o serviço ("pode ser, corte")
+  applyAnswer(draft, turn.text, 'time', services, professionals);
+
+  return advance(turn, draft, services, professionals);
+};
+
+// Função para salvar (ou descartar, com null) a remarcação no contexto da conversa
+const saveReschedule = async (turn: BookingTurn, draft: RescheduleDraft | null): Promise<void> => {
+  await contextService.updateContext(turn.establishmentId, turn.clientPhone, {
+    reschedule: draft ? { ...draft, updated_at: new Date().toISOString() } : null
+  });
+};
+
+// Função para buscar os próximos agendamentos do cliente que ainda podem ser remarcados
+const loadUpcoming = async (turn: BookingTurn): Promise<any[]> => {
+  const now = businessHoursService.toLocal();
+  const appointments = await appointmentService.getClientAppointmentsByPhone(turn.clientPhone, turn.establishmentId);
+
+  return appointments
+    .filter(apt => ['scheduled', 'confirmed'].includes(apt.status))
+    .filter(apt => apt.appointment_date > now.date ||
+      (apt.appointment_date === now.date && apt.appointment_time.slice(0, 5) > now.time))
+    .sort((a, b) => `${a.appointment_date} ${a.appointment_time}`.localeCompare(`${b.appointment_date} ${b.appointment_time}`));
+};
+
+// Função para preencher a remarcação com o agendamento escolhido
+const selectAppointment = (draft: RescheduleDraft, appointment: any): void => {
+  draft.candidates = undefined;
+  draft.appointment_id = appointment.id;
+  draft.service_id = appointment.service_id;
+  draft.service_name = appointment.services?.name;
+  draft.professional_id = appointment.professional_id;
+  draft.professional_name = appointment.professionals?.name;
+  draft.current_date = appointment.appointment_date;
+  draft.current_time = appointment.appointment_time;
+};
+
+// Função para formatar data e horário ("20 de janeiro de 2024 às 14:00")
+const describeWhen = (date: string, time: string): string => {
+  return `${appointmentService.formatDateForDisplay(date)} às ${appointmentService.formatTimeForDisplay(time)}`;
+};
+
+// Função para pedir a nova data/horário ou, com o horário validado, o resumo da remarcação
+const advanceReschedule = async (
+  turn: BookingTurn,
+  draft: RescheduleDraft,
+  prefix: string = ''
+): Promise<HandlerReply> => {
+  const withProfessional = draft.professional_name ? ` com ${draft.professional_name}` : '';
+
+  if (!draft.date) {
+    await saveReschedule(turn, draft);
+    return {
+      message: `${prefix}🔄 *Remarcar ${draft.service_name}${withProfessional}*\n\n` +
+        `Hoje está marcado para ${describeWhen(draft.current_date!, draft.current_time!)}.\n\n` +
+        'Para qual dia você quer remarcar? Pode ser *amanhã*, um dia da semana ou uma data (ex.: 25/10).'
+    };
+  }
+
+  // Mesmo serviço e profissional; o horário atual do próprio agendamento não conta como ocupado
+  const slots = await appointmentService.getAvailableSlots(
+    turn.establishmentId,
+    draft.date,
+    draft.professional_id,
+    draft.service_id,
+    draft.appointment_id
+  );
+  const dateLabel = appointmentService.formatDateForDisplay(draft.date);
+
+  if (slots.length === 0) {
+    draft.date = undefined;
+    draft.time = undefined;
+    draft.awaiting_confirmation = undefined;
+    await saveReschedule(turn, draft);
+    return { message: `${prefix}Não há horários disponíveis em ${dateLabel}${withProfessional}. Qual outro dia fica bom para você?` };
+  }
+
+  const selected = draft.time ? slots.find(slot => slot.time.startsWith(draft.time!)) : undefined;
+
+  if (!selected) {
+    const requested = draft.time;
+    draft.time = undefined;
+    draft.awaiting_confirmation = undefined;
+    await saveReschedule(turn, draft);
+
+    const { text, offered } = offerTimes(slots);
+    const intro = requested
+      ? `O horário ${requested} não está disponível em ${dateLabel}${withProfessional}.`
+      : `⏰ *Horários disponíveis em ${dateLabel}${withProfessional}:*`;
+
+    return {
+      message: `${prefix}${intro}\n\n${requested ? 'Horários livres: ' : ''}${text}\n\nQual horário você prefere?`,
+      dialog: { kind: 'reschedule_offer', appointment_id: draft.appointment_id!, slots: offered }
+    };
+  }
+
+  draft.time = selected.time;
+  draft.awaiting_confirmation = true;
+  await saveReschedule(turn, draft);
+
+  return {
+    message: `${prefix}🔄 *Confira a remarcação:*\n\n` +
+      `💼 ${draft.service_name}\n` +
+      `👨‍💼 ${draft.professional_name}\n` +
+      `De: ${describeWhen(draft.current_date!, draft.current_time!)}\n` +
+      `Para: ${describeWhen(draft.date, draft.time)}\n\n` +
+      'Posso remarcar? Responda *sim* para confirmar ou *não* para manter o horário atual.'
+  };
+};
+
+// Função para mover o agendamento depois do "sim" do cliente
+const confirmReschedule = async (turn: BookingTurn, draft: RescheduleDraft): Promise<HandlerReply> => {
+  const result = await appointmentService.rescheduleAppointment(draft.appointment_id!, draft.date!, draft.time!, 'client');
+
+  if (!result.success) {
+    if (result.error === 'Horário não disponível para agendamento') {
+      draft.time = undefined;
+      draft.awaiting_confirmation = undefined;
+      return advanceReschedule(turn, draft, 'Esse horário acabou de ser ocupado. 😕\n\n');
+    }
+
+    if (result.error === 'Agendamento não pode ser remarcado' || result.error === 'Agendamento não encontrado') {
+      await saveReschedule(turn, null);
+      return { message: 'Esse agendamento não pode mais ser remarcado. Se precisar, fale com o estabelecimento.' };
+    }
+
+    logger.error('Falha ao remarcar agendamento pelo WhatsApp:', {
+      establishmentId: turn.establishmentId,
+      appointmentId: draft.appointment_id,
+      error: result.error
+    });
+    return { message: 'Não consegui remarcar agora. Responda *sim* para tentar novamente.' };
+  }
+
+  await saveReschedule(turn, null);
+
+  return {
+    message: '✅ *Agendamento remarcado!*\n\n' +
+      `💼 ${draft.service_name}\n` +
+      `👨‍💼 ${draft.professional_name}\n` +
+      `📅 ${describeWhen(draft.date!, draft.time!)}\n\n` +
+      'Até lá! 😊'
+  };
+};
+
+// Função para conduzir um turno da remarcação (agendamento, nova data, horário e confirmação)
+const handleRescheduleTurn = async (
+  turn: BookingTurn,
+  current: RescheduleDraft | null | undefined,
+  quotedList?: DialogAppointmentRef[]
+): Promise<HandlerReply> => {
+  const active = isActive(current);
+  const draft: RescheduleDraft = active ? { ...current } : { updated_at: new Date().toISOString() };
+  const normalized = normalize(turn.text);
+
+  if (active && ABORT.test(normalized)) {
+    await saveReschedule(turn, null);
+    return { message: 'Tudo bem, mantive seu agendamento como estava. 😊' };
+  }
+
+  // A lista citada pelo cliente tem prioridade sobre a última lista enviada
+  const candidates = quotedList || draft.candidates;
+  let choseFromList = false;
+
+  if (candidates && candidates.length > 0 && (quotedList || !draft.appointment_id)) {
+    const choice = /^\d{1,2}$/.test(normalized) ? candidates[Number(normalized) - 1] : undefined;
+    const upcoming = choice ? await loadUpcoming(turn) : [];
+    const appointment = upcoming.find(apt => apt.id === choice?.id);
+
+    if (!appointment) {
+      draft.candidates = candidates;
+      await saveReschedule(turn, draft);
+      return {
+        message: 'Por favor, responda com o número do agendamento que deseja remarcar.',
+        dialog: { kind: 'reschedule_list', appointments: candidates }
+      };
+    }
+
+    selectAppointment(draft, appointment);
+    draft.date = undefined;
+    draft.time = undefined;
+    draft.awaiting_confirmation = undefined;
+    choseFromList = true;
+  }
+
+  if (!draft.appointment_id) {
+    const upcoming = await loadUpcoming(turn);
+
+    if (upcoming.length === 0) {
+      await saveReschedule(turn, null);
+      return { message: 'Você não possui agendamentos para remarcar. Gostaria de fazer um novo agendamento?' };
+    }
+
+    if (upcoming.length > 1) {
+      draft.candidates = upcoming.slice(0, 3).map(apt => ({
+        id: apt.id,
+        appointment_date: apt.appointment_date,
+        appointment_time: apt.appointment_time,
+        services: { name: apt.services.name },
+        professionals: { name: apt.professionals.name }
+      }));
+      await saveReschedule(turn, draft);
+
+      const list = draft.candidates
+        .map((apt, index) => `${index + 1}. *${apt.services.name}*\n📅 ${describeWhen(apt.appointment_date, apt.appointment_time)}\n👨‍💼 ${apt.professionals.name}`)
+        .join('\n\n');
+
+      return {
+        message: `🔄 *Remarcar agendamento*\n\nQual agendamento você gostaria de remarcar?\n\n${list}\n\nResponda com o número do agendamento.`,
+        dialog: { kind: 'reschedule_list', appointments: draft.candidates }
+      };
+    }
+
+    selectAppointment(draft, upcoming[0]);
+  }
+
+  // Nova data e horário podem vir na mesma mensagem ("remarcar para amanhã às 15h")
+  let changed = false;
+  if (!choseFromList) {
+    const date = extractDate(turn.text, businessHoursService.toLocal().date);
+    if (date && date !== draft.date) {
+      draft.date = date;
+      changed = true;
+    }
+
+    const time = extractTime(turn.text) || (draft.date && !draft.awaiting_confirmation && /^\d{1,2}$/.test(normalized)
+      ? `${normalized.padStart(2, '0')}:00`
+      : undefined);
+    if (time && !draft.time?.startsWith(time)) {
+      draft.time = time;
+      changed = true;
+    }
+  }
+
+  if (draft.awaiting_confirmation && !changed) {
+    const confirmation = readConfirmation(turn.text);
+    if (confirmation === true) {
+      return confirmReschedule(turn, draft);
+    }
+
+    if (confirmation === false) {
+      await saveReschedule(turn, null);
+      return { message: 'Sem problemas, mantive seu agendamento como estava. 😊' };
+    }
+
+    return { message: 'Responda *sim* para confirmar a remarcação, *não* para manter o horário atual, ou me diga outro dia ou horário.' };
+  }
+
+  draft.awaiting_confirmation = undefined;
+  return advanceReschedule(turn, draft);
+};
+
+// Função para continuar a remarcação a partir de um horário escolhido numa oferta citada
+const handleRescheduleSlotChoice = async (
+  turn: BookingTurn,
+  current: RescheduleDraft | null | undefined,
+  appointmentId: string,
+  slot: DialogSlotRef
+): Promise<HandlerReply> => {
+  const draft: RescheduleDraft = isActive(current) && current.appointment_id === appointmentId
+    ? { ...current }
+    : { updated_at: new Date().toISOString() };
+
+  if (!draft.appointment_id) {
+    const appointment = (await loadUpcoming(turn)).find(apt => apt.id === appointmentId);
+    if (!appointment) {
+      await saveReschedule(turn, null);
+      return { message: 'Esse agendamento não pode mais ser remarcado. Se precisar, fale com o estabelecimento.' };
+    }
+    selectAppointment(draft, appointment);
+  }
+
+  draft.date = slot.date;
+  draft.time = slot.time;
+  draft.awaiting_confirmation = undefined;
+
+  return advanceReschedule(turn, draft);
+};
+
+// Função para iniciar um rascunho já com a data (ex.: após listar os horários do dia)
+const startDraft = async (turn: BookingTurn, date: string): Promise<void> => {
+  await saveDraft(turn, { date, updated_at: new Date().toISOString() });
+};
+
+export const bookingService = {
+  isActive,
+  isBookingRequest,
+  readConfirmation,
+  extractTime,
+  extractDate,
+  handleTurn,
+  handleSlotChoice,
+  startDraft,
+  handleRescheduleTurn,
+  handleRescheduleSlotChoice
+};
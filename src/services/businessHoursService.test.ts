@@ -0,0 +1,141 @@
+import { BusinessException, BusinessHours, businessHoursService, Schedule } from './businessHoursService';
+
+const ESTABLISHMENT_ID = 'est-1';
+
+// Segunda a sexta das 9h às 18h com almoço das 12h às 13h; sábado até 13h, sem intervalo
+const buildSchedule = (exceptions: Array<Omit<BusinessException, 'establishment_id'>> = []): Schedule => ({
+  weekly: new Map<number, BusinessHours>([
+    ...[1, 2, 3, 4, 5].map((weekday): [number, BusinessHours] => [weekday, {
+      establishment_id: ESTABLISHMENT_ID,
+      weekday,
+      opens_at: '09:00:00',
+      closes_at: '18:00:00',
+      break_start: '12:00:00',
+      break_end: '13:00:00'
+    }]),
+    [6, { establishment_id: ESTABLISHMENT_ID, weekday: 6, opens_at: '09:00:00', closes_at: '13:00:00' }]
+  ]),
+  exceptions: new Map(exceptions.map(exception => [exception.date, { establishment_id: ESTABLISHMENT_ID, ...exception }]))
+});
+
+describe('businessHoursService.getNationalHolidays', () => {
+  const holidayOn = (year: number, name: string) =>
+    businessHoursService.getNationalHolidays(year).find(holiday => holiday.name === name)?.date;
+
+  it('calcula a Sexta-feira Santa a partir da Páscoa', () => {
+    expect(holidayOn(2024, 'Sexta-feira Santa')).toBe('2024-03-29');
+    expect(holidayOn(2025, 'Sexta-feira Santa')).toBe('2025-04-18');
+    expect(holidayOn(2026, 'Sexta-feira Santa')).toBe('2026-04-03');
+    expect(holidayOn(2027, 'Sexta-feira Santa')).toBe('2027-03-26');
+  });
+
+  it('lista os feriados fixos em ordem de data', () => {
+    const dates = businessHoursService.getNationalHolidays(2026).map(holiday => holiday.date);
+
+    expect(dates).toEqual([...dates].sort());
+    expect(dates).toEqual(expect.arrayContaining(['2026-01-01', '2026-04-21', '2026-09-07', '2026-12-25']));
+  });
+
+  it('inclui a Consciência Negra somente a partir de 2024', () => {
+    expect(holidayOn(2023, 'Consciência Negra')).toBeUndefined();
+    expect(holidayOn(2024, 'Consciência Negra')).toBe('2024-11-20');
+  });
+});
+
+describe('businessHoursService.resolveDay', () => {
+  it('usa o horário semanal, com o intervalo', () => {
+    expect(businessHoursService.resolveDay(buildSchedule(), '2026-10-19')).toEqual({
+      date: '2026-10-19',
+      open: true,
+      opensAt: '09:00',
+      closesAt: '18:00',
+      breakStart: '12:00',
+      breakEnd: '13:00'
+    });
+  });
+
+  it('fecha nos dias sem horário semanal', () => {
+    expect(businessHoursService.resolveDay(buildSchedule(), '2026-10-18'))
+      .toEqual({ date: '2026-10-18', open: false, reason: 'weekly' });
+  });
+
+  it('fecha nos feriados nacionais', () => {
+    expect(businessHoursService.resolveDay(buildSchedule(), '2026-04-03'))
+      .toEqual({ date: '2026-04-03', open: false, reason: 'holiday', note: 'Sexta-feira Santa' });
+  });
+
+  it('mantém o intervalo semanal em dias com horário especial', () => {
+    const schedule = buildSchedule([{ date: '2026-10-20', closed: false, opens_at: '08:00', closes_at: '20:00', reason: 'Horário estendido' }]);
+
+    expect(businessHoursService.resolveDay(schedule, '2026-10-20')).toEqual({
+      date: '2026-10-20',
+      open: true,
+      opensAt: '08:00',
+      closesAt: '20:00',
+      breakStart: '12:00',
+      breakEnd: '13:00',
+      note: 'Horário estendido'
+    });
+  });
+
+  it('corta o intervalo ao expediente especial e o descarta quando fica fora dele', () => {
+    const schedule = buildSchedule([
+      { date: '2026-10-21', closed: false, opens_at: '09:00', closes_at: '12:30' },
+      { date: '2026-10-22', closed: false, opens_at: '14:00', closes_at: '18:00' }
+    ]);
+
+    expect(businessHoursService.resolveDay(schedule, '2026-10-21')).toEqual({
+      date: '2026-10-21',
+      open: true,
+      opensAt: '09:00',
+      closesAt: '12:30',
+      breakStart: '12:00',
+      breakEnd: '12:30'
+    });
+    expect(businessHoursService.resolveDay(schedule, '2026-10-22'))
+      .toEqual({ date: '2026-10-22', open: true, opensAt: '14:00', closesAt: '18:00' });
+  });
+
+  it('completa a exceção com o horário semanal', () => {
+    const schedule = buildSchedule([{ date: '2026-10-23', closed: false, closes_at: '16:00' }]);
+
+    expect(businessHoursService.resolveDay(schedule, '2026-10-23')).toMatchObject({
+      open: true,
+      opensAt: '09:00',
+      closesAt: '16:00',
+      breakStart: '12:00',
+      breakEnd: '13:00'
+    });
+  });
+
+  it('fecha nos dias de fechamento especial', () => {
+    const schedule = buildSchedule([{ date: '2026-10-19', closed: true, reason: 'Reforma' }]);
+
+    expect(businessHoursService.resolveDay(schedule, '2026-10-19'))
+      .toEqual({ date: '2026-10-19', open: false, reason: 'closure', note: 'Reforma' });
+  });
+
+  it('abre um feriado ou um dia de folga quando há exceção com horário', () => {
+    const schedule = buildSchedule([
+      { date: '2026-11-02', closed: false, opens_at: '10:00', closes_at: '14:00' },
+      { date: '2026-10-18', closed: false, opens_at: '10:00', closes_at: '14:00' }
+    ]);
+
+    expect(businessHoursService.resolveDay(schedule, '2026-11-02'))
+      .toEqual({ date: '2026-11-02', open: true, opensAt: '10:00', closesAt: '14:00', breakStart: '12:00', breakEnd: '13:00' });
+    expect(businessHoursService.resolveDay(schedule, '2026-10-18'))
+      .toEqual({ date: '2026-10-18', open: true, opensAt: '10:00', closesAt: '14:00' });
+  });
+});
+
+describe('businessHoursService.isWithinHours', () => {
+  const day = businessHoursService.resolveDay(buildSchedule(), '2026-10-19');
+
+  it('considera abertura inclusiva e fechamento exclusivo, fora do intervalo', () => {
+    expect(businessHoursService.isWithinHours(day, '08:59')).toBe(false);
+    expect(businessHoursService.isWithinHours(day, '09:00')).toBe(true);
+    expect(businessHoursService.isWithinHours(day, '12:00')).toBe(false);
+    expect(businessHoursService.isWithinHours(day, '13:00')).toBe(true);
+    expect(businessHoursService.isWithinHours(day, '18:00')).toBe(false);
+  });
+});
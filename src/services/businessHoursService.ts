@@ -0,0 +1,389 @@
+import { supabase } from '../config/supabase';
+import { logger } from '../utils/logger';
+
+// Horário de um dia da semana (linha de business_hours; weekday 0 = domingo)
+export interface BusinessHours {
+  establishment_id: string;
+  weekday: number;
+  opens_at: string;
+  closes_at: string;
+  break_start?: string | null;
+  break_end?: string | null;
+}
+
+// Exceção em uma data: fechamento especial ou horário diferente (também abre um feriado)
+export interface BusinessException {
+  establishment_id: string;
+  date: string;
+  closed: boolean;
+  opens_at?: string | null;
+  closes_at?: string | null;
+  reason?: string | null;
+}
+
+export interface Holiday {
+  date: string;
+  name: string;
+}
+
+// Funcionamento efetivo de uma data
+export type DayHours =
+  | { date: string; open: true; opensAt: string; closesAt: string; breakStart?: string; breakEnd?: string; note?: string }
+  | { date: string; open: false; reason: 'weekly' | 'holiday' | 'closure'; note?: string };
+
+// Horário semanal e exceções de um estabelecimento, como lidos do banco
+export interface Schedule {
+  weekly: Map<number, BusinessHours>;
+  exceptions: Map<string, BusinessException>;
+}
+
+interface CachedSchedule {
+  schedule: Schedule;
+  expiresAt: number;
+}
+
+export const BUSINESS_TIMEZONE = 'America/Sao_Paulo';
+
+const WEEKDAY_NAMES = ['Domingo', 'Segunda', 'Terça', 'Quarta', 'Quinta', 'Sexta', 'Sábado'];
+
+// Sem business_hours cadastrado: segunda a sábado, das 8h às 18h
+const DEFAULT_OPENS_AT = '08:00';
+const DEFAULT_CLOSES_AT = '18:00';
+const DEFAULT_OPEN_WEEKDAYS = [1, 2, 3, 4, 5, 6];
+
+// Mensagens automáticas só saem entre 1h antes da abertura e 1h depois do fechamento
+const CONTACT_MARGIN_MINUTES = 60;
+
+const CACHE_TTL_MS = 5 * 60 * 1000;
+const scheduleCache = new Map<string, CachedSchedule>();
+
+const localFormatter = new Intl.DateTimeFormat('en-CA', {
+  timeZone: BUSINESS_TIMEZONE,
+  year: 'numeric',
+  month: '2-digit',
+  day: '2-digit',
+  hour: '2-digit',
+  minute: '2-digit',
+  hourCycle: 'h23'
+});
+
+// Função para obter data (yyyy-MM-dd) e hora (HH:mm) locais do estabelecimento
+const toLocal = (at: Date = new Date()): { date: string; time: string } => {
+  const parts = Object.fromEntries(localFormatter.formatToParts(at).map(part => [part.type, part.value]));
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    time: `${parts.hour}:${parts.minute}`
+  };
+};
+
+// Função para converter "HH:mm[:ss]" em minutos desde a meia-noite
+const toMinutes = (time: string): number => {
+  const [hours = 0, minutes = 0] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+// Função para normalizar horários do banco ("08:00:00") em "HH:mm"
+const shortTime = (time: string): string => time.slice(0, 5);
+
+// Função para somar dias a uma data yyyy-MM-dd (sem depender do fuso do servidor)
+const addDaysToDate = (date: string, days: number): string => {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year!, month! - 1, day! + days)).toISOString().slice(0, 10);
+};
+
+// Função para obter o dia da semana de uma data yyyy-MM-dd
+const weekdayOf = (date: string): number => {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year!, month! - 1, day!)).getUTCDay();
+};
+
+// Função para calcular o domingo de Páscoa (algoritmo de Meeus/Jones/Butcher)
+const easterSunday = (year: number): string => {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+};
+
+// Função para listar os feriados nacionais do ano
+const getNationalHolidays = (year: number): Holiday[] => {
+  const fixed: Array<[string, string]> = [
+    ['01-01', 'Confraternização Universal'],
+    ['04-21', 'Tiradentes'],
+    ['05-01', 'Dia do Trabalho'],
+    ['09-07', 'Independência do Brasil'],
+    ['10-12', 'Nossa Senhora Aparecida'],
+    ['11-02', 'Finados'],
+    ['11-15', 'Proclamação da República'],
+    ['12-25', 'Natal']
+  ];
+
+  // Dia Nacional de Zumbi e da Consciência Negra é feriado nacional desde 2024
+  if (year >= 2024) {
+    fixed.push(['11-20', 'Consciência Negra']);
+  }
+
+  return [
+    ...fixed.map(([monthDay, name]) => ({ date: `${year}-${monthDay}`, name })),
+    { date: addDaysToDate(easterSunday(year), -2), name: 'Sexta-feira Santa' }
+  ].sort((a, b) => a.date.localeCompare(b.date));
+};
+
+// Função para saber se uma data é feriado nacional
+const findHoliday = (date: string): Holiday | undefined => {
+  return getNationalHolidays(parseInt(date.slice(0, 4), 10)).find(holiday => holiday.date === date);
+};
+
+// Função para buscar (com cache) o horário semanal e as exceções do estabelecimento
+const getSchedule = async (establishmentId: string): Promise<Schedule> => {
+  const cached = scheduleCache.get(establishmentId);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.schedule;
+  }
+
+  const today = toLocal().date;
+  const [hours, exceptions] = await Promise.all([
+    supabase
+      .from('business_hours')
+      .select('*')
+      .eq('establishment_id', establishmentId),
+    supabase
+      .from('business_exceptions')
+      .select('*')
+      .eq('establishment_id', establishmentId)
+      .gte('date', today)
+  ]);
+
+  if (hours.error) {
+    logger.error('Erro ao buscar horário de funcionamento:', hours.error);
+  }
+  if (exceptions.error) {
+    logger.error('Erro ao buscar exceções de funcionamento:', exceptions.error);
+  }
+
+  const weekly = new Map<number, BusinessHours>();
+  const rows = (hours.data || []) as BusinessHours[];
+
+  if (rows.length > 0) {
+    for (const row of rows) {
+      weekly.set(row.weekday, row);
+    }
+  } else {
+    for (const weekday of DEFAULT_OPEN_WEEKDAYS) {
+      weekly.set(weekday, {
+        establishment_id: establishmentId,
+        weekday,
+        opens_at: DEFAULT_OPENS_AT,
+        closes_at: DEFAULT_CLOSES_AT
+      });
+    }
+  }
+
+  const schedule: Schedule = {
+    weekly,
+    exceptions: new Map(((exceptions.data || []) as BusinessException[]).map(exception => [exception.date, exception]))
+  };
+
+  // Falhas de leitura não são guardadas em cache
+  if (!hours.error && !exceptions.error) {
+    scheduleCache.set(establishmentId, { schedule, expiresAt: Date.now() + CACHE_TTL_MS });
+  }
+
+  return schedule;
+};
+
+// Função para calcular o funcionamento de uma data: exceção > feriado > horário semanal
+const resolveDay = (schedule: Schedule, date: string): DayHours => {
+  const exception = schedule.exceptions.get(date);
+  const weekly = schedule.weekly.get(weekdayOf(date));
+
+  if (exception) {
+    const opensAt = exception.opens_at || weekly?.opens_at;
+    const closesAt = exception.closes_at || weekly?.closes_at;
+    const note = exception.reason || undefined;
+
+    if (exception.closed || !opensAt || !closesAt) {
+      return { date, open: false, reason: 'closure', ...(note ? { note } : {}) };
+    }
+
+    // A exceção muda o expediente, não o intervalo: o do dia da semana vale no trecho em que ainda estiver aberto
+    const opens = shortTime(opensAt);
+    const closes = shortTime(closesAt);
+    const breakStart = weekly?.break_start ? shortTime(weekly.break_start) : undefined;
+    const breakEnd = weekly?.break_end ? shortTime(weekly.break_end) : undefined;
+    const keepsBreak = breakStart && breakEnd && breakStart < closes && breakEnd > opens;
+
+    return {
+      date,
+      open: true,
+      opensAt: opens,
+      closesAt: closes,
+      ...(keepsBreak
+        ? { breakStart: breakStart > opens ? breakStart : opens, breakEnd: breakEnd < closes ? breakEnd : closes }
+        : {}),
+      ...(note ? { note } : {})
+    };
+  }
+
+  const holiday = findHoliday(date);
+  if (holiday) {
+    return { date, open: false, reason: 'holiday', note: holiday.name };
+  }
+
+  if (!weekly) {
+    return { date, open: false, reason: 'weekly' };
+  }
+
+  return {
+    date,
+    open: true,
+    opensAt: shortTime(weekly.opens_at),
+    closesAt: shortTime(weekly.closes_at),
+    ...(weekly.break_start && weekly.break_end
+      ? { breakStart: shortTime(weekly.break_start), breakEnd: shortTime(weekly.break_end) }
+      : {})
+  };
+};
+
+// Função para obter o funcionamento do estabelecimento em uma data (yyyy-MM-dd)
+const getDayHours = async (establishmentId: string, date: string): Promise<DayHours> => {
+  return resolveDay(await getSchedule(establishmentId), date);
+};
+
+// Função para saber se um horário (HH:mm) da data está dentro do expediente, fora do intervalo
+const isWithinHours = (day: DayHours, time: string): boolean => {
+  if (!day.open) {
+    return false;
+  }
+
+  const minutes = toMinutes(time);
+  if (minutes < toMinutes(day.opensAt) || minutes >= toMinutes(day.closesAt)) {
+    return false;
+  }
+
+  if (day.breakStart && day.breakEnd) {
+    return minutes < toMinutes(day.breakStart) || minutes >= toMinutes(day.breakEnd);
+  }
+
+  return true;
+};
+
+// Função para saber se o estabelecimento está aberto em um instante
+const isOpenAt = async (establishmentId: string, at: Date = new Date()): Promise<boolean> => {
+  const local = toLocal(at);
+  return isWithinHours(await getDayHours(establishmentId, local.date), local.time);
+};
+
+// Função para saber se mensagens automáticas podem ser enviadas agora (fora do horário de silêncio)
+const isContactAllowed = async (establishmentId: string, at: Date = new Date()): Promise<boolean> => {
+  const schedule = await getSchedule(establishmentId);
+  const local = toLocal(at);
+  const day = resolveDay(schedule, local.date);
+
+  // Em dias fechados, vale o horário mais amplo da semana
+  const weekly = [...schedule.weekly.values()];
+  const opensAt = day.open ? day.opensAt : weekly.map(hours => shortTime(hours.opens_at)).sort()[0];
+  const closesAt = day.open ? day.closesAt : weekly.map(hours => shortTime(hours.closes_at)).sort().reverse()[0];
+
+  if (!opensAt || !closesAt) {
+    return true;
+  }
+
+  const minutes = toMinutes(local.time);
+  return minutes >= toMinutes(opensAt) - CONTACT_MARGIN_MINUTES
+    && minutes < toMinutes(closesAt) + CONTACT_MARGIN_MINUTES;
+};
+
+// Função para descrever um dia para o cliente
+const describeDay = (day: DayHours): string => {
+  if (!day.open) {
+    return day.reason === 'holiday'
+      ? `fechado (feriado: ${day.note})`
+      : day.note ? `fechado (${day.note})` : 'fechado';
+  }
+
+  const hours = day.breakStart && day.breakEnd
+    ? `${day.opensAt} às ${day.breakStart} e ${day.breakEnd} às ${day.closesAt}`
+    : `${day.opensAt} às ${day.closesAt}`;
+
+  return day.note ? `${hours} (${day.note})` : hours;
+};
+
+// Função para montar o texto de horário de funcionamento usado pelo prompt e pelas respostas prontas
+const describeSchedule = async (establishmentId: string, at: Date = new Date(), days: number = 14): Promise<string> => {
+  const schedule = await getSchedule(establishmentId);
+  const local = toLocal(at);
+  const today = resolveDay(schedule, local.date);
+
+  const weekly = [1, 2, 3, 4, 5, 6, 0].map(weekday => {
+    const hours = schedule.weekly.get(weekday);
+    if (!hours) {
+      return `- ${WEEKDAY_NAMES[weekday]}: fechado`;
+    }
+
+    const breakText = hours.break_start && hours.break_end
+      ? ` (intervalo das ${shortTime(hours.break_start)} às ${shortTime(hours.break_end)})`
+      : '';
+    return `- ${WEEKDAY_NAMES[weekday]}: ${shortTime(hours.opens_at)} às ${shortTime(hours.closes_at)}${breakText}`;
+  });
+
+  // Feriados e exceções dos próximos dias
+  const upcoming: string[] = [];
+  for (let offset = 0; offset < days; offset++) {
+    const date = addDaysToDate(local.date, offset);
+    if (!schedule.exceptions.has(date) && !findHoliday(date)) {
+      continue;
+    }
+    const [year, month, day] = date.split('-');
+    upcoming.push(`- ${day}/${month}/${year} (${WEEKDAY_NAMES[weekdayOf(date)]}): ${describeDay(resolveDay(schedule, date))}`);
+  }
+
+  const status = isWithinHours(today, local.time) ? 'aberto agora' : 'fechado agora';
+  const lines = [
+    'Horário de funcionamento (horário de Brasília):',
+    ...weekly,
+    `Hoje (${WEEKDAY_NAMES[weekdayOf(local.date)]}): ${describeDay(today)}; ${status}.`
+  ];
+
+  if (upcoming.length > 0) {
+    lines.push('Feriados e exceções nos próximos dias:', ...upcoming);
+  }
+
+  return lines.join('\n');
+};
+
+// Função para descartar o cache (ex.: após alterar o horário)
+const invalidateCache = (establishmentId?: string): void => {
+  if (establishmentId) {
+    scheduleCache.delete(establishmentId);
+  } else {
+    scheduleCache.clear();
+  }
+};
+
+export const businessHoursService = {
+  toLocal,
+  toMinutes,
+  addDaysToDate,
+  weekdayOf,
+  getNationalHolidays,
+  resolveDay,
+  getDayHours,
+  isWithinHours,
+  isOpenAt,
+  isContactAllowed,
+  describeSchedule,
+  invalidateCache
+};
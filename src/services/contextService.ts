@@ -47,6 +47,26 @@ const getConversationContext = async (
   }
 };
 
+// Função para buscar o contexto sem criá-lo (leitura apenas, ex.: simulação do reprocessamento)
+const findConversationContext = async (
+  establishmentId: string,
+  clientPhone: string
+): Promise<ConversationContext | null> => {
+  const { data, error } = await supabase
+    .from('conversation_contexts')
+    .select('*')
+    .eq('establishment_id', establishmentId)
+    .eq('client_phone', clientPhone)
+    .maybeSingle();
+
+  if (error) {
+    logger.error('Erro ao buscar contexto de conversação:', error);
+    throw error;
+  }
+
+  return (data as ConversationContext) || null;
+};
+
 // Função para criar novo contexto de conversação
 export const createConversationContext = async (
   establishmentId: string,
@@ -327,10 +347,12 @@ const getContextStats = async (
 
 // Aliases para compatibilidade
 const getOrCreateContext = getConversationContext;
+const findContext = findConversationContext;
 const updateContext = updateConversationContext;
 
 export const contextService = {
   getOrCreateContext,
+  findContext,
   updateContext,
   getActiveContexts,
   closeInactiveContexts,
@@ -0,0 +1,282 @@
+import { supabase } from '../config/supabase';
+import { logger } from '../utils/logger';
+import { OutboundDialog } from '../types/dialogs';
+
+// Registro de entrega de webhook (uma linha por mensagem do WhatsApp)
+export interface WebhookDelivery {
+  id: string;
+  instance_name: string;
+  message_id: string;
+  first_seen_at: string;
+  last_seen_at: string;
+  delivery_count: number;
+  result?: Record<string, any> | null;
+  reply_claimed_at?: string | null;
+  reply?: PendingReply | null;
+  reply_sent_at?: string | null;
+}
+
+// Resposta gerada para uma mensagem, guardada antes do envio para que uma nova tentativa só a reenvie
+export interface PendingReply {
+  to: string;
+  message: string;
+  dialog?: OutboundDialog | undefined;
+}
+
+// Resultado da tentativa de registrar uma entrega
+export interface DeliveryClaim {
+  isNew: boolean;
+  delivery: WebhookDelivery | null;
+}
+
+// Código de violação de unicidade do Postgres
+const UNIQUE_VIOLATION = '23505';
+
+// Função para buscar uma entrega já registrada
+const getDelivery = async (
+  instanceName: string,
+  messageId: string
+): Promise<WebhookDelivery | null> => {
+  try {
+    const { data, error } = await supabase
+      .from('webhook_deliveries')
+      .select('*')
+      .eq('instance_name', instanceName)
+      .eq('message_id', messageId)
+      .single();
+
+    if (error && error.code !== 'PGRST116') { // PGRST116 = no rows returned
+      logger.error('Erro ao buscar entrega de webhook:', error);
+      return null;
+    }
+
+    return (data as WebhookDelivery) || null;
+  } catch (error) {
+    logger.error('Erro ao buscar entrega de webhook:', error);
+    return null;
+  }
+};
+
+// Função para registrar a primeira entrega de uma mensagem
+// A unicidade de (instance_name, message_id) no banco garante que apenas
+// uma das entregas concorrentes seja considerada nova.
+const claimDelivery = async (
+  instanceName: string,
+  messageId: string
+): Promise<DeliveryClaim> => {
+  const now = new Date().toISOString();
+
+  const { data, error } = await supabase
+    .from('webhook_deliveries')
+    .insert({
+      instance_name: instanceName,
+      message_id: messageId,
+      first_seen_at: now,
+      last_seen_at: now,
+      delivery_count: 1
+    })
+    .select('*')
+    .single();
+
+  if (!error) {
+    return { isNew: true, delivery: data as WebhookDelivery };
+  }
+
+  if (error.code !== UNIQUE_VIOLATION) {
+    logger.error('Erro ao registrar entrega de webhook:', error);
+    throw error;
+  }
+
+  // Reentrega: atualizar contadores e devolver o registro original
+  const existing = await getDelivery(instanceName, messageId);
+
+  if (existing) {
+    const { error: updateError } = await supabase
+      .from('webhook_deliveries')
+      .update({
+        last_seen_at: now,
+        delivery_count: existing.delivery_count + 1
+      })
+      .eq('id', existing.id);
+
+    if (updateError) {
+      logger.error('Erro ao atualizar entrega de webhook:', updateError);
+    }
+  }
+
+  logger.info('Reentrega de webhook detectada:', {
+    instanceName,
+    messageId,
+    firstSeenAt: existing?.first_seen_at
+  });
+
+  return { isNew: false, delivery: existing };
+};
+
+// Função para garantir que exista o registro de entrega de uma mensagem já salva
+// (ex.: reprocessamento), sem contá-la como reentrega
+const ensureDelivery = async (
+  instanceName: string,
+  messageId: string
+): Promise<void> => {
+  const now = new Date().toISOString();
+
+  const { error } = await supabase
+    .from('webhook_deliveries')
+    .upsert(
+      {
+        instance_name: instanceName,
+        message_id: messageId,
+        first_seen_at: now,
+        last_seen_at: now,
+        delivery_count: 1
+      },
+      { onConflict: 'instance_name,message_id', ignoreDuplicates: true }
+    );
+
+  if (error) {
+    logger.error('Erro ao garantir registro de entrega:', error);
+    throw error;
+  }
+};
+
+// Função para guardar o resultado devolvido na primeira entrega
+const recordResult = async (
+  instanceName: string,
+  messageId: string,
+  result: Record<string, any>
+): Promise<void> => {
+  try {
+    const { error } = await supabase
+      .from('webhook_deliveries')
+      .update({ result })
+      .eq('instance_name', instanceName)
+      .eq('message_id', messageId);
+
+    if (error) {
+      logger.error('Erro ao salvar resultado da entrega:', error);
+    }
+  } catch (error) {
+    logger.error('Erro ao salvar resultado da entrega:', error);
+  }
+};
+
+// Função para liberar uma entrega cujo processamento falhou,
+// permitindo que a próxima tentativa da UazAPI seja processada
+const releaseDelivery = async (
+  instanceName: string,
+  messageId: string
+): Promise<void> => {
+  try {
+    const { error } = await supabase
+      .from('webhook_deliveries')
+      .delete()
+      .eq('instance_name', instanceName)
+      .eq('message_id', messageId)
+      .is('reply_claimed_at', null);
+
+    if (error) {
+      logger.error('Erro ao liberar entrega de webhook:', error);
+    }
+  } catch (error) {
+    logger.error('Erro ao liberar entrega de webhook:', error);
+  }
+};
+
+// Função para reservar o direito de responder a uma mensagem
+// Retorna true apenas para o primeiro chamador; os demais não devem responder.
+const claimReply = async (
+  instanceName: string,
+  messageId: string
+): Promise<boolean> => {
+  try {
+    const { data, error } = await supabase
+      .from('webhook_deliveries')
+      .update({ reply_claimed_at: new Date().toISOString() })
+      .eq('instance_name', instanceName)
+      .eq('message_id', messageId)
+      .is('reply_claimed_at', null)
+      .select('id');
+
+    if (error) {
+      logger.error('Erro ao reservar resposta:', error);
+      return false;
+    }
+
+    return (data?.length || 0) > 0;
+  } catch (error) {
+    logger.error('Erro ao reservar resposta:', error);
+    return false;
+  }
+};
+
+// Função para guardar a resposta gerada antes de enviá-la
+const saveReply = async (
+  instanceName: string,
+  messageId: string,
+  reply: PendingReply
+): Promise<void> => {
+  const { error } = await supabase
+    .from('webhook_deliveries')
+    .update({ reply })
+    .eq('instance_name', instanceName)
+    .eq('message_id', messageId);
+
+  if (error) {
+    logger.error('Erro ao guardar resposta pendente:', error);
+    throw error;
+  }
+};
+
+// Função para registrar que a resposta guardada foi enviada
+const markReplySent = async (
+  instanceName: string,
+  messageId: string
+): Promise<void> => {
+  try {
+    const { error } = await supabase
+      .from('webhook_deliveries')
+      .update({ reply_sent_at: new Date().toISOString() })
+      .eq('instance_name', instanceName)
+      .eq('message_id', messageId);
+
+    if (error) {
+      logger.error('Erro ao registrar envio da resposta:', error);
+    }
+  } catch (error) {
+    logger.error('Erro ao registrar envio da resposta:', error);
+  }
+};
+
+// Função para desfazer a reserva de resposta quando o processamento falhou antes de qualquer efeito,
+// permitindo que uma nova tentativa (fila ou reprocessamento) processe a mensagem
+const releaseReply = async (
+  instanceName: string,
+  messageId: string
+): Promise<void> => {
+  try {
+    const { error } = await supabase
+      .from('webhook_deliveries')
+      .update({ reply_claimed_at: null })
+      .eq('instance_name', instanceName)
+      .eq('message_id', messageId);
+
+    if (error) {
+      logger.error('Erro ao liberar reserva de resposta:', error);
+    }
+  } catch (error) {
+    logger.error('Erro ao liberar reserva de resposta:', error);
+  }
+};
+
+export const deduplicationService = {
+  getDelivery,
+  claimDelivery,
+  ensureDelivery,
+  recordResult,
+  releaseDelivery,
+  claimReply,
+  saveReply,
+  markReplySent,
+  releaseReply
+};
@@ -0,0 +1,188 @@
+import { supabase, UazapiConfiguration } from '../config/supabase';
+import { logger } from '../utils/logger';
+import { outboundGateway } from './outboundGateway';
+import { instanceHealthService } from './instanceHealthService';
+import {
+  MessageStatusEvent,
+  ConnectionUpdateEvent,
+  QrCodeUpdatedEvent
+} from '../types/schemas';
+
+type InstanceStatus = UazapiConfiguration['status'];
+
+// Mapeamento dos estados de conexão da UazAPI para o status salvo no banco
+const CONNECTION_STATUS: Record<ConnectionUpdateEvent['data']['state'], InstanceStatus> = {
+  open: 'connected',
+  close: 'disconnected',
+  connecting: 'connecting'
+};
+
+// Códigos numéricos de recibo usados pelo WhatsApp
+const NUMERIC_MESSAGE_STATUS: Record<number, string> = {
+  0: 'ERROR',
+  1: 'PENDING',
+  2: 'SERVER_ACK',
+  3: 'DELIVERY_ACK',
+  4: 'READ',
+  5: 'PLAYED'
+};
+
+// Função para normalizar o status de recibo de mensagem
+const normalizeMessageStatus = (status: string | number): string => {
+  if (typeof status === 'number') {
+    return NUMERIC_MESSAGE_STATUS[status] || 'UNKNOWN';
+  }
+  return status.toUpperCase();
+};
+
+// Função para atualizar a configuração da instância pelo nome
+const updateInstanceByName = async (
+  instanceName: string,
+  updates: Record<string, any>
+): Promise<UazapiConfiguration | null> => {
+  const { data, error } = await supabase
+    .from('uazapi_configurations')
+    .update({
+      ...updates,
+      updated_at: new Date().toISOString()
+    })
+    .eq('instance_name', instanceName)
+    .select('*');
+
+  if (error) {
+    logger.error('Erro ao atualizar configuração da instância:', error);
+    return null;
+  }
+
+  if (!data || data.length === 0) {
+    logger.warn('Evento recebido para instância não configurada:', instanceName);
+    return null;
+  }
+
+  return data[0] as UazapiConfiguration;
+};
+
+// Função para tratar mudança de conexão da instância
+const handleConnectionUpdate = async (event: ConnectionUpdateEvent): Promise<void> => {
+  const status = CONNECTION_STATUS[event.data.state];
+  const updates: Record<string, any> = { status };
+
+  // Depois de conectada, o QR code antigo não serve mais
+  if (status === 'connected') {
+    updates.qr_code = null;
+  }
+
+  const { data: previous } = await supabase
+    .from('uazapi_configurations')
+    .select('status')
+    .eq('instance_name', event.instanceName)
+    .maybeSingle();
+
+  const config = await updateInstanceByName(event.instanceName, updates);
+
+  // Reconexões podem vir com novo token; recarregar as credenciais no próximo envio
+  outboundGateway.invalidate({ instanceName: event.instanceName });
+
+  if (config) {
+    await instanceHealthService.recordStatusChange(config, previous?.status || null, status, 'webhook');
+
+    logger.info('Status da instância atualizado via webhook:', {
+      instanceName: event.instanceName,
+      status,
+      statusReason: event.data.statusReason
+    });
+  }
+};
+
+// Função para tratar novo QR code de pareamento
+const handleQrCodeUpdate = async (event: QrCodeUpdatedEvent): Promise<void> => {
+  const qrCode = event.data.qrcode.base64 || event.data.qrcode.code;
+
+  if (!qrCode) {
+    logger.warn('Evento de QR code sem conteúdo:', event.instanceName);
+    return;
+  }
+
+  const config = await updateInstanceByName(event.instanceName, {
+    status: 'connecting',
+    qr_code: qrCode
+  });
+
+  if (config) {
+    logger.info('QR code da instância atualizado via webhook:', {
+      instanceName: event.instanceName
+    });
+  }
+};
+
+// Função para registrar recibos de entrega e leitura das mensagens enviadas
+const handleMessageStatusUpdate = async (event: MessageStatusEvent): Promise<void> => {
+  // Recibos só interessam para mensagens enviadas pelo bot
+  if (!event.data.key.fromMe) {
+    return;
+  }
+
+  const status = normalizeMessageStatus(event.data.status);
+  const receivedAt = event.data.timestamp
+    ? new Date(event.data.timestamp * 1000).toISOString()
+    : new Date().toISOString();
+  const messageId = event.data.key.id;
+
+  // O recibo só pode alterar mensagens do estabelecimento dono da instância
+  const { data: instance, error: instanceError } = await supabase
+    .from('uazapi_configurations')
+    .select('establishment_id')
+    .eq('instance_name', event.instanceName)
+    .maybeSingle();
+
+  if (instanceError) {
+    logger.error('Erro ao resolver estabelecimento do recibo:', instanceError);
+    return;
+  }
+
+  if (!instance) {
+    logger.warn('Recibo recebido para instância não configurada:', event.instanceName);
+    return;
+  }
+
+  if (status === 'DELIVERY_ACK' || status === 'READ' || status === 'PLAYED') {
+    // Mensagem lida também foi entregue, mesmo que o recibo de entrega não tenha chegado
+    const { error } = await supabase
+      .from('messages')
+      .update({ delivered_at: receivedAt })
+      .eq('establishment_id', instance.establishment_id)
+      .eq('external_message_id', messageId)
+      .eq('direction', 'outbound')
+      .is('delivered_at', null);
+
+    if (error) {
+      logger.error('Erro ao registrar entrega da mensagem:', error);
+    }
+  }
+
+  if (status === 'READ' || status === 'PLAYED') {
+    const { error } = await supabase
+      .from('messages')
+      .update({ read_at: receivedAt })
+      .eq('establishment_id', instance.establishment_id)
+      .eq('external_message_id', messageId)
+      .eq('direction', 'outbound')
+      .is('read_at', null);
+
+    if (error) {
+      logger.error('Erro ao registrar leitura da mensagem:', error);
+    }
+  }
+
+  logger.debug('Recibo de mensagem processado:', {
+    instanceName: event.instanceName,
+    messageId,
+    status
+  });
+};
+
+export const instanceEventService = {
+  handleConnectionUpdate,
+  handleQrCodeUpdate,
+  handleMessageStatusUpdate
+};
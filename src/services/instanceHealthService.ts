@@ -0,0 +1,349 @@
+import axios from 'axios';
+import { createHmac } from 'crypto';
+import { supabase, UazapiConfiguration, Establishment } from '../config/supabase';
+import { config } from '../config/env';
+import { logger } from '../utils/logger';
+import { safeCompare } from '../utils/security';
+import { UazapiService, InstanceStatus } from './uazapiService';
+import { outboundGateway } from './outboundGateway';
+import { promptService } from './promptService';
+
+type ConnectionStatus = UazapiConfiguration['status'];
+
+// Origem da mudança de status registrada no histórico
+export type StatusChangeSource = 'health_check' | 'webhook' | 'operator';
+
+export interface InstanceAlert {
+  id: string;
+  establishment_id: string;
+  instance_name: string;
+  alert_type: 'disconnected';
+  channel: 'email' | 'whatsapp' | 'none';
+  recipient: string | null;
+  status: 'open' | 'resolved';
+  opened_at: string;
+  resolved_at: string | null;
+}
+
+export interface HealthCheckReport {
+  checked: number;
+  changed: number;
+  unreachable: number;
+}
+
+type InstanceRow = Pick<UazapiConfiguration, 'establishment_id' | 'instance_name'>;
+
+// Função para converter o estado informado pela UazAPI no status salvo no banco
+const toConnectionStatus = (status: InstanceStatus['status']): ConnectionStatus => {
+  if (status === 'open') {
+    return 'connected';
+  }
+  return status === 'connecting' ? 'connecting' : 'disconnected';
+};
+
+// Função para calcular a assinatura do link de QR code
+const signQrLink = (establishmentId: string, expires: number): string | null => {
+  const secret = config.alerts.linkSecret;
+  if (!secret) {
+    return null;
+  }
+
+  return createHmac('sha256', secret).update(`${establishmentId}.${expires}`).digest('hex');
+};
+
+// Função para montar o link (assinado e com validade) da página de pareamento
+const createQrLink = (establishmentId: string): string | null => {
+  const baseUrl = config.alerts.publicUrl || (config.webhook.url ? new URL(config.webhook.url).origin : null);
+  const expires = Math.floor(Date.now() / 1000) + config.alerts.qrLinkTtlSeconds;
+  const signature = signQrLink(establishmentId, expires);
+
+  if (!baseUrl || !signature) {
+    return null;
+  }
+
+  return `${baseUrl.replace(/\/$/, '')}/instances/${establishmentId}/qr?expires=${expires}&signature=${signature}`;
+};
+
+// Função para validar um link de QR code recebido
+const verifyQrLink = (establishmentId: string, expires: string, signature: string): boolean => {
+  const expiresAt = parseInt(expires, 10);
+  if (isNaN(expiresAt) || expiresAt < Date.now() / 1000) {
+    return false;
+  }
+
+  const expected = signQrLink(establishmentId, expiresAt);
+  return expected !== null && safeCompare(signature, expected);
+};
+
+// Função para enviar e-mail pela API HTTP configurada (formato compatível com Resend)
+const sendEmail = async (to: string, subject: string, text: string): Promise<boolean> => {
+  if (!config.alerts.emailApiUrl || !config.alerts.emailFrom) {
+    return false;
+  }
+
+  try {
+    await axios.post(
+      config.alerts.emailApiUrl,
+      { from: config.alerts.emailFrom, to, subject, text },
+      {
+        headers: config.alerts.emailApiKey ? { Authorization: `Bearer ${config.alerts.emailApiKey}` } : {},
+        timeout: 15000
+      }
+    );
+    return true;
+  } catch (error: any) {
+    logger.error('Erro ao enviar e-mail de alerta:', {
+      to,
+      error: error.message,
+      status: error.response?.status
+    });
+    return false;
+  }
+};
+
+// Função para avisar o responsável: e-mail do admin ou, na falta, WhatsApp por outra instância
+const notify = async (
+  establishment: Establishment | null,
+  instanceName: string,
+  subject: string,
+  text: string
+): Promise<Pick<InstanceAlert, 'channel' | 'recipient'>> => {
+  if (establishment?.admin_email && await sendEmail(establishment.admin_email, subject, text)) {
+    return { channel: 'email', recipient: establishment.admin_email };
+  }
+
+  // A instância do próprio salão está fora do ar; o aviso sai pela instância de alertas
+  const fallbackInstance = config.alerts.whatsappInstance;
+  if (establishment?.whatsapp && fallbackInstance && fallbackInstance !== instanceName) {
+    const result = await outboundGateway.sendText({
+      to: establishment.whatsapp,
+      message: `*${subject}*\n\n${text}`,
+      instance: { instanceName: fallbackInstance }
+    });
+
+    if (result.success) {
+      return { channel: 'whatsapp', recipient: establishment.whatsapp };
+    }
+  }
+
+  logger.warn('Nenhum canal disponível para o alerta da instância:', {
+    establishmentId: establishment?.id,
+    instanceName
+  });
+  return { channel: 'none', recipient: null };
+};
+
+// Função para abrir o alerta de desconexão (no máximo um aberto por instância)
+const openDisconnectionAlert = async (instance: InstanceRow): Promise<void> => {
+  const { data: existing, error: fetchError } = await supabase
+    .from('instance_alerts')
+    .select('id')
+    .eq('establishment_id', instance.establishment_id)
+    .eq('alert_type', 'disconnected')
+    .eq('status', 'open')
+    .maybeSingle();
+
+  if (fetchError) {
+    logger.error('Erro ao buscar alertas abertos:', fetchError);
+    return;
+  }
+
+  if (existing) {
+    return;
+  }
+
+  const establishment = await promptService.getEstablishment(instance.establishment_id);
+  const qrLink = createQrLink(instance.establishment_id);
+  const name = establishment?.name || instance.instance_name;
+
+  const delivery = await notify(
+    establishment,
+    instance.instance_name,
+    `WhatsApp desconectado - ${name}`,
+    [
+      `O WhatsApp do ${name} foi desconectado e o atendimento automático está parado.`,
+      qrLink
+        ? `Para reconectar, abra o link abaixo e escaneie o QR code com o celular do salão:\n${qrLink}`
+        : 'Peça ao suporte um novo QR code para reconectar.'
+    ].join('\n\n')
+  );
+
+  const { error } = await supabase
+    .from('instance_alerts')
+    .insert({
+      establishment_id: instance.establishment_id,
+      instance_name: instance.instance_name,
+      alert_type: 'disconnected',
+      channel: delivery.channel,
+      recipient: delivery.recipient,
+      status: 'open',
+      opened_at: new Date().toISOString()
+    });
+
+  if (error) {
+    logger.error('Erro ao registrar alerta de desconexão:', error);
+    return;
+  }
+
+  logger.warn('Alerta de desconexão aberto:', {
+    establishmentId: instance.establishment_id,
+    instanceName: instance.instance_name,
+    channel: delivery.channel
+  });
+};
+
+// Função para resolver os alertas abertos quando a instância volta a conectar
+const resolveAlerts = async (instance: InstanceRow): Promise<void> => {
+  const { data, error } = await supabase
+    .from('instance_alerts')
+    .update({
+      status: 'resolved',
+      resolved_at: new Date().toISOString()
+    })
+    .eq('establishment_id', instance.establishment_id)
+    .eq('status', 'open')
+    .select('*');
+
+  if (error) {
+    logger.error('Erro ao resolver alertas da instância:', error);
+    return;
+  }
+
+  const resolved = (data || []) as InstanceAlert[];
+  if (resolved.length === 0) {
+    return;
+  }
+
+  // Avisar pelo mesmo canal do alerta, agora que a instância voltou
+  const establishment = await promptService.getEstablishment(instance.establishment_id);
+  if (resolved.some(alert => alert.channel !== 'none')) {
+    const name = establishment?.name || instance.instance_name;
+    await notify(
+      establishment,
+      instance.instance_name,
+      `WhatsApp reconectado - ${name}`,
+      `O WhatsApp do ${name} foi reconectado e o atendimento automático voltou a funcionar.`
+    );
+  }
+
+  logger.info('Alertas da instância resolvidos:', {
+    establishmentId: instance.establishment_id,
+    instanceName: instance.instance_name,
+    alerts: resolved.length
+  });
+};
+
+// Função para registrar uma mudança de status e abrir/resolver alertas
+const recordStatusChange = async (
+  instance: InstanceRow,
+  previousStatus: ConnectionStatus | null,
+  status: ConnectionStatus,
+  source: StatusChangeSource
+): Promise<void> => {
+  if (previousStatus === status) {
+    return;
+  }
+
+  try {
+    const { error } = await supabase
+      .from('instance_status_history')
+      .insert({
+        establishment_id: instance.establishment_id,
+        instance_name: instance.instance_name,
+        previous_status: previousStatus,
+        status,
+        source,
+        created_at: new Date().toISOString()
+      });
+
+    if (error) {
+      logger.error('Erro ao registrar histórico de status da instância:', error);
+    }
+
+    // Desconexões feitas pelo operador são intencionais e não geram alerta
+    if (previousStatus === 'connected' && status === 'disconnected' && source !== 'operator') {
+      await openDisconnectionAlert(instance);
+    } else if (status === 'connected') {
+      await resolveAlerts(instance);
+    }
+  } catch (error) {
+    logger.error('Erro ao processar mudança de status da instância:', error);
+  }
+};
+
+// Função para conferir o status de todas as instâncias na UazAPI
+const checkAllInstances = async (): Promise<HealthCheckReport> => {
+  const report: HealthCheckReport = { checked: 0, changed: 0, unreachable: 0 };
+
+  const { data: configs, error } = await supabase
+    .from('uazapi_configurations')
+    .select('*');
+
+  if (error) {
+    logger.error('Erro ao buscar configurações das instâncias:', error);
+    return report;
+  }
+
+  for (const instance of (configs || []) as UazapiConfiguration[]) {
+    report.checked++;
+
+    const service = new UazapiService(instance.uazapi_url, instance.admin_token);
+    const remote = await service.getInstanceStatus(instance.instance_name);
+
+    if (!remote) {
+      report.unreachable++;
+      continue;
+    }
+
+    const status = toConnectionStatus(remote.status);
+    if (status === instance.status) {
+      continue;
+    }
+
+    const { error: updateError } = await supabase
+      .from('uazapi_configurations')
+      .update({
+        status,
+        qr_code: status === 'connected' ? null : remote.qrcode || null,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', instance.id);
+
+    if (updateError) {
+      logger.error('Erro ao atualizar status da instância:', updateError);
+      continue;
+    }
+
+    report.changed++;
+    outboundGateway.invalidate({ instanceName: instance.instance_name });
+    await recordStatusChange(instance, instance.status, status, 'health_check');
+
+    logger.info('Status da instância atualizado:', {
+      instanceName: instance.instance_name,
+      previousStatus: instance.status,
+      status
+    });
+  }
+
+  return report;
+};
+
+// Função para iniciar a verificação periódica (apenas no servidor)
+const startHealthChecks = (): void => {
+  setInterval(async () => {
+    await checkAllInstances();
+  }, config.alerts.healthCheckIntervalMs);
+
+  logger.info('Verificação periódica das instâncias iniciada', {
+    intervalMs: config.alerts.healthCheckIntervalMs
+  });
+};
+
+export const instanceHealthService = {
+  toConnectionStatus,
+  createQrLink,
+  verifyQrLink,
+  recordStatusChange,
+  checkAllInstances,
+  startHealthChecks
+};
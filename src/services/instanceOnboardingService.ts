@@ -0,0 +1,347 @@
+import { supabase, UazapiConfiguration } from '../config/supabase';
+import { config } from '../config/env';
+import { logger } from '../utils/logger';
+import { UazapiService } from './uazapiService';
+import { outboundGateway } from './outboundGateway';
+import { promptService } from './promptService';
+import { webhookSecretService } from './webhookSecretService';
+import { instanceHealthService } from './instanceHealthService';
+
+// Dados da instância expostos pela API (sem tokens nem segredos)
+export type InstanceView = Pick<
+  UazapiConfiguration,
+  'id' | 'establishment_id' | 'instance_name' | 'status' | 'created_at' | 'updated_at'
+> & {
+  webhook_url: string | null;
+  whatsapp_number: string | null;
+  qr_code: string | null;
+};
+
+export type OnboardingFailure = 'not_found' | 'conflict' | 'not_configured' | 'provider_error' | 'internal';
+
+export type OnboardingResult<T> =
+  | { success: true; data: T }
+  | { success: false; reason: OnboardingFailure; error: string };
+
+export interface CreateInstanceInput {
+  establishmentId: string;
+  instanceName?: string | undefined;
+  whatsappNumber?: string | undefined;
+}
+
+export interface CreatedInstance {
+  instance: InstanceView;
+  // Exibido uma única vez: a UazAPI precisa dele para assinar as entregas do webhook
+  webhookSecret: string;
+}
+
+// Função para montar o resultado de uma operação que falhou
+const fail = <T>(reason: OnboardingFailure, error: string): OnboardingResult<T> => {
+  return { success: false, reason, error };
+};
+
+// Função para montar a visão pública da instância
+const toView = (instance: UazapiConfiguration): InstanceView => {
+  return {
+    id: instance.id,
+    establishment_id: instance.establishment_id,
+    instance_name: instance.instance_name,
+    status: instance.status,
+    webhook_url: instance.webhook_url || null,
+    whatsapp_number: instance.whatsapp_number || null,
+    qr_code: instance.qr_code || null,
+    created_at: instance.created_at,
+    updated_at: instance.updated_at
+  };
+};
+
+// Função para extrair o token da instância criada (o formato varia entre versões da UazAPI)
+const extractInstanceToken = (data: any): string | undefined => {
+  return data?.token || data?.hash?.apikey || data?.instance?.token || data?.hash || undefined;
+};
+
+// Função para extrair o QR code de pareamento da resposta de conexão
+const extractQrCode = (data: any): string | undefined => {
+  return data?.base64 || data?.qrcode?.base64 || data?.qrcode || data?.code || undefined;
+};
+
+// Função para buscar a instância do estabelecimento
+const findInstance = async (establishmentId: string): Promise<UazapiConfiguration | null> => {
+  const { data, error } = await supabase
+    .from('uazapi_configurations')
+    .select('*')
+    .eq('establishment_id', establishmentId)
+    .maybeSingle();
+
+  if (error) {
+    logger.error('Erro ao buscar instância do estabelecimento:', error);
+    throw error;
+  }
+
+  return data as UazapiConfiguration | null;
+};
+
+// Função para atualizar a instância e devolver a versão salva
+const updateInstance = async (
+  instance: UazapiConfiguration,
+  updates: Record<string, any>
+): Promise<UazapiConfiguration> => {
+  const { data, error } = await supabase
+    .from('uazapi_configurations')
+    .update({
+      ...updates,
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', instance.id)
+    .select('*')
+    .single();
+
+  if (error) {
+    logger.error('Erro ao atualizar instância:', error);
+    throw error;
+  }
+
+  return data as UazapiConfiguration;
+};
+
+// Função para solicitar um QR code de pareamento e salvá-lo na instância
+const requestPairing = async (
+  instance: UazapiConfiguration
+): Promise<OnboardingResult<InstanceView>> => {
+  const service = new UazapiService(instance.uazapi_url, instance.admin_token);
+  const result = await service.connectInstance(instance.instance_name);
+
+  if (!result.success) {
+    return fail('provider_error', result.error || 'Falha ao solicitar QR code');
+  }
+
+  // O QR code também chega pelo evento qrcode.updated; aqui guardamos o primeiro
+  const updated = await updateInstance(instance, {
+    status: 'connecting',
+    qr_code: extractQrCode(result.data) || null
+  });
+
+  return { success: true, data: toView(updated) };
+};
+
+// Função para criar a instância na UazAPI, salvar a configuração e iniciar o pareamento
+const createInstance = async (input: CreateInstanceInput): Promise<OnboardingResult<CreatedInstance>> => {
+  try {
+    if (!config.uazapi.baseUrl || !config.uazapi.adminToken || !config.webhook.url) {
+      return fail('not_configured', 'UAZAPI_BASE_URL, UAZAPI_ADMIN_TOKEN e WEBHOOK_URL são obrigatórias');
+    }
+
+    const establishment = await promptService.getEstablishment(input.establishmentId);
+    if (!establishment) {
+      return fail('not_found', 'Estabelecimento não encontrado');
+    }
+
+    if (await findInstance(input.establishmentId)) {
+      return fail('conflict', 'Estabelecimento já possui instância');
+    }
+
+    const instanceName = input.instanceName || `agenteia-${input.establishmentId.slice(0, 8)}`;
+    const service = new UazapiService(config.uazapi.baseUrl, config.uazapi.adminToken);
+    const created = await service.createInstance(instanceName, config.webhook.url);
+
+    if (!created.success) {
+      return fail('provider_error', created.error || 'Falha ao criar instância');
+    }
+
+    const instanceToken = extractInstanceToken(created.data);
+    if (!instanceToken) {
+      logger.error('Instância criada sem token na resposta da UazAPI:', { instanceName });
+      await service.deleteInstance(instanceName);
+      return fail('provider_error', 'UazAPI não retornou o token da instância');
+    }
+
+    const webhookSecret = webhookSecretService.generateSecret();
+    const { data, error } = await supabase
+      .from('uazapi_configurations')
+      .insert({
+        establishment_id: input.establishmentId,
+        uazapi_url: config.uazapi.baseUrl,
+        admin_token: config.uazapi.adminToken,
+        instance_name: instanceName,
+        instance_token: instanceToken,
+        whatsapp_number: input.whatsappNumber || null,
+        webhook_url: config.webhook.url,
+        webhook_secret: webhookSecret,
+        status: 'connecting',
+        ai_enabled: true,
+        auto_reply_enabled: true,
+        message_templates: {},
+        automation_settings: {}
+      })
+      .select('*')
+      .single();
+
+    if (error) {
+      // Não deixar instância órfã na UazAPI
+      await service.deleteInstance(instanceName);
+
+      if (error.code === '23505') { // unique violation
+        return fail('conflict', 'Nome de instância ou estabelecimento já em uso');
+      }
+
+      logger.error('Erro ao salvar instância criada:', error);
+      return fail('internal', 'Erro interno ao salvar instância');
+    }
+
+    logger.info('Instância criada para o estabelecimento:', {
+      establishmentId: input.establishmentId,
+      instanceName
+    });
+
+    const paired = await requestPairing(data as UazapiConfiguration);
+    const instance = paired.success ? paired.data : toView(data as UazapiConfiguration);
+
+    return { success: true, data: { instance, webhookSecret } };
+
+  } catch (error) {
+    logger.error('Erro no cadastro da instância:', error);
+    return fail('internal', 'Erro interno');
+  }
+};
+
+// Função para consultar a instância, opcionalmente conferindo o estado na UazAPI
+const getInstance = async (
+  establishmentId: string,
+  refresh: boolean = false
+): Promise<OnboardingResult<InstanceView>> => {
+  try {
+    const instance = await findInstance(establishmentId);
+    if (!instance) {
+      return fail('not_found', 'Instância não encontrada');
+    }
+
+    if (!refresh) {
+      return { success: true, data: toView(instance) };
+    }
+
+    // Alternativa ao evento connection.update quando o webhook ainda não está ativo
+    const service = new UazapiService(instance.uazapi_url, instance.admin_token);
+    const status = await service.getInstanceStatus(instance.instance_name);
+    if (!status) {
+      return { success: true, data: toView(instance) };
+    }
+
+    const newStatus = instanceHealthService.toConnectionStatus(status.status);
+
+    const updated = await updateInstance(instance, {
+      status: newStatus,
+      qr_code: newStatus === 'connected' ? null : status.qrcode || instance.qr_code || null
+    });
+
+    if (newStatus !== instance.status) {
+      outboundGateway.invalidate({ establishmentId });
+      await instanceHealthService.recordStatusChange(instance, instance.status, newStatus, 'health_check');
+    }
+
+    return { success: true, data: toView(updated) };
+
+  } catch (error) {
+    logger.error('Erro ao consultar instância:', error);
+    return fail('internal', 'Erro interno');
+  }
+};
+
+// Função para parear novamente (novo QR code)
+const reconnect = async (establishmentId: string): Promise<OnboardingResult<InstanceView>> => {
+  try {
+    const instance = await findInstance(establishmentId);
+    if (!instance) {
+      return fail('not_found', 'Instância não encontrada');
+    }
+
+    if (instance.status === 'connected') {
+      return fail('conflict', 'Instância já está conectada; desconecte antes de parear novamente');
+    }
+
+    return await requestPairing(instance);
+
+  } catch (error) {
+    logger.error('Erro ao parear instância novamente:', error);
+    return fail('internal', 'Erro interno');
+  }
+};
+
+// Função para desconectar o WhatsApp da instância
+const disconnect = async (establishmentId: string): Promise<OnboardingResult<InstanceView>> => {
+  try {
+    const instance = await findInstance(establishmentId);
+    if (!instance) {
+      return fail('not_found', 'Instância não encontrada');
+    }
+
+    const service = new UazapiService(instance.uazapi_url, instance.admin_token);
+    const result = await service.logoutInstance(instance.instance_name);
+
+    if (!result.success) {
+      return fail('provider_error', result.error || 'Falha ao desconectar instância');
+    }
+
+    const updated = await updateInstance(instance, { status: 'disconnected', qr_code: null });
+    outboundGateway.invalidate({ establishmentId });
+    await instanceHealthService.recordStatusChange(instance, instance.status, 'disconnected', 'operator');
+
+    logger.info('Instância desconectada pelo operador:', {
+      establishmentId,
+      instanceName: instance.instance_name
+    });
+
+    return { success: true, data: toView(updated) };
+
+  } catch (error) {
+    logger.error('Erro ao desconectar instância:', error);
+    return fail('internal', 'Erro interno');
+  }
+};
+
+// Função para remover a instância da UazAPI e a configuração do estabelecimento
+const removeInstance = async (establishmentId: string): Promise<OnboardingResult<{ instanceName: string }>> => {
+  try {
+    const instance = await findInstance(establishmentId);
+    if (!instance) {
+      return fail('not_found', 'Instância não encontrada');
+    }
+
+    const service = new UazapiService(instance.uazapi_url, instance.admin_token);
+    const result = await service.deleteInstance(instance.instance_name);
+
+    if (!result.success) {
+      return fail('provider_error', result.error || 'Falha ao remover instância');
+    }
+
+    const { error } = await supabase
+      .from('uazapi_configurations')
+      .delete()
+      .eq('id', instance.id);
+
+    if (error) {
+      logger.error('Erro ao remover configuração da instância:', error);
+      return fail('internal', 'Erro interno ao remover configuração');
+    }
+
+    outboundGateway.invalidate({ establishmentId });
+
+    logger.info('Instância removida pelo operador:', {
+      establishmentId,
+      instanceName: instance.instance_name
+    });
+
+    return { success: true, data: { instanceName: instance.instance_name } };
+
+  } catch (error) {
+    logger.error('Erro ao remover instância:', error);
+    return fail('internal', 'Erro interno');
+  }
+};
+
+export const instanceOnboardingService = {
+  createInstance,
+  getInstance,
+  reconnect,
+  disconnect,
+  removeInstance
+};
@@ -1,22 +1,27 @@
-import { generateAIResponse, ChatMessage } from '@/config/openai';
-import { logger } from '@/utils/logger';
-import { ConversationContext } from '@/services/contextService';
+import { generateAIResponse, ChatMessage } from '../config/openai';
+import { supabase } from '../config/supabase';
+import { logger } from '../utils/logger';
+import { ConversationContext } from './contextService';
+import { usageService } from './usageService';
 
 // Tipos de intenção suportados
-export type IntentType = 
-  | 'greeting'
-  | 'scheduling'
-  | 'reschedule'
-  | 'cancel'
-  | 'services_info'
-  | 'prices_info'
-  | 'availability'
-  | 'confirmation'
-  | 'complaint'
-  | 'compliment'
-  | 'farewell'
-  | 'help'
-  | 'other';
+export const INTENT_TYPES = [
+  'greeting',
+  'scheduling',
+  'reschedule',
+  'cancel',
+  'services_info',
+  'prices_info',
+  'availability',
+  'confirmation',
+  'complaint',
+  'compliment',
+  'farewell',
+  'help',
+  'other'
+] as const;
+
+export type IntentType = typeof INTENT_TYPES[number];
 
 // Interface para resultado de análise de intenção
 export interface IntentAnalysis {
@@ -197,6 +202,15 @@ const detectIntent = async (
       return keywordResult.intent;
     }
 
+    // Estabelecimento sem orçamento de IA fica só com as palavras-chave
+    if (context && !(await usageService.canUseAI(context.establishment_id))) {
+      logger.debug('Orçamento de IA esgotado, usando intenção por palavras-chave:', {
+        establishmentId: context.establishment_id,
+        intent: keywordResult.intent
+      });
+      return keywordResult.intent;
+    }
+
     // Caso contrário, usar IA para análise mais precisa
     const aiAnalysis = await analyzeIntent(message, keywordResult.intent, context);
     
@@ -246,6 +260,15 @@ Mensagem do cliente: "${message}"`;
       temperature: 0.1
     });
 
+    if (context) {
+      await usageService.recordUsage(context.establishment_id, {
+        kind: 'intent',
+        model: response.model,
+        promptTokens: response.tokensUsed.prompt,
+        completionTokens: response.tokensUsed.completion
+      });
+    }
+
     // Tentar parsear a resposta JSON
     let analysis: IntentAnalysis;
     try {
@@ -302,58 +325,46 @@ Mensagem do cliente: "${message}"`;
   }
 };
 
-// Função para obter estatísticas de intenções
+// Função para montar a contagem zerada de todas as intenções
+const emptyIntentStats = (): Record<IntentType, number> => {
+  return Object.fromEntries(INTENT_TYPES.map(intent => [intent, 0])) as Record<IntentType, number>;
+};
+
+// Função para obter estatísticas de intenções (última intenção de cada conversa do período)
 const getIntentStats = async (
-  establishmentId: string,
+  establishmentId: string | undefined,
   days: number = 7
 ): Promise<Record<IntentType, number>> => {
   try {
-    const startDate = new Date();
-    startDate.setDate(startDate.getDate() - days);
-
-    // Esta função seria implementada consultando o banco de dados
-    // Por enquanto, retornamos um objeto vazio
-    const stats: Record<IntentType, number> = {
-      greeting: 0,
-      scheduling: 0,
-      reschedule: 0,
-      cancel: 0,
-      services_info: 0,
-      prices_info: 0,
-      availability: 0,
-      confirmation: 0,
-      complaint: 0,
-      compliment: 0,
-      farewell: 0,
-      help: 0,
-      other: 0
-    };
+    const startDate = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
 
-    // TODO: Implementar consulta real ao banco de dados
-    // const { data, error } = await supabase
-    //   .from('whatsapp_messages')
-    //   .select('metadata')
-    //   .eq('establishment_id', establishmentId)
-    //   .gte('created_at', startDate.toISOString());
+    let query = supabase
+      .from('conversation_contexts')
+      .select('intent')
+      .gte('last_interaction', startDate.toISOString());
+
+    // Sem estabelecimento, a distribuição considera todos
+    if (establishmentId) {
+      query = query.eq('establishment_id', establishmentId);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      logger.error('Erro ao buscar estatísticas de intenções:', error);
+      return emptyIntentStats();
+    }
+
+    const stats = emptyIntentStats();
+    for (const row of data || []) {
+      const intent = (INTENT_TYPES as readonly string[]).includes(row.intent) ? row.intent as IntentType : 'other';
+      stats[intent]++;
+    }
 
     return stats;
   } catch (error) {
     logger.error('Erro ao buscar estatísticas de intenções:', error);
-    return {
-      greeting: 0,
-      scheduling: 0,
-      reschedule: 0,
-      cancel: 0,
-      services_info: 0,
-      prices_info: 0,
-      availability: 0,
-      confirmation: 0,
-      complaint: 0,
-      compliment: 0,
-      farewell: 0,
-      help: 0,
-      other: 0
-    };
+    return emptyIntentStats();
   }
 };
 
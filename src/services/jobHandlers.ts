@@ -0,0 +1,62 @@
+import { logger } from '../utils/logger';
+import { ProcessedMessage } from '../types/schemas';
+import { messageQueue } from './messageQueue';
+import { messageProcessor } from './messageProcessor';
+import { tenantContext } from './tenantContext';
+
+export const PROCESS_MESSAGE_JOB = 'process_message';
+
+export interface ProcessMessageJobPayload {
+  establishmentId: string;
+  messages: ProcessedMessage[];
+}
+
+// Chave que agrupa mensagens da mesma conversa num único job
+export const conversationGroupKey = (establishmentId: string, clientPhone: string): string => {
+  return `${establishmentId}:${clientPhone}`;
+};
+
+// Junta as mensagens de um job pendente com as recém-chegadas
+export const mergeMessagePayloads = (
+  existing: ProcessMessageJobPayload,
+  incoming: ProcessMessageJobPayload
+): ProcessMessageJobPayload => {
+  const knownIds = new Set(existing.messages.map(msg => msg.messageId));
+
+  return {
+    ...existing,
+    messages: [
+      ...existing.messages,
+      ...incoming.messages.filter(msg => !knownIds.has(msg.messageId))
+    ]
+  };
+};
+
+/**
+ * Registra os handlers de todos os tipos de job conhecidos
+ */
+export const registerJobHandlers = (): void => {
+  messageQueue.registerHandler<ProcessMessageJobPayload>(PROCESS_MESSAGE_JOB, async (payload, job) => {
+    const instanceName = payload.messages[0]?.instanceName;
+    const tenant = instanceName ? await tenantContext.resolveByInstance(instanceName) : null;
+
+    // Sem tenant não há como responder: falhar o job em vez de usar um estabelecimento padrão
+    if (!tenant || tenant.establishmentId !== payload.establishmentId) {
+      throw new Error(`Instância ${instanceName} não pertence ao estabelecimento ${payload.establishmentId}`);
+    }
+
+    const result = await tenantContext.runWithTenant(tenant, () => messageProcessor.processBurst(payload.messages));
+
+    if (!result.success) {
+      throw new Error(result.error || 'Falha no processamento da mensagem');
+    }
+
+    await messageProcessor.markAsProcessed(payload.messages.map(msg => msg.messageId));
+
+    logger.info('Mensagem processada pela fila', {
+      jobId: job.id,
+      messageIds: payload.messages.map(msg => msg.messageId),
+      attempt: job.attempts
+    });
+  });
+};
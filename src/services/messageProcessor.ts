@@ -2,48 +2,113 @@ import { supabase } from '../config/supabase';
 import { logger } from '../utils/logger';
 import { ProcessedMessage } from '../types/schemas';
 import { openaiService, ChatMessage } from './openaiService';
-import { messageService } from './messageService';
-import { contextService } from './contextService';
+import { contextService, ConversationContext } from './contextService';
 import { intentService } from './intentService';
 import { appointmentService } from './appointmentService';
 import { automaticMessageService } from './automaticMessageService';
 import { monitoringService } from './monitoringService';
+import { deduplicationService, PendingReply } from './deduplicationService';
+import { tenantContext } from './tenantContext';
+import { outboundGateway } from './outboundGateway';
+import { promptService } from './promptService';
+import { usageService } from './usageService';
+import { bookingService, BookingTurn } from './bookingService';
+import { waitlistService } from './waitlistService';
+import { HandlerReply, OutboundDialog, QuotedReference, DialogAppointmentRef, DialogSlotRef } from '../types/dialogs';
+import { IntentType } from './intentService';
 
-interface ProcessingResult {
+// Intenção implícita quando o cliente responde citando uma lista ou oferta do bot
+const DIALOG_INTENTS: Record<OutboundDialog['kind'], IntentType> = {
+  cancellation_list: 'cancel',
+  slot_offer: 'scheduling',
+  reschedule_list: 'reschedule',
+  reschedule_offer: 'reschedule',
+  waitlist_offer: 'scheduling'
+};
+
+// Intenções tratadas pelos diálogos que alteram dados (agendamento, cancelamento, remarcação, lista de espera)
+const DIALOG_HANDLED_INTENTS: IntentType[] = ['scheduling', 'cancel', 'reschedule'];
+
+// Tipos respondidos pelo bot: respostas a botões, listas e templates seguem como texto
+const CONVERSATIONAL_TYPES: ProcessedMessage['messageType'][] = ['text', 'interactive'];
+
+export interface ProcessingResult {
   success: boolean;
   response?: string;
   error?: string;
   messageId?: string | undefined;
+  dryRun?: boolean;
+  intent?: IntentType;
+}
+
+export interface ProcessingOptions {
+  // Simula o turno sem gravar, enviar nem executar os diálogos com efeitos (usado no reprocessamento)
+  dryRun?: boolean;
 }
 
 export class MessageProcessor {
-  async processMessage(message: ProcessedMessage): Promise<ProcessingResult> {
+  async processMessage(message: ProcessedMessage, options: ProcessingOptions = {}): Promise<ProcessingResult> {
+    return this.processBurst([message], options);
+  }
+
+  /**
+   * Processa mensagens consecutivas do mesmo cliente como um único turno
+   */
+  async processBurst(messages: ProcessedMessage[], options: ProcessingOptions = {}): Promise<ProcessingResult> {
     const startTime = Date.now();
+    const message = this.mergeBurst(messages);
+    // Reserva de resposta obtida nesta execução e se os handlers com efeitos (agendamento, cancelamento...) já rodaram
+    let claimed = false;
+    let effectsStarted = false;
     try {
+      // O estabelecimento vem da instância que recebeu a mensagem
+      const tenant = tenantContext.requireTenant();
+      if (tenant.instanceName !== message.instanceName) {
+        throw new Error(`Mensagem da instância ${message.instanceName} processada no contexto de ${tenant.instanceName}`);
+      }
+
       logger.info('Processando mensagem', {
+        establishmentId: tenant.establishmentId,
         from: message.clientPhone,
         messageType: message.messageType,
-        messageId: message.messageId
+        messageId: message.messageId,
+        burstSize: messages.length,
+        dryRun: options.dryRun || false
       });
 
-      // Rastrear mensagem recebida
-      await monitoringService.trackMessage(Date.now() - startTime);
-
-      // Salvar mensagem no banco
-      await this.saveMessage(message);
+      if (!options.dryRun) {
+        // Salvar mensagens no banco (individualmente, para manter o histórico fiel)
+        for (const burstMessage of messages) {
+          await this.saveMessage(burstMessage);
+        }
+      }
 
-      // Só processar mensagens de texto por enquanto
-      if (message.messageType !== 'text' || !message.messageContent) {
+      // Só processar mensagens de texto (e respostas interativas) por enquanto
+      if (!CONVERSATIONAL_TYPES.includes(message.messageType) || !message.messageContent) {
         return {
           success: true,
           response: 'Mensagem recebida. No momento, só posso responder mensagens de texto.'
         };
       }
 
+      if (options.dryRun) {
+        return await this.simulateReply(message);
+      }
+
+      // Reservar a resposta antes de qualquer efeito: uma nova tentativa do job não repete agendamentos,
+      // cancelamentos ou boas-vindas, apenas reenvia a resposta que ficou pendente
+      claimed = await deduplicationService.claimReply(message.instanceName, message.messageId);
+      if (!claimed) {
+        return await this.resendPendingReply(message, startTime);
+      }
+
       // Obter ou criar contexto da conversação
-      const context = await contextService.getOrCreateContext('default', message.clientPhone);
+      const context = await contextService.getOrCreateContext(tenant.establishmentId, message.clientPhone);
       
       if (!context) {
+        if (claimed) {
+          await deduplicationService.releaseReply(message.instanceName, message.messageId);
+        }
         return {
           success: false,
           error: 'Falha ao obter contexto da conversação'
@@ -51,14 +116,22 @@ export class MessageProcessor {
       }
       
       // Verificar se é um novo cliente (primeira interação)
-      const isNewClient = context.context_data?.messageCount === 0;
-      if (isNewClient) {
-        // Enviar mensagem de boas-vindas para novos clientes
-        await automaticMessageService.sendWelcomeMessage(message.clientPhone);
+      const isNewClient = context.context_data?.messageCount === 0 && !context.context_data?.welcomeSentAt;
+      if (isNewClient && message.chatType !== 'group') {
+        // Enviar mensagem de boas-vindas para novos clientes (não em grupos), registrando o envio para não repeti-la
+        const welcome = await automaticMessageService.sendWelcomeMessage(message.clientPhone);
+        if (welcome.success) {
+          await contextService.updateContext(context.establishment_id, context.client_phone, {
+            welcomeSentAt: new Date().toISOString()
+          });
+        }
       }
       
+      // Resolver mensagem citada (reply) contra a mensagem enviada pelo bot
+      const quoted = await this.resolveQuotedReference(message);
+
       // Detectar intenção da mensagem
-      const intent = await intentService.detectIntent(message.messageContent, context);
+      const intent = await this.resolveIntent(message, context, quoted);
       
       // Atualizar contexto com a nova intenção
       if (intent !== context.intent) {
@@ -73,70 +146,55 @@ export class MessageProcessor {
       }
 
       // Obter histórico de mensagens para contexto
-      const conversationHistory = await this.getConversationHistory(message.clientPhone);
+      const conversationHistory = await this.getConversationHistory(tenant.establishmentId, message.clientPhone);
 
       // Verificar se precisa de tratamento especial baseado na intenção
-      let responseMessage: string;
+      let reply: HandlerReply;
+      effectsStarted = DIALOG_HANDLED_INTENTS.includes(intent);
       
       if (intent === 'scheduling') {
-        responseMessage = await this.handleSchedulingIntent(message, context);
+        reply = await this.handleSchedulingIntent(message, context, quoted);
       } else if (intent === 'cancel') {
-        responseMessage = await this.handleCancellationIntent(message, context);
+        reply = await this.handleCancellationIntent(message, context, quoted);
+      } else if (intent === 'reschedule') {
+        reply = await this.handleRescheduleIntent(message, context, quoted);
+      } else if (!(await usageService.canUseAI(tenant.establishmentId))) {
+        // Orçamento de IA esgotado: resposta pronta, sem afetar os demais estabelecimentos
+        reply = { message: await promptService.buildTemplateAnswer(tenant.establishmentId, intent) };
       } else {
-        // Gerar resposta com IA para outras intenções
+        // Gerar resposta com IA para outras intenções, com o prompt do estabelecimento
+        const systemPrompt = await promptService.buildSystemPrompt(
+          tenant.establishmentId,
+          intent,
+          context,
+          tenant.instanceConfig.ai_prompt
+        );
         const aiResponse = await openaiService.generateResponse(
           message.messageContent,
           context,
-          conversationHistory
-        );
-        responseMessage = aiResponse.message;
-      }
-
-      // Enviar resposta
-      const sendResult = await messageService.sendTextMessage({
-        phone: message.clientPhone,
-        message: responseMessage
-      });
-
-      if (sendResult.success) {
-        // Salvar resposta no banco
-        await this.saveOutboundMessage(message.clientPhone, responseMessage, sendResult.messageId);
-        
-        // Atualizar contexto
-        await contextService.updateContext(
-          context.establishment_id,
-          context.client_phone,
-          {
-            lastMessage: message.messageContent,
-            lastResponse: responseMessage
-          }
+          conversationHistory,
+          systemPrompt.prompt
         );
-
-        // Rastrear mensagem enviada e performance
-        await monitoringService.trackMessage(Date.now() - startTime);
-        await monitoringService.trackPerformance('message_processing', Date.now() - startTime);
-
-        logger.info('Mensagem processada e resposta enviada', {
-          from: message.clientPhone,
-          responseMessageId: sendResult.messageId
+        await usageService.recordUsage(tenant.establishmentId, {
+          kind: 'response',
+          model: aiResponse.model,
+          promptTokens: aiResponse.promptTokens,
+          completionTokens: aiResponse.completionTokens
         });
+        reply = { message: aiResponse.message };
+      }
+      const responseMessage = reply.message;
 
-        return {
-          success: true,
-          response: responseMessage,
-          messageId: sendResult.messageId || undefined
-        };
-      } else {
-        logger.error('Falha ao enviar resposta', {
-          from: message.clientPhone,
-          error: sendResult.error
-        });
+      // Guardar a resposta antes do envio: se ele falhar, a nova tentativa apenas a reenvia
+      // (em grupos, a resposta vai para o próprio grupo)
+      const pendingReply: PendingReply = {
+        to: message.chatType === 'group' && message.chatJid ? message.chatJid : message.clientPhone,
+        message: responseMessage,
+        ...(reply.dialog ? { dialog: reply.dialog } : {})
+      };
+      await deduplicationService.saveReply(message.instanceName, message.messageId, pendingReply);
 
-        return {
-          success: false,
-          error: 'Falha ao enviar resposta'
-        };
-      }
+      return await this.deliverReply(message, pendingReply, startTime);
     } catch (error) {
       logger.error('Erro ao processar mensagem', {
         error: error instanceof Error ? error.message : 'Erro desconhecido',
@@ -150,6 +208,11 @@ export class MessageProcessor {
         messageType: message.messageType
       });
 
+      // Falhou antes dos handlers com efeitos: liberar a reserva para que a nova tentativa processe a mensagem
+      if (claimed && !effectsStarted) {
+        await deduplicationService.releaseReply(message.instanceName, message.messageId);
+      }
+
       return {
         success: false,
         error: 'Falha no processamento da mensagem'
@@ -157,17 +220,241 @@ export class MessageProcessor {
     }
   }
 
+  /**
+   * Simulação do turno (reprocessamento em dryRun): apenas leituras. Os diálogos com efeitos não são
+   * executados; para as demais intenções, devolve a resposta que seria enviada, sem registrar uso de IA
+   */
+  private async simulateReply(message: ProcessedMessage): Promise<ProcessingResult> {
+    const tenant = tenantContext.requireTenant();
+    const context = await contextService.findContext(tenant.establishmentId, message.clientPhone);
+    const quoted = await this.resolveQuotedReference(message);
+    const intent = await this.resolveIntent(message, context, quoted, true);
+
+    // Agendamento, cancelamento e remarcação ficam de fora: a resposta depende de executá-los
+    let response: string | undefined;
+    if (!DIALOG_HANDLED_INTENTS.includes(intent)) {
+      if (!(await usageService.canUseAI(tenant.establishmentId))) {
+        response = await promptService.buildTemplateAnswer(tenant.establishmentId, intent);
+      } else {
+        const [systemPrompt, conversationHistory] = await Promise.all([
+          promptService.buildSystemPrompt(tenant.establishmentId, intent, context, tenant.instanceConfig.ai_prompt),
+          this.getConversationHistory(tenant.establishmentId, message.clientPhone)
+        ]);
+        const aiResponse = await openaiService.generateResponse(
+          message.messageContent,
+          context || undefined,
+          conversationHistory,
+          systemPrompt.prompt
+        );
+        response = aiResponse.message;
+      }
+    }
+
+    logger.info('Simulação: resposta que seria enviada', {
+      to: message.clientPhone,
+      messageId: message.messageId,
+      intent,
+      response
+    });
+
+    return {
+      success: true,
+      ...(response ? { response } : {}),
+      messageId: message.messageId,
+      dryRun: true,
+      intent
+    };
+  }
+
+  /**
+   * Intenção do turno: uma citação de lista/oferta ou um diálogo em andamento define a intenção.
+   * Na simulação, só palavras-chave (sem chamada de IA nem registro de uso)
+   */
+  private async resolveIntent(
+    message: ProcessedMessage,
+    context: ConversationContext | null,
+    quoted: QuotedReference | undefined,
+    dryRun: boolean = false
+  ): Promise<IntentType> {
+    if (quoted?.dialog) {
+      return DIALOG_INTENTS[quoted.dialog.kind];
+    }
+
+    if (context && this.getWaitlistAnswerOffer(message, context, quoted)) {
+      return 'scheduling';
+    }
+
+    if (bookingService.isActive(context?.context_data?.reschedule)) {
+      return 'reschedule';
+    }
+
+    if (bookingService.isActive(context?.context_data?.booking)) {
+      return 'scheduling';
+    }
+
+    return dryRun
+      ? intentService.detectIntentByKeywords(message.messageContent).intent
+      : intentService.detectIntent(message.messageContent, context);
+  }
+
+  /**
+   * Envia a resposta guardada e registra o envio
+   */
+  private async deliverReply(
+    message: ProcessedMessage,
+    reply: PendingReply,
+    startTime: number
+  ): Promise<ProcessingResult> {
+    const tenant = tenantContext.requireTenant();
+    const sendResult = await outboundGateway.sendText({
+      to: reply.to,
+      message: reply.message,
+      instance: { instanceName: tenant.instanceName }
+    });
+
+    if (!sendResult.success) {
+      // A reserva continua valendo: a nova tentativa reenvia esta mesma resposta
+      logger.error('Falha ao enviar resposta', {
+        from: message.clientPhone,
+        error: sendResult.error
+      });
+
+      return {
+        success: false,
+        error: 'Falha ao enviar resposta'
+      };
+    }
+
+    await deduplicationService.markReplySent(message.instanceName, message.messageId);
+
+    // Salvar resposta no banco
+    await this.saveOutboundMessage(message.clientPhone, reply.message, sendResult.messageId, reply.dialog);
+
+    // Atualizar contexto
+    await contextService.updateContext(
+      tenant.establishmentId,
+      message.clientPhone,
+      {
+        lastMessage: message.messageContent,
+        lastResponse: reply.message
+      }
+    );
+
+    // Rastrear tempo de processamento (base do tempo de resposta do estabelecimento)
+    await monitoringService.trackPerformance('message_processing', Date.now() - startTime);
+
+    logger.info('Mensagem processada e resposta enviada', {
+      from: message.clientPhone,
+      responseMessageId: sendResult.messageId
+    });
+
+    return {
+      success: true,
+      response: reply.message,
+      messageId: sendResult.messageId || undefined
+    };
+  }
+
+  /**
+   * Mensagem já reservada por outra execução: reenviar a resposta pendente, se o envio anterior falhou
+   */
+  private async resendPendingReply(message: ProcessedMessage, startTime: number): Promise<ProcessingResult> {
+    const delivery = await deduplicationService.getDelivery(message.instanceName, message.messageId);
+
+    if (delivery?.reply && !delivery.reply_sent_at) {
+      logger.info('Reenviando resposta pendente', {
+        from: message.clientPhone,
+        messageId: message.messageId
+      });
+      return this.deliverReply(message, delivery.reply, startTime);
+    }
+
+    logger.info('Resposta já enviada para esta mensagem, ignorando', {
+      from: message.clientPhone,
+      messageId: message.messageId
+    });
+
+    return {
+      success: true,
+      messageId: message.messageId
+    };
+  }
+
+  /**
+   * Marca as mensagens recebidas (whatsapp_messages) como processadas
+   */
+  async markAsProcessed(messageIds: string[]): Promise<void> {
+    if (messageIds.length === 0) {
+      return;
+    }
+
+    const { error } = await supabase
+      .from('whatsapp_messages')
+      .update({ processed: true })
+      .in('message_id', messageIds);
+
+    if (error) {
+      logger.error('Erro ao marcar mensagens como processadas', {
+        error: error.message,
+        messageIds
+      });
+    }
+  }
+
+  /**
+   * Junta uma rajada de mensagens em uma só, na ordem em que foram enviadas
+   */
+  private mergeBurst(messages: ProcessedMessage[]): ProcessedMessage {
+    const ordered = [...messages].sort((a, b) => a.timestamp - b.timestamp);
+    const last = ordered[ordered.length - 1];
+
+    if (!last) {
+      throw new Error('Nenhuma mensagem para processar');
+    }
+
+    if (ordered.length === 1) {
+      return last;
+    }
+
+    const textMessages = ordered.filter(msg => CONVERSATIONAL_TYPES.includes(msg.messageType) && msg.messageContent);
+    const merged = textMessages.length > 0 ? textMessages : ordered;
+
+    return {
+      ...last,
+      messageType: textMessages.length > 0 ? 'text' : last.messageType,
+      messageContent: merged.map(msg => msg.messageContent).join('\n'),
+      metadata: {
+        ...last.metadata,
+        burstMessageIds: ordered.map(msg => msg.messageId)
+      }
+    };
+  }
+
   private async saveMessage(message: ProcessedMessage): Promise<void> {
     try {
+      // Evitar duplicidade quando a fila reprocessa a mesma mensagem
+      const { data: existing } = await supabase
+        .from('messages')
+        .select('id')
+        .eq('external_message_id', message.messageId)
+        .eq('direction', 'inbound')
+        .limit(1);
+
+      if (existing && existing.length > 0) {
+        return;
+      }
+
       const { error } = await supabase
         .from('messages')
         .insert({
+          establishment_id: tenantContext.requireTenant().establishmentId,
           phone_number: message.clientPhone,
           message_content: message.messageContent,
           message_type: message.messageType,
           timestamp: new Date().toISOString(),
           webhook_data: message,
-          direction: 'inbound'
+          direction: 'inbound',
+          external_message_id: message.messageId
         });
 
       if (error) {
@@ -187,17 +474,24 @@ export class MessageProcessor {
     }
   }
 
-  private async saveOutboundMessage(phone: string, content: string, messageId?: string): Promise<void> {
+  private async saveOutboundMessage(
+    phone: string,
+    content: string,
+    messageId?: string,
+    dialog?: OutboundDialog
+  ): Promise<void> {
     try {
       const { error } = await supabase
         .from('messages')
         .insert({
+          establishment_id: tenantContext.requireTenant().establishmentId,
           phone_number: phone,
           message_content: content,
           message_type: 'text',
           timestamp: new Date().toISOString(),
           direction: 'outbound',
-          external_message_id: messageId
+          external_message_id: messageId,
+          dialog_data: dialog || null
         });
 
       if (error) {
@@ -216,11 +510,57 @@ export class MessageProcessor {
     }
   }
 
-  private async getConversationHistory(phone: string, limit: number = 10): Promise<ChatMessage[]> {
+  /**
+   * Vincula a mensagem citada pelo cliente à mensagem enviada pelo bot e à lista/oferta que ela continha
+   */
+  private async resolveQuotedReference(message: ProcessedMessage): Promise<QuotedReference | undefined> {
+    const quoted = message.metadata?.quotedMessage as QuotedReference | undefined;
+    if (!quoted?.messageId) {
+      return undefined;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('messages')
+        .select('id, dialog_data')
+        .eq('establishment_id', tenantContext.requireTenant().establishmentId)
+        .eq('external_message_id', quoted.messageId)
+        .eq('direction', 'outbound')
+        .limit(1);
+
+      if (error) {
+        throw error;
+      }
+
+      const outbound = data?.[0];
+      if (!outbound) {
+        return quoted;
+      }
+
+      return {
+        ...quoted,
+        outboundMessageId: outbound.id,
+        ...(outbound.dialog_data ? { dialog: outbound.dialog_data as OutboundDialog } : {})
+      };
+    } catch (error) {
+      logger.error('Erro ao resolver mensagem citada', {
+        error: error instanceof Error ? error.message : 'Erro desconhecido',
+        quotedMessageId: quoted.messageId
+      });
+      return quoted;
+    }
+  }
+
+  private async getConversationHistory(
+    establishmentId: string,
+    phone: string,
+    limit: number = 10
+  ): Promise<ChatMessage[]> {
     try {
       const { data, error } = await supabase
         .from('messages')
         .select('message_content, direction, timestamp')
+        .eq('establishment_id', establishmentId)
         .eq('phone_number', phone)
         .order('timestamp', { ascending: false })
         .limit(limit);
@@ -271,20 +611,47 @@ export class MessageProcessor {
     return results;
   }
 
-  private async handleSchedulingIntent(message: ProcessedMessage, context: any): Promise<string> {
+  private async handleSchedulingIntent(
+    message: ProcessedMessage,
+    context: any,
+    quoted?: QuotedReference
+  ): Promise<HandlerReply> {
     try {
       const messageText = message.messageContent?.toLowerCase() || '';
+
+      // Cliente respondeu citando uma oferta de horários
+      if (quoted?.dialog?.kind === 'slot_offer') {
+        return await this.handleQuotedSlotOffer(message, context, quoted.dialog.slots);
+      }
+
+      // Resposta a um horário oferecido pela lista de espera
+      const waitlistOfferId = this.getWaitlistAnswerOffer(message, context, quoted);
+      if (waitlistOfferId) {
+        return {
+          message: await waitlistService.respondToOffer(
+            context.establishment_id,
+            message.clientPhone,
+            waitlistOfferId,
+            bookingService.readConfirmation(message.messageContent)!
+          )
+        };
+      }
+
+      // Agendamento em andamento ou pedido para marcar: coletar serviço, profissional, data e horário
+      if (bookingService.isActive(context.context_data?.booking) || bookingService.isBookingRequest(messageText)) {
+        return await bookingService.handleTurn(this.toBookingTurn(message, context), context.context_data?.booking);
+      }
       
       // Verificar se é uma consulta de horários disponíveis
       if (messageText.includes('horário') || messageText.includes('disponível') || messageText.includes('vago')) {
         const availableSlots = await appointmentService.getAvailableSlots(
-          process.env.DEFAULT_ESTABLISHMENT_ID || '',
+          context.establishment_id,
           undefined, // data atual
           undefined  // todos os profissionais
         );
         
         if (availableSlots.length === 0) {
-          return 'Não há horários disponíveis para hoje. Gostaria de verificar outro dia?';
+          return { message: 'Não há horários disponíveis para hoje. Gostaria de verificar outro dia?' };
         }
         
         // Agrupar por profissional
@@ -307,19 +674,38 @@ export class MessageProcessor {
         response += '• Profissional desejado\n';
         response += '• Horário preferido\n';
         response += '• Serviço desejado';
+
+        // As respostas seguintes continuam o agendamento para hoje
+        await bookingService.startDraft(this.toBookingTurn(message, context), availableSlots[0]!.date);
+
+        // Guardar exatamente os horários exibidos, para resolver replies a esta oferta
+        const offeredSlots: DialogSlotRef[] = [];
+        const shownPerProfessional: Record<string, number> = {};
+        for (const slot of availableSlots) {
+          const shown = shownPerProfessional[slot.professional_id] || 0;
+          if (shown < 6) {
+            offeredSlots.push({
+              date: slot.date,
+              time: slot.time,
+              professional_id: slot.professional_id,
+              professional_name: slot.professional_name
+            });
+            shownPerProfessional[slot.professional_id] = shown + 1;
+          }
+        }
         
-        return response;
+        return { message: response, dialog: { kind: 'slot_offer', slots: offeredSlots } };
       }
       
       // Verificar se é uma consulta de agendamentos existentes
       if (messageText.includes('meus agendamentos') || messageText.includes('consultar') || messageText.includes('ver agendamento')) {
         const appointments = await appointmentService.getClientAppointmentsByPhone(
           message.clientPhone,
-          process.env.DEFAULT_ESTABLISHMENT_ID || ''
+          context.establishment_id
         );
         
         if (appointments.length === 0) {
-          return 'Você não possui agendamentos. Gostaria de fazer um novo agendamento?';
+          return { message: 'Você não possui agendamentos. Gostaria de fazer um novo agendamento?' };
         }
         
         let response = '📋 *Seus agendamentos:*\n\n';
@@ -339,14 +725,14 @@ export class MessageProcessor {
           response += `... e mais ${appointments.length - 5} agendamento(s)`;
         }
         
-        return response;
+        return { message: response };
       }
       
       // Verificar se é um cancelamento
       if (messageText.includes('cancelar') || messageText.includes('desmarcar')) {
         const appointments = await appointmentService.getClientAppointmentsByPhone(
           message.clientPhone,
-          process.env.DEFAULT_ESTABLISHMENT_ID || ''
+          context.establishment_id
         );
         
         const futureAppointments = appointments.filter(apt => 
@@ -354,7 +740,7 @@ export class MessageProcessor {
         );
         
         if (futureAppointments.length === 0) {
-          return 'Você não possui agendamentos que possam ser cancelados.';
+          return { message: 'Você não possui agendamentos que possam ser cancelados.' };
         }
         
         let response = '❌ *Cancelar agendamento:*\n\n';
@@ -378,7 +764,10 @@ export class MessageProcessor {
            cancellableAppointments: futureAppointments.slice(0, 3)
          });
         
-        return response;
+        return {
+          message: response,
+          dialog: { kind: 'cancellation_list', appointments: futureAppointments.slice(0, 3).map(this.toDialogAppointment) }
+        };
       }
       
       // Verificar se é uma confirmação
@@ -386,13 +775,13 @@ export class MessageProcessor {
         // Buscar agendamentos pendentes de confirmação
         const appointments = await appointmentService.getClientAppointmentsByPhone(
           message.clientPhone,
-          process.env.DEFAULT_ESTABLISHMENT_ID || ''
+          context.establishment_id
         );
         
         const pendingAppointments = appointments.filter(apt => apt.status === 'scheduled');
         
         if (pendingAppointments.length === 0) {
-          return 'Não há agendamentos pendentes de confirmação.';
+          return { message: 'Não há agendamentos pendentes de confirmação.' };
         }
         
         // Confirmar o primeiro agendamento pendente
@@ -410,34 +799,43 @@ export class MessageProcessor {
             logger.error('Erro ao agendar lembrete automático:', error);
           }
           
-          return `✅ *Agendamento confirmado!*\n\n📅 ${date} às ${time}\n👨‍💼 ${appointment.professionals.name}\n💼 ${appointment.services.name}\n\nObrigado! Nos vemos em breve! 😊`;
+          return { message: `✅ *Agendamento confirmado!*\n\n📅 ${date} às ${time}\n👨‍💼 ${appointment.professionals.name}\n💼 ${appointment.services.name}\n\nObrigado! Nos vemos em breve! 😊` };
         } else {
-          return 'Erro ao confirmar agendamento. Tente novamente ou entre em contato conosco.';
+          return { message: 'Erro ao confirmar agendamento. Tente novamente ou entre em contato conosco.' };
         }
       }
       
       // Resposta padrão para intenção de agendamento
-      return '📅 *Agendamentos*\n\nEu posso ajudar você com:\n\n• 🔍 Consultar horários disponíveis\n• 📋 Ver seus agendamentos\n• ✅ Confirmar agendamentos\n• ❌ Cancelar agendamentos\n\nO que você gostaria de fazer?';
+      return { message: '📅 *Agendamentos*\n\nEu posso ajudar você com:\n\n• 📅 Fazer um agendamento\n• 🔍 Consultar horários disponíveis\n• 📋 Ver seus agendamentos\n• ✅ Confirmar agendamentos\n• ❌ Cancelar agendamentos\n\nO que você gostaria de fazer?' };
       
     } catch (error) {
       logger.error('Erro ao processar intenção de agendamento:', error);
-      return 'Desculpe, ocorreu um erro ao processar sua solicitação de agendamento. Tente novamente.';
+      return { message: 'Desculpe, ocorreu um erro ao processar sua solicitação de agendamento. Tente novamente.' };
     }
   }
 
-  private async handleCancellationIntent(message: ProcessedMessage, context: any): Promise<string> {
+  private async handleCancellationIntent(
+    message: ProcessedMessage,
+    context: any,
+    quoted?: QuotedReference
+  ): Promise<HandlerReply> {
     try {
       const messageText = message.messageContent?.toLowerCase() || '';
+
+      // A lista citada pelo cliente tem prioridade sobre a última lista enviada
+      const pendingList: DialogAppointmentRef[] | undefined = quoted?.dialog?.kind === 'cancellation_list'
+        ? quoted.dialog.appointments
+        : context.context_data?.awaitingCancellation ? context.context_data.cancellableAppointments : undefined;
       
       // Verificar se o usuário está respondendo a uma solicitação de cancelamento
-      if (context.awaitingCancellation && context.cancellableAppointments) {
+      if (pendingList && pendingList.length > 0) {
         const choice = parseInt(messageText.trim());
         
-        if (isNaN(choice) || choice < 1 || choice > context.cancellableAppointments.length) {
-          return 'Por favor, responda com o número do agendamento que deseja cancelar.';
+        if (isNaN(choice) || choice < 1 || choice > pendingList.length) {
+          return { message: 'Por favor, responda com o número do agendamento que deseja cancelar.' };
         }
         
-        const appointmentToCancel = context.cancellableAppointments[choice - 1];
+        const appointmentToCancel = pendingList[choice - 1]!;
         const result = await appointmentService.cancelAppointment(appointmentToCancel.id);
         
         // Limpar contexto
@@ -450,16 +848,18 @@ export class MessageProcessor {
           const date = appointmentService.formatDateForDisplay(appointmentToCancel.appointment_date);
           const time = appointmentService.formatTimeForDisplay(appointmentToCancel.appointment_time);
           
-          return `❌ *Agendamento cancelado*\n\n📅 ${date} às ${time}\n👨‍💼 ${appointmentToCancel.professionals.name}\n💼 ${appointmentToCancel.services.name}\n\nSeu agendamento foi cancelado com sucesso.`;
+          return { message: `❌ *Agendamento cancelado*\n\n📅 ${date} às ${time}\n👨‍💼 ${appointmentToCancel.professionals.name}\n💼 ${appointmentToCancel.services.name}\n\nSeu agendamento foi cancelado com sucesso.` };
+        } else if (result.error === 'Agendamento não pode ser cancelado') {
+          return { message: 'Esse agendamento já foi cancelado ou não está mais ativo.' };
         } else {
-          return 'Erro ao cancelar agendamento. Tente novamente ou entre em contato conosco.';
+          return { message: 'Erro ao cancelar agendamento. Tente novamente ou entre em contato conosco.' };
         }
       }
       
       // Buscar agendamentos que podem ser cancelados
       const appointments = await appointmentService.getClientAppointmentsByPhone(
         message.clientPhone,
-        process.env.DEFAULT_ESTABLISHMENT_ID || ''
+        context.establishment_id
       );
       
       const cancellableAppointments = appointments.filter(apt => 
@@ -467,7 +867,7 @@ export class MessageProcessor {
       );
       
       if (cancellableAppointments.length === 0) {
-        return 'Você não possui agendamentos que possam ser cancelados.';
+        return { message: 'Você não possui agendamentos que possam ser cancelados.' };
       }
       
       let response = '❌ *Cancelar agendamento*\n\n';
@@ -491,12 +891,136 @@ export class MessageProcessor {
          cancellableAppointments: cancellableAppointments.slice(0, 3)
        });
       
-      return response;
+      return {
+        message: response,
+        dialog: { kind: 'cancellation_list', appointments: cancellableAppointments.slice(0, 3).map(this.toDialogAppointment) }
+      };
       
     } catch (error) {
       logger.error('Erro ao processar cancelamento:', error);
-      return 'Desculpe, ocorreu um erro ao processar seu cancelamento. Tente novamente.';
+      return { message: 'Desculpe, ocorreu um erro ao processar seu cancelamento. Tente novamente.' };
+    }
+  }
+
+  /**
+   * Conduz a remarcação: escolhe o agendamento e oferece horários com o mesmo serviço e profissional
+   */
+  private async handleRescheduleIntent(
+    message: ProcessedMessage,
+    context: any,
+    quoted?: QuotedReference
+  ): Promise<HandlerReply> {
+    try {
+      const turn = this.toBookingTurn(message, context);
+
+      // Cliente respondeu citando uma oferta de horários da remarcação
+      if (quoted?.dialog?.kind === 'reschedule_offer') {
+        const { appointment_id: appointmentId, slots } = quoted.dialog;
+        const requestedTime = bookingService.extractTime(message.messageContent);
+        const candidates = requestedTime
+          ? slots.filter(slot => slot.time.startsWith(requestedTime))
+          : slots;
+
+        if (candidates.length !== 1) {
+          return {
+            message: 'Qual horário dessa lista você prefere? Me diga o horário (ex.: 14:30).',
+            dialog: quoted.dialog
+          };
+        }
+
+        return await bookingService.handleRescheduleSlotChoice(
+          turn,
+          context.context_data?.reschedule,
+          appointmentId,
+          candidates[0]!
+        );
+      }
+
+      return await bookingService.handleRescheduleTurn(
+        turn,
+        context.context_data?.reschedule,
+        quoted?.dialog?.kind === 'reschedule_list' ? quoted.dialog.appointments : undefined
+      );
+
+    } catch (error) {
+      logger.error('Erro ao processar remarcação:', error);
+      return { message: 'Desculpe, ocorreu um erro ao remarcar seu agendamento. Tente novamente.' };
+    }
+  }
+
+  /**
+   * Trata um reply a uma oferta de horários ("pode ser esse")
+   */
+  private async handleQuotedSlotOffer(
+    message: ProcessedMessage,
+    context: any,
+    slots: DialogSlotRef[]
+  ): Promise<HandlerReply> {
+    const requestedTime = bookingService.extractTime(message.messageContent);
+    const candidates = requestedTime
+      ? slots.filter(slot => slot.time.startsWith(requestedTime))
+      : slots;
+
+    if (candidates.length !== 1) {
+      return {
+        message: 'Qual horário dessa lista você prefere? Me diga o horário (ex.: 14:30) e o profissional.',
+        dialog: { kind: 'slot_offer', slots }
+      };
+    }
+
+    return bookingService.handleSlotChoice(
+      this.toBookingTurn(message, context),
+      context.context_data?.booking,
+      candidates[0]!
+    );
+  }
+
+  /**
+   * Oferta da lista de espera respondida com "sim" ou "não": a oferta citada ou, sem citação, a oferta no prazo
+   * quando não há agendamento nem remarcação em andamento (nesse caso o "sim" confirma o rascunho)
+   */
+  private getWaitlistAnswerOffer(
+    message: ProcessedMessage,
+    context: ConversationContext,
+    quoted?: QuotedReference
+  ): string | undefined {
+    if (bookingService.readConfirmation(message.messageContent || '') === undefined) {
+      return undefined;
     }
+
+    if (quoted?.dialog) {
+      return quoted.dialog.kind === 'waitlist_offer' ? quoted.dialog.offer_id : undefined;
+    }
+
+    const offer = context.context_data?.waitlist_offer;
+    if (
+      !waitlistService.isOfferOpen(offer)
+      || bookingService.isActive(context.context_data?.booking)
+      || bookingService.isActive(context.context_data?.reschedule)
+    ) {
+      return undefined;
+    }
+
+    return offer.offer_id;
+  }
+
+  private toBookingTurn(message: ProcessedMessage, context: any): BookingTurn {
+    return {
+      establishmentId: context.establishment_id,
+      clientPhone: message.clientPhone,
+      clientName: message.clientName || context.client_name || undefined,
+      text: message.messageContent
+    };
+  }
+
+  private toDialogAppointment(apt: any): DialogAppointmentRef {
+    return {
+      id: apt.id,
+      appointment_date: apt.appointment_date,
+      appointment_time: apt.appointment_time,
+      services: { name: apt.services.name },
+      professionals: { name: apt.professionals.name }
+    };
   }
 
   private getStatusEmoji(status: string): string {
@@ -516,14 +1040,14 @@ export class MessageProcessor {
   async healthCheck(): Promise<boolean> {
     try {
       // Verificar se todos os serviços estão funcionando
+      // (a conexão das instâncias é acompanhada por estabelecimento, via uazapi_configurations.status)
       const openaiHealth = await openaiService.healthCheck();
-      const messageServiceHealth = await messageService.healthCheck();
       
       // Verificar conexão com Supabase
       const { error } = await supabase.from('messages').select('id').limit(1);
       const supabaseHealth = !error;
       
-      return openaiHealth && messageServiceHealth && supabaseHealth;
+      return openaiHealth && supabaseHealth;
     } catch (error) {
       logger.error('Health check do processador falhou', { error });
       return false;
@@ -0,0 +1,169 @@
+import { MessageQueue } from './messageQueue';
+import { MemoryQueueStorage } from './queueStorage';
+
+const JOB_TYPE = 'process_message';
+const GROUP_KEY = 'est:5511999999999';
+
+interface TestPayload {
+  messages: string[];
+}
+
+const merge = (existing: TestPayload, incoming: TestPayload): TestPayload => ({
+  messages: [...existing.messages, ...incoming.messages]
+});
+
+describe('MessageQueue', () => {
+  let storage: MemoryQueueStorage;
+  let queue: MessageQueue;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2026-10-19T12:00:00Z') });
+    storage = new MemoryQueueStorage();
+    queue = new MessageQueue(storage, {
+      concurrency: 2,
+      maxAttempts: 3,
+      backoffMs: 1000,
+      pollIntervalMs: 1000,
+      lockTimeoutMs: 300000
+    });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const advance = (ms: number): void => {
+    jest.setSystemTime(new Date(Date.now() + ms));
+  };
+
+  describe('enqueueCoalesced', () => {
+    it('junta mensagens da mesma conversa no job pendente e adia a execução', async () => {
+      const first = await queue.enqueueCoalesced<TestPayload>(JOB_TYPE, { messages: ['oi'] }, {
+        groupKey: GROUP_KEY,
+        delayMs: 2000,
+        merge
+      });
+
+      advance(1000);
+      const second = await queue.enqueueCoalesced<TestPayload>(JOB_TYPE, { messages: ['queria marcar'] }, {
+        groupKey: GROUP_KEY,
+        delayMs: 2000,
+        merge
+      });
+
+      expect(second.id).toBe(first.id);
+      expect(second.payload.messages).toEqual(['oi', 'queria marcar']);
+      expect(second.run_at).toBe(new Date(Date.now() + 2000).toISOString());
+      expect(await storage.listJobs({})).toHaveLength(1);
+    });
+
+    it('mantém conversas diferentes em jobs separados', async () => {
+      await queue.enqueueCoalesced<TestPayload>(JOB_TYPE, { messages: ['oi'] }, { groupKey: GROUP_KEY, merge });
+      await queue.enqueueCoalesced<TestPayload>(JOB_TYPE, { messages: ['olá'] }, { groupKey: 'est:5511888888888', merge });
+
+      expect(await storage.listJobs({})).toHaveLength(2);
+    });
+
+    it('só executa o job depois da janela de agrupamento', async () => {
+      const handler = jest.fn().mockResolvedValue(undefined);
+      queue.registerHandler(JOB_TYPE, handler);
+
+      await queue.enqueueCoalesced<TestPayload>(JOB_TYPE, { messages: ['oi'] }, {
+        groupKey: GROUP_KEY,
+        delayMs: 2000,
+        merge
+      });
+
+      expect(await queue.runOnce()).toBe(0);
+
+      advance(2000);
+      expect(await queue.runOnce()).toBe(1);
+      expect(handler).toHaveBeenCalledWith({ messages: ['oi'] }, expect.objectContaining({ attempts: 1 }));
+    });
+  });
+
+  describe('execução', () => {
+    it('conclui o job quando o handler termina sem erro', async () => {
+      queue.registerHandler(JOB_TYPE, jest.fn().mockResolvedValue(undefined));
+      const job = await queue.enqueue(JOB_TYPE, { messages: ['oi'] });
+
+      await queue.runOnce();
+
+      const stored = await storage.getJob(job.id);
+      expect(stored?.status).toBe('completed');
+      expect(stored?.completed_at).toBeTruthy();
+    });
+
+    it('reagenda com backoff exponencial quando o handler falha', async () => {
+      queue.registerHandler(JOB_TYPE, jest.fn().mockRejectedValue(new Error('OpenAI indisponível')));
+      const job = await queue.enqueue(JOB_TYPE, { messages: ['oi'] });
+
+      await queue.runOnce();
+
+      let stored = await storage.getJob(job.id);
+      expect(stored?.status).toBe('pending');
+      expect(stored?.attempts).toBe(1);
+      expect(stored?.last_error).toBe('OpenAI indisponível');
+      expect(stored?.run_at).toBe(new Date(Date.now() + 1000).toISOString());
+
+      // Antes do backoff o job não é executado de novo
+      expect(await queue.runOnce()).toBe(0);
+
+      advance(1000);
+      await queue.runOnce();
+
+      stored = await storage.getJob(job.id);
+      expect(stored?.attempts).toBe(2);
+      expect(stored?.run_at).toBe(new Date(Date.now() + 2000).toISOString());
+    });
+
+    it('move o job para dead-letter ao esgotar as tentativas', async () => {
+      const handler = jest.fn().mockRejectedValue(new Error('UazAPI fora do ar'));
+      queue.registerHandler(JOB_TYPE, handler);
+      const job = await queue.enqueue(JOB_TYPE, { messages: ['oi'] });
+
+      await queue.runOnce();
+      advance(1000);
+      await queue.runOnce();
+      advance(2000);
+      await queue.runOnce();
+
+      const stored = await storage.getJob(job.id);
+      expect(handler).toHaveBeenCalledTimes(3);
+      expect(stored?.status).toBe('dead');
+      expect(stored?.attempts).toBe(3);
+
+      // Em dead-letter não há novas tentativas até o reenfileiramento manual
+      advance(60000);
+      expect(await queue.runOnce()).toBe(0);
+
+      expect(await queue.retryDeadJob(job.id)).toBe(true);
+      expect(await queue.runOnce()).toBe(1);
+    });
+
+    it('drain processa a fila inteira em ciclos até o fim do prazo', async () => {
+      jest.useRealTimers();
+      const handler = jest.fn().mockResolvedValue(undefined);
+      queue.registerHandler(JOB_TYPE, handler);
+      for (let i = 0; i < 5; i++) {
+        await queue.enqueue(JOB_TYPE, { messages: [`mensagem ${i}`] });
+      }
+
+      const startedAt = Date.now();
+      const processed = await queue.drain(50);
+
+      expect(processed).toBe(5);
+      expect(handler).toHaveBeenCalledTimes(5);
+      expect(Date.now() - startedAt).toBeGreaterThanOrEqual(45);
+      expect((await storage.countByStatus()).completed).toBe(5);
+    });
+
+    it('envia para dead-letter jobs sem handler registrado', async () => {
+      const job = await queue.enqueue('desconhecido', {});
+
+      await queue.runOnce();
+
+      expect((await storage.getJob(job.id))?.status).toBe('dead');
+    });
+  });
+});
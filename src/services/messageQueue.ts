@@ -0,0 +1,309 @@
+import { config } from '../config/env';
+import { logger } from '../utils/logger';
+import {
+  QueueStorage,
+  QueueJob,
+  JobStatus,
+  JobListFilter,
+  SupabaseQueueStorage,
+  MemoryQueueStorage
+} from './queueStorage';
+
+export type JobHandler<T = any> = (payload: T, job: QueueJob<T>) => Promise<void>;
+
+export interface QueueOptions {
+  concurrency: number;
+  maxAttempts: number;
+  backoffMs: number;
+  pollIntervalMs: number;
+  lockTimeoutMs: number;
+}
+
+export interface EnqueueOptions {
+  delayMs?: number;
+  maxAttempts?: number;
+}
+
+export interface CoalesceOptions<T> extends EnqueueOptions {
+  groupKey: string;
+  merge: (existing: T, incoming: T) => T;
+}
+
+// Tentativas de juntar payloads antes de desistir e criar um job novo
+const COALESCE_ATTEMPTS = 3;
+
+class MessageQueue {
+  private storage: QueueStorage;
+  private options: QueueOptions;
+  private handlers = new Map<string, JobHandler>();
+  private timer: NodeJS.Timeout | null = null;
+  private activeJobs = 0;
+  private polling = false;
+  private lastStaleCheck = 0;
+
+  constructor(storage: QueueStorage, options: QueueOptions) {
+    this.storage = storage;
+    this.options = options;
+  }
+
+  /**
+   * Registra o handler de um tipo de job
+   */
+  registerHandler<T>(type: string, handler: JobHandler<T>): void {
+    this.handlers.set(type, handler as JobHandler);
+  }
+
+  /**
+   * Persiste um novo job na fila
+   */
+  async enqueue<T>(type: string, payload: T, options: EnqueueOptions = {}): Promise<QueueJob<T>> {
+    const job = await this.storage.insert({
+      type,
+      payload,
+      max_attempts: options.maxAttempts || this.options.maxAttempts,
+      run_at: new Date(Date.now() + (options.delayMs || 0))
+    });
+
+    logger.debug('Job enfileirado:', { jobId: job.id, type });
+
+    return job;
+  }
+
+  /**
+   * Enfileira um job juntando-o ao job pendente do mesmo grupo, se houver.
+   * O horário de execução é empurrado para frente a cada novo payload,
+   * o que permite agrupar rajadas de mensagens numa única execução.
+   */
+  async enqueueCoalesced<T>(type: string, payload: T, options: CoalesceOptions<T>): Promise<QueueJob<T>> {
+    const runAt = new Date(Date.now() + (options.delayMs || 0));
+
+    for (let attempt = 1; attempt <= COALESCE_ATTEMPTS; attempt++) {
+      const pending = await this.storage.findPendingByGroup(type, options.groupKey) as QueueJob<T> | null;
+      if (!pending) {
+        break;
+      }
+
+      const updated = await this.storage.updatePending(pending, options.merge(pending.payload, payload), runAt);
+      if (updated) {
+        logger.debug('Payload agrupado em job pendente:', { jobId: updated.id, type, groupKey: options.groupKey });
+        return updated;
+      }
+    }
+
+    const job = await this.storage.insert({
+      type,
+      payload,
+      max_attempts: options.maxAttempts || this.options.maxAttempts,
+      run_at: runAt,
+      group_key: options.groupKey
+    });
+
+    logger.debug('Job enfileirado:', { jobId: job.id, type, groupKey: options.groupKey });
+
+    return job;
+  }
+
+  /**
+   * Inicia os workers em segundo plano
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      void this.poll();
+    }, this.options.pollIntervalMs);
+
+    logger.info('Fila de mensagens iniciada', {
+      concurrency: this.options.concurrency,
+      pollIntervalMs: this.options.pollIntervalMs
+    });
+  }
+
+  /**
+   * Para de buscar novos jobs (os que estão em execução terminam normalmente)
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+      logger.info('Fila de mensagens parada');
+    }
+  }
+
+  /**
+   * Executa um ciclo completo e aguarda o término dos jobs reservados
+   */
+  async runOnce(): Promise<number> {
+    await this.releaseStaleJobs(true);
+    return this.runCycle();
+  }
+
+  /**
+   * Processa a fila até o prazo acabar (ambiente serverless, pelo cron): ciclos seguidos enquanto
+   * houver jobs vencidos e, com a fila vazia, nova busca a cada pollIntervalMs. Nenhum ciclo começa
+   * depois do prazo; o último pode terminar além dele.
+   */
+  async drain(budgetMs: number): Promise<number> {
+    const deadline = Date.now() + budgetMs;
+    let processed = 0;
+
+    await this.releaseStaleJobs(true);
+
+    while (Date.now() < deadline) {
+      const claimed = await this.runCycle();
+      processed += claimed;
+
+      if (claimed === 0) {
+        const wait = Math.min(this.options.pollIntervalMs, deadline - Date.now());
+        if (wait > 0) {
+          await new Promise(resolve => setTimeout(resolve, wait));
+        }
+      }
+    }
+
+    return processed;
+  }
+
+  private async runCycle(): Promise<number> {
+    const jobs = await this.storage.claimDue(this.options.concurrency);
+    await Promise.all(jobs.map(job => this.execute(job)));
+
+    return jobs.length;
+  }
+
+  private async poll(): Promise<void> {
+    if (this.polling) {
+      return;
+    }
+
+    this.polling = true;
+
+    try {
+      await this.releaseStaleJobs();
+
+      const freeSlots = this.options.concurrency - this.activeJobs;
+      if (freeSlots <= 0) {
+        return;
+      }
+
+      const jobs = await this.storage.claimDue(freeSlots);
+
+      for (const job of jobs) {
+        this.activeJobs++;
+        void this.execute(job).finally(() => {
+          this.activeJobs--;
+        });
+      }
+    } catch (error) {
+      logger.error('Erro ao buscar jobs da fila:', error);
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private async releaseStaleJobs(force: boolean = false): Promise<void> {
+    const now = Date.now();
+    if (!force && now - this.lastStaleCheck < this.options.lockTimeoutMs) {
+      return;
+    }
+
+    this.lastStaleCheck = now;
+    const released = await this.storage.releaseStale(new Date(now - this.options.lockTimeoutMs));
+
+    if (released > 0) {
+      logger.warn('Jobs travados devolvidos para a fila:', { released });
+    }
+  }
+
+  private async execute(job: QueueJob): Promise<void> {
+    const handler = this.handlers.get(job.type);
+
+    if (!handler) {
+      logger.error('Nenhum handler registrado para o job:', { jobId: job.id, type: job.type });
+      await this.storage.markFailed(job.id, `Handler não registrado: ${job.type}`, null);
+      return;
+    }
+
+    try {
+      await handler(job.payload, job);
+      await this.storage.markCompleted(job.id);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Erro desconhecido';
+
+      if (job.attempts >= job.max_attempts) {
+        logger.error('Job movido para dead-letter após esgotar tentativas', {
+          jobId: job.id,
+          type: job.type,
+          attempts: job.attempts,
+          error: errorMessage
+        });
+
+        await this.storage.markFailed(job.id, errorMessage, null);
+        return;
+      }
+
+      // Backoff exponencial
+      const delay = this.options.backoffMs * Math.pow(2, job.attempts - 1);
+
+      logger.warn('Falha ao executar job, nova tentativa agendada', {
+        jobId: job.id,
+        type: job.type,
+        attempt: job.attempts,
+        nextRetryIn: delay,
+        error: errorMessage
+      });
+
+      await this.storage.markFailed(job.id, errorMessage, new Date(Date.now() + delay));
+    }
+  }
+
+  /**
+   * Reenfileira um job que está em dead-letter
+   */
+  async retryDeadJob(jobId: string): Promise<boolean> {
+    return this.storage.requeue(jobId);
+  }
+
+  async getJob(jobId: string): Promise<QueueJob | null> {
+    return this.storage.getJob(jobId);
+  }
+
+  async listJobs(filter: JobListFilter): Promise<QueueJob[]> {
+    return this.storage.listJobs(filter);
+  }
+
+  /**
+   * Estatísticas da fila para inspeção
+   */
+  async getStats(): Promise<{
+    counts: Record<JobStatus, number>;
+    activeWorkers: number;
+    concurrency: number;
+    running: boolean;
+  }> {
+    return {
+      counts: await this.storage.countByStatus(),
+      activeWorkers: this.activeJobs,
+      concurrency: this.options.concurrency,
+      running: this.timer !== null
+    };
+  }
+}
+
+const createQueueStorage = (): QueueStorage => {
+  return config.queue.storage === 'memory'
+    ? new MemoryQueueStorage()
+    : new SupabaseQueueStorage();
+};
+
+export const messageQueue = new MessageQueue(createQueueStorage(), {
+  concurrency: config.queue.concurrency,
+  maxAttempts: config.queue.maxAttempts,
+  backoffMs: config.queue.backoffMs,
+  pollIntervalMs: config.queue.pollIntervalMs,
+  lockTimeoutMs: config.queue.lockTimeoutMs
+});
+
+export { MessageQueue };
@@ -1,10 +1,11 @@
 import { supabase } from '../config/supabase';
 import { logger } from '../utils/logger';
-import { appointmentService } from './appointmentService';
-import { contextService } from './contextService';
 import { intentService } from './intentService';
+import { tenantContext } from './tenantContext';
 
 export interface SystemMetrics {
+  // null nas métricas agregadas de todos os estabelecimentos
+  establishmentId: string | null;
   totalMessages: number;
   totalAppointments: number;
   activeContexts: number;
@@ -14,12 +15,19 @@ export interface SystemMetrics {
   uptime: number;
 }
 
+// Linha da visão do operador: métricas de um estabelecimento e sua instância
+export interface EstablishmentMetrics extends SystemMetrics {
+  establishmentId: string;
+  instanceName: string;
+}
+
 export interface PerformanceMetric {
   id?: string;
   metric_name: string;
   metric_value: number;
   timestamp: string;
   metadata: Record<string, any> | undefined;
+  establishment_id?: string | undefined;
 }
 
 export interface ErrorLog {
@@ -30,23 +38,21 @@ export interface ErrorLog {
   context?: Record<string, any> | undefined;
   timestamp: string;
   severity: 'low' | 'medium' | 'high' | 'critical';
+  // Estabelecimento da execução em que o erro ocorreu (ausente em tarefas globais)
+  establishment_id?: string | undefined;
 }
 
 class MonitoringService {
   private startTime: Date;
-  private messageCount: number = 0;
-  private errorCount: number = 0;
-  private responseTimes: number[] = [];
 
   constructor() {
     this.startTime = new Date();
-    this.initializeMonitoring();
   }
 
   /**
-   * Inicializa o sistema de monitoramento
+   * Inicia a coleta periódica de métricas e a limpeza de logs (apenas no servidor)
    */
-  private initializeMonitoring(): void {
+  startMonitoring(): void {
     // Coletar métricas a cada 5 minutos
     setInterval(async () => {
       await this.collectMetrics();
@@ -60,19 +66,6 @@ class MonitoringService {
     logger.info('Sistema de monitoramento iniciado');
   }
 
-  /**
-   * Registra uma mensagem processada
-   */
-  trackMessage(responseTime: number): void {
-    this.messageCount++;
-    this.responseTimes.push(responseTime);
-    
-    // Manter apenas os últimos 100 tempos de resposta
-    if (this.responseTimes.length > 100) {
-      this.responseTimes.shift();
-    }
-  }
-
   /**
    * Registra um erro
    */
@@ -84,15 +77,14 @@ class MonitoringService {
     severity: 'low' | 'medium' | 'high' | 'critical' = 'medium'
   ): Promise<void> {
     try {
-      this.errorCount++;
-
       const errorLog: ErrorLog = {
       error_type: errorType,
       error_message: errorMessage,
       stack_trace: stackTrace || undefined,
       context: context,
       timestamp: new Date().toISOString(),
-      severity: severity
+      severity: severity,
+      establishment_id: tenantContext.getTenant()?.establishmentId
     };
 
       // Salvar no banco
@@ -123,14 +115,16 @@ class MonitoringService {
   async trackPerformance(
     metricName: string,
     value: number,
-    metadata?: Record<string, any>
+    metadata?: Record<string, any>,
+    establishmentId?: string
   ): Promise<void> {
     try {
       const metric: PerformanceMetric = {
         metric_name: metricName,
         metric_value: value,
         timestamp: new Date().toISOString(),
-        metadata: metadata || undefined
+        metadata: metadata || undefined,
+        establishment_id: establishmentId || tenantContext.getTenant()?.establishmentId
       };
 
       const { error } = await supabase
@@ -147,23 +141,15 @@ class MonitoringService {
   }
 
   /**
-   * Coleta métricas do sistema
+   * Coleta métricas do sistema (agregadas e de cada estabelecimento)
    */
-  private async collectMetrics(): Promise<void> {
+  async collectMetrics(): Promise<void> {
     try {
       const metrics = await this.getSystemMetrics();
+      await this.saveMetricsSnapshot(metrics);
 
-      // Salvar métricas principais
-      await this.trackPerformance('total_messages', metrics.totalMessages);
-      await this.trackPerformance('total_appointments', metrics.totalAppointments);
-      await this.trackPerformance('active_contexts', metrics.activeContexts);
-      await this.trackPerformance('response_time_avg', metrics.responseTime);
-      await this.trackPerformance('error_rate', metrics.errorRate);
-      await this.trackPerformance('uptime_hours', metrics.uptime);
-
-      // Salvar distribuição de intenções
-      for (const [intent, count] of Object.entries(metrics.intentDistribution)) {
-        await this.trackPerformance(`intent_${intent}`, count);
+      for (const establishment of await this.listEstablishments()) {
+        await this.saveMetricsSnapshot(await this.getSystemMetrics(establishment.establishmentId));
       }
 
       logger.info('Métricas coletadas:', metrics);
@@ -175,44 +161,129 @@ class MonitoringService {
   }
 
   /**
-   * Obtém métricas do sistema
+   * Salva um retrato das métricas, marcado com o estabelecimento a que se refere
+   */
+  private async saveMetricsSnapshot(metrics: SystemMetrics): Promise<void> {
+    const establishmentId = metrics.establishmentId || undefined;
+
+    // Salvar métricas principais
+    await this.trackPerformance('total_messages', metrics.totalMessages, undefined, establishmentId);
+    await this.trackPerformance('total_appointments', metrics.totalAppointments, undefined, establishmentId);
+    await this.trackPerformance('active_contexts', metrics.activeContexts, undefined, establishmentId);
+    await this.trackPerformance('response_time_avg', metrics.responseTime, undefined, establishmentId);
+    await this.trackPerformance('error_rate', metrics.errorRate, undefined, establishmentId);
+    if (!establishmentId) {
+      await this.trackPerformance('uptime_hours', metrics.uptime);
+    }
+
+    // Salvar distribuição de intenções
+    for (const [intent, count] of Object.entries(metrics.intentDistribution)) {
+      await this.trackPerformance(`intent_${intent}`, count, undefined, establishmentId);
+    }
+  }
+
+  /**
+   * Lista os estabelecimentos com instância configurada
+   */
+  private async listEstablishments(): Promise<Array<{ establishmentId: string; instanceName: string }>> {
+    const { data, error } = await supabase
+      .from('uazapi_configurations')
+      .select('establishment_id, instance_name');
+
+    if (error) {
+      logger.error('Erro ao listar estabelecimentos para métricas:', error);
+      return [];
+    }
+
+    return (data || []).map(row => ({
+      establishmentId: row.establishment_id as string,
+      instanceName: row.instance_name as string
+    }));
+  }
+
+  /**
+   * Obtém métricas do sistema, de um estabelecimento ou de todos
    */
-  async getSystemMetrics(): Promise<SystemMetrics> {
+  async getSystemMetrics(establishmentId?: string, hours: number = 24): Promise<SystemMetrics> {
     try {
       const now = new Date();
       const uptime = (now.getTime() - this.startTime.getTime()) / (1000 * 60 * 60); // em horas
+      const since = new Date(now.getTime() - hours * 60 * 60 * 1000).toISOString();
+
+      // Buscar total de mensagens do período
+      let messagesQuery = supabase
+        .from('messages')
+        .select('*', { count: 'exact', head: true })
+        .gte('created_at', since);
 
-      // Buscar total de mensagens (últimas 24h)
-      const yesterday = new Date(now.getTime() - 24 * 60 * 60 * 1000);
-      const { count: totalMessages } = await supabase
+      // Mensagens recebidas (base da taxa de erro)
+      let inboundQuery = supabase
         .from('messages')
         .select('*', { count: 'exact', head: true })
-        .gte('created_at', yesterday.toISOString());
+        .eq('direction', 'inbound')
+        .gte('created_at', since);
 
-      // Buscar total de agendamentos (últimas 24h)
-      const { count: totalAppointments } = await supabase
+      // Buscar total de agendamentos do período
+      let appointmentsQuery = supabase
         .from('appointments')
         .select('*', { count: 'exact', head: true })
-        .gte('created_at', yesterday.toISOString());
+        .gte('created_at', since);
 
-      // Obter contextos ativos
-      const activeContexts = await contextService.getActiveContexts('default-establishment');
+      // Contextos ativos
+      let contextsQuery = supabase
+        .from('conversation_contexts')
+        .select('*', { count: 'exact', head: true })
+        .eq('conversation_state', 'active');
 
-      // Obter estatísticas de intenções
-      const intentStats = await intentService.getIntentStats('default-establishment');
+      // Erros do período
+      let errorsQuery = supabase
+        .from('error_logs')
+        .select('*', { count: 'exact', head: true })
+        .gte('timestamp', since);
+
+      // Tempos de processamento registrados a cada resposta enviada
+      let responseTimesQuery = supabase
+        .from('performance_metrics')
+        .select('metric_value')
+        .eq('metric_name', 'message_processing')
+        .gte('timestamp', since)
+        .order('timestamp', { ascending: false })
+        .limit(1000);
+
+      if (establishmentId) {
+        messagesQuery = messagesQuery.eq('establishment_id', establishmentId);
+        inboundQuery = inboundQuery.eq('establishment_id', establishmentId);
+        appointmentsQuery = appointmentsQuery.eq('establishment_id', establishmentId);
+        contextsQuery = contextsQuery.eq('establishment_id', establishmentId);
+        errorsQuery = errorsQuery.eq('establishment_id', establishmentId);
+        responseTimesQuery = responseTimesQuery.eq('establishment_id', establishmentId);
+      }
+
+      const [messages, inbound, appointments, contexts, errors, responseTimes, intentStats] = await Promise.all([
+        messagesQuery,
+        inboundQuery,
+        appointmentsQuery,
+        contextsQuery,
+        errorsQuery,
+        responseTimesQuery,
+        intentService.getIntentStats(establishmentId, hours / 24)
+      ]);
 
       // Calcular tempo de resposta médio
-      const avgResponseTime = this.responseTimes.length > 0
-        ? this.responseTimes.reduce((a, b) => a + b, 0) / this.responseTimes.length
+      const times = (responseTimes.data || []).map(row => row.metric_value as number);
+      const avgResponseTime = times.length > 0
+        ? times.reduce((a, b) => a + b, 0) / times.length
         : 0;
 
-      // Calcular taxa de erro
-      const errorRate = this.messageCount > 0 ? (this.errorCount / this.messageCount) * 100 : 0;
+      // Calcular taxa de erro (erros por mensagem recebida)
+      const inboundCount = inbound.count || 0;
+      const errorRate = inboundCount > 0 ? ((errors.count || 0) / inboundCount) * 100 : 0;
 
       return {
-        totalMessages: totalMessages || 0,
-        totalAppointments: totalAppointments || 0,
-        activeContexts: activeContexts.length,
+        establishmentId: establishmentId || null,
+        totalMessages: messages.count || 0,
+        totalAppointments: appointments.count || 0,
+        activeContexts: contexts.count || 0,
         intentDistribution: intentStats,
         responseTime: Math.round(avgResponseTime),
         errorRate: Math.round(errorRate * 100) / 100,
@@ -222,6 +293,7 @@ class MonitoringService {
     } catch (error) {
       logger.error('Erro ao obter métricas do sistema:', error);
       return {
+        establishmentId: establishmentId || null,
         totalMessages: 0,
         totalAppointments: 0,
         activeContexts: 0,
@@ -233,17 +305,42 @@ class MonitoringService {
     }
   }
 
+  /**
+   * Obtém a visão do operador: volume, tempo de resposta e taxa de erro de cada estabelecimento
+   */
+  async getEstablishmentsOverview(hours: number = 24): Promise<EstablishmentMetrics[]> {
+    const establishments = await this.listEstablishments();
+    const overview: EstablishmentMetrics[] = [];
+
+    for (const establishment of establishments) {
+      const metrics = await this.getSystemMetrics(establishment.establishmentId, hours);
+      overview.push({
+        ...metrics,
+        establishmentId: establishment.establishmentId,
+        instanceName: establishment.instanceName
+      });
+    }
+
+    return overview.sort((a, b) => b.totalMessages - a.totalMessages);
+  }
+
   /**
    * Obtém logs de erro recentes
    */
-  async getRecentErrors(limit: number = 50): Promise<ErrorLog[]> {
+  async getRecentErrors(limit: number = 50, establishmentId?: string): Promise<ErrorLog[]> {
     try {
-      const { data, error } = await supabase
+      let query = supabase
         .from('error_logs')
         .select('*')
         .order('timestamp', { ascending: false })
         .limit(limit);
 
+      if (establishmentId) {
+        query = query.eq('establishment_id', establishmentId);
+      }
+
+      const { data, error } = await query;
+
       if (error) {
         logger.error('Erro ao buscar logs de erro:', error);
         return [];
@@ -258,11 +355,12 @@ class MonitoringService {
   }
 
   /**
-   * Obtém métricas de performance recentes
+   * Obtém métricas de performance recentes (null = apenas as métricas agregadas)
    */
   async getRecentMetrics(
     metricName?: string,
-    hours: number = 24
+    hours: number = 24,
+    establishmentId?: string | null
   ): Promise<PerformanceMetric[]> {
     try {
       const since = new Date(Date.now() - hours * 60 * 60 * 1000);
@@ -277,6 +375,12 @@ class MonitoringService {
         query = query.eq('metric_name', metricName);
       }
 
+      if (establishmentId) {
+        query = query.eq('establishment_id', establishmentId);
+      } else if (establishmentId === null) {
+        query = query.is('establishment_id', null);
+      }
+
       const { data, error } = await query;
 
       if (error) {
@@ -354,7 +458,7 @@ class MonitoringService {
   /**
    * Limpa logs antigos
    */
-  private async cleanupOldLogs(): Promise<void> {
+  async cleanupOldLogs(): Promise<void> {
     try {
       const thirtyDaysAgo = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000);
 
@@ -387,9 +491,10 @@ class MonitoringService {
   }
 
   /**
-   * Gera relatório de atividade
+   * Gera relatório de atividade, de um estabelecimento ou agregado
    */
-  async generateActivityReport(hours: number = 24): Promise<{
+  async generateActivityReport(hours: number = 24, establishmentId?: string): Promise<{
+    establishmentId: string | null;
     period: string;
     summary: {
       totalMessages: number;
@@ -408,8 +513,8 @@ class MonitoringService {
       const endTime = new Date();
       const startTime = new Date(endTime.getTime() - hours * 60 * 60 * 1000);
 
-      // Buscar métricas do período
-      const metrics = await this.getRecentMetrics(undefined, hours);
+      // Buscar métricas do período (os retratos agregados e os de cada estabelecimento são separados)
+      const metrics = await this.getRecentMetrics(undefined, hours, establishmentId || null);
       
       // Calcular totais
       const totalMessages = metrics.filter(m => m.metric_name === 'total_messages')
@@ -424,7 +529,7 @@ class MonitoringService {
         : 0;
 
       // Contar erros
-      const recentErrors = await this.getRecentErrors(1000);
+      const recentErrors = await this.getRecentErrors(1000, establishmentId);
       const errorCount = recentErrors.filter(e => 
         new Date(e.timestamp) >= startTime
       ).length;
@@ -440,6 +545,7 @@ class MonitoringService {
         .slice(0, 5);
 
       return {
+        establishmentId: establishmentId || null,
         period: `${hours} horas (${startTime.toISOString()} - ${endTime.toISOString()})`,
         summary: {
           totalMessages,
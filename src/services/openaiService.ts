@@ -17,6 +17,8 @@ interface ChatMessage {
 interface OpenAIResponse {
   message: string;
   tokensUsed: number;
+  promptTokens: number;
+  completionTokens: number;
   model: string;
 }
 
@@ -42,15 +44,17 @@ class OpenAIService {
   }
 
   /**
-   * Gera uma resposta usando OpenAI baseada no contexto da conversação
+   * Gera uma resposta usando OpenAI baseada no contexto da conversação.
+   * O prompt do sistema composto pelo promptService tem prioridade sobre o genérico.
    */
   async generateResponse(
     userMessage: string,
     context?: ConversationContext,
-    conversationHistory: ChatMessage[] = []
+    conversationHistory: ChatMessage[] = [],
+    composedSystemPrompt?: string
   ): Promise<OpenAIResponse> {
     try {
-      const systemPrompt = this.buildSystemPrompt(context);
+      const systemPrompt = composedSystemPrompt || this.buildSystemPrompt(context);
       const messages: ChatMessage[] = [
         { role: 'system', content: systemPrompt },
         ...conversationHistory.slice(-10), // Últimas 10 mensagens para contexto
@@ -83,7 +87,9 @@ class OpenAIService {
       return {
         message: response,
         tokensUsed,
-        model: this.config.model
+        promptTokens: completion.usage?.prompt_tokens || 0,
+        completionTokens: completion.usage?.completion_tokens || 0,
+        model: completion.model || this.config.model
       };
     } catch (error) {
       logger.error('Erro ao gerar resposta com OpenAI', {
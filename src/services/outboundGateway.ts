@@ -0,0 +1,158 @@
+import { supabase, UazapiConfiguration } from '../config/supabase';
+import { logger } from '../utils/logger';
+import { UazapiService } from './uazapiService';
+import { tenantContext } from './tenantContext';
+
+// Instância de envio, identificada pelo estabelecimento ou pelo nome da instância
+export type InstanceRef = { establishmentId: string } | { instanceName: string };
+
+export interface OutboundText {
+  to: string;
+  message: string;
+  // Sem instância explícita, usa o estabelecimento da execução atual
+  instance?: InstanceRef;
+}
+
+export interface OutboundMedia {
+  to: string;
+  mediaUrl: string;
+  caption?: string;
+  fileName?: string;
+  instance?: InstanceRef;
+}
+
+export interface SendResult {
+  success: boolean;
+  messageId?: string;
+  error?: string;
+}
+
+interface CachedInstance {
+  config: UazapiConfiguration;
+  expiresAt: number;
+}
+
+// Credenciais mudam raramente; o cache é invalidado nos eventos de conexão
+const CACHE_TTL_MS = 5 * 60 * 1000;
+const instanceCache = new Map<string, CachedInstance>();
+
+const cacheKey = (ref: InstanceRef): string => {
+  return 'establishmentId' in ref ? `establishment:${ref.establishmentId}` : `instance:${ref.instanceName}`;
+};
+
+// Função para descobrir a instância de envio quando ela não foi informada
+const resolveRef = (instance?: InstanceRef): InstanceRef | null => {
+  if (instance) {
+    return instance;
+  }
+
+  const tenant = tenantContext.getTenant();
+  return tenant ? { instanceName: tenant.instanceName } : null;
+};
+
+// Função para buscar (com cache) as credenciais da instância
+const getInstance = async (ref: InstanceRef): Promise<UazapiConfiguration | null> => {
+  const key = cacheKey(ref);
+  const cached = instanceCache.get(key);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.config;
+  }
+
+  const query = supabase.from('uazapi_configurations').select('*');
+  const { data, error } = 'establishmentId' in ref
+    ? await query.eq('establishment_id', ref.establishmentId).single()
+    : await query.eq('instance_name', ref.instanceName).single();
+
+  if (error && error.code !== 'PGRST116') { // PGRST116 = no rows returned
+    logger.error('Erro ao buscar credenciais da instância:', error);
+    return null;
+  }
+
+  if (!data) {
+    return null;
+  }
+
+  const config = data as UazapiConfiguration;
+  instanceCache.set(key, { config, expiresAt: Date.now() + CACHE_TTL_MS });
+
+  return config;
+};
+
+// Função para extrair o id da mensagem enviada (o formato varia entre versões da UazAPI)
+const extractMessageId = (data: any): string | undefined => {
+  return data?.key?.id || data?.messageid || data?.messageId || data?.id || undefined;
+};
+
+// Função para executar um envio com as credenciais da instância resolvida
+const deliver = async (
+  instance: InstanceRef | undefined,
+  to: string,
+  send: (service: UazapiService, config: UazapiConfiguration) => ReturnType<UazapiService['sendTextMessage']>
+): Promise<SendResult> => {
+  const ref = resolveRef(instance);
+  if (!ref) {
+    logger.error('Envio sem instância definida e fora do contexto de um estabelecimento', { to });
+    return { success: false, error: 'Instância de envio não definida' };
+  }
+
+  const config = await getInstance(ref);
+  if (!config) {
+    logger.error('Instância de envio não encontrada:', ref);
+    return { success: false, error: 'Instância de envio não encontrada' };
+  }
+
+  const result = await send(new UazapiService(config.uazapi_url, config.admin_token), config);
+
+  if (!result.success) {
+    return { success: false, error: result.error || 'Erro desconhecido' };
+  }
+
+  const messageId = extractMessageId(result.data);
+  return messageId ? { success: true, messageId } : { success: true };
+};
+
+// Função para enviar mensagem de texto
+const sendText = async (request: OutboundText): Promise<SendResult> => {
+  return deliver(request.instance, request.to, (service, config) =>
+    service.sendTextMessage(config.instance_name, config.instance_token, request.to, request.message)
+  );
+};
+
+// Função para enviar mensagem com mídia
+const sendMedia = async (request: OutboundMedia): Promise<SendResult> => {
+  return deliver(request.instance, request.to, (service, config) =>
+    service.sendMediaMessage(
+      config.instance_name,
+      config.instance_token,
+      request.to,
+      request.mediaUrl,
+      request.caption,
+      request.fileName
+    )
+  );
+};
+
+// Função para descartar credenciais em cache (ex.: após reconexão ou troca de token)
+const invalidate = (ref?: InstanceRef): void => {
+  if (!ref) {
+    instanceCache.clear();
+    return;
+  }
+
+  // Uma mesma instância pode estar em cache pelas duas chaves
+  for (const [key, cached] of instanceCache) {
+    const matches = 'establishmentId' in ref
+      ? cached.config.establishment_id === ref.establishmentId
+      : cached.config.instance_name === ref.instanceName;
+
+    if (matches) {
+      instanceCache.delete(key);
+    }
+  }
+};
+
+export const outboundGateway = {
+  sendText,
+  sendMedia,
+  invalidate
+};
@@ -0,0 +1,40 @@
+import { ProfessionalDay, professionalScheduleService } from './professionalScheduleService';
+
+// Jornada das 9h às 18h com almoço e uma ausência à tarde
+const day: ProfessionalDay = {
+  date: '2026-10-19',
+  available: true,
+  startsAt: '09:00',
+  endsAt: '18:00',
+  blocked: [
+    { start: '12:00', end: '13:00', reason: 'break' },
+    { start: '15:00', end: '15:30', reason: 'time_off', note: 'Consulta médica' }
+  ]
+};
+
+describe('professionalScheduleService.fitsInDay', () => {
+  it('aceita atendimentos dentro da jornada, inclusive encostados nos limites', () => {
+    expect(professionalScheduleService.fitsInDay(day, 540, 600)).toBe(true);
+    expect(professionalScheduleService.fitsInDay(day, 660, 720)).toBe(true);
+    expect(professionalScheduleService.fitsInDay(day, 780, 840)).toBe(true);
+    expect(professionalScheduleService.fitsInDay(day, 1050, 1080)).toBe(true);
+  });
+
+  it('rejeita atendimentos que começam antes ou terminam depois da jornada', () => {
+    expect(professionalScheduleService.fitsInDay(day, 510, 570)).toBe(false);
+    expect(professionalScheduleService.fitsInDay(day, 1060, 1090)).toBe(false);
+  });
+
+  it('rejeita atendimentos que invadem intervalos e ausências', () => {
+    expect(professionalScheduleService.fitsInDay(day, 690, 750)).toBe(false);
+    expect(professionalScheduleService.fitsInDay(day, 750, 810)).toBe(false);
+    expect(professionalScheduleService.fitsInDay(day, 870, 930)).toBe(false);
+    expect(professionalScheduleService.fitsInDay(day, 600, 1020)).toBe(false);
+  });
+
+  it('rejeita qualquer horário em dias sem atendimento', () => {
+    expect(professionalScheduleService.fitsInDay({ date: '2026-10-18', available: false, reason: 'day_off' }, 600, 630))
+      .toBe(false);
+    expect(professionalScheduleService.fitsInDay(undefined, 600, 630)).toBe(false);
+  });
+});
@@ -0,0 +1,320 @@
+import { supabase } from '../config/supabase';
+import { logger } from '../utils/logger';
+import { businessHoursService } from './businessHoursService';
+
+// Jornada de um profissional em um dia da semana (linha de professional_schedules; weekday 0 = domingo)
+export interface ProfessionalSchedule {
+  id: string;
+  professional_id: string;
+  weekday: number;
+  starts_at: string;
+  ends_at: string;
+  break_start?: string | null;
+  break_end?: string | null;
+}
+
+// Ausência do profissional entre duas datas: o dia inteiro (férias, folga) ou só um trecho de cada dia
+export interface ProfessionalTimeOff {
+  id: string;
+  professional_id: string;
+  starts_on: string;
+  ends_on: string;
+  start_time?: string | null;
+  end_time?: string | null;
+  reason?: string | null;
+  created_at?: string;
+}
+
+export type TimeOffInput = Omit<ProfessionalTimeOff, 'id' | 'professional_id' | 'created_at'>;
+
+export type ScheduleInput = Omit<ProfessionalSchedule, 'id' | 'professional_id'>;
+
+// Trecho do dia em que o profissional não atende (HH:mm)
+export interface BlockedPeriod {
+  start: string;
+  end: string;
+  reason: 'establishment_break' | 'break' | 'time_off';
+  note?: string;
+}
+
+// Disponibilidade efetiva do profissional em uma data
+export type ProfessionalDay =
+  | { date: string; available: true; startsAt: string; endsAt: string; blocked: BlockedPeriod[] }
+  | { date: string; available: false; reason: 'establishment_closed' | 'day_off' | 'time_off'; note?: string };
+
+// Função para normalizar horários do banco ("08:00:00") em "HH:mm"
+const shortTime = (time: string): string => time.slice(0, 5);
+
+// Função para buscar as jornadas semanais dos profissionais
+const loadSchedules = async (professionalIds: string[]): Promise<ProfessionalSchedule[]> => {
+  const { data, error } = await supabase
+    .from('professional_schedules')
+    .select('*')
+    .in('professional_id', professionalIds);
+
+  if (error) {
+    logger.error('Erro ao buscar jornada dos profissionais:', error);
+    throw error;
+  }
+
+  return (data || []) as ProfessionalSchedule[];
+};
+
+// Função para buscar as ausências dos profissionais que alcançam a data
+const loadTimeOff = async (professionalIds: string[], date: string): Promise<ProfessionalTimeOff[]> => {
+  const { data, error } = await supabase
+    .from('professional_time_off')
+    .select('*')
+    .in('professional_id', professionalIds)
+    .lte('starts_on', date)
+    .gte('ends_on', date);
+
+  if (error) {
+    logger.error('Erro ao buscar ausências dos profissionais:', error);
+    throw error;
+  }
+
+  return (data || []) as ProfessionalTimeOff[];
+};
+
+// Função para obter a disponibilidade de cada profissional em uma data (yyyy-MM-dd)
+const getProfessionalDays = async (
+  establishmentId: string,
+  professionalIds: string[],
+  date: string
+): Promise<Map<string, ProfessionalDay>> => {
+  const days = new Map<string, ProfessionalDay>();
+  if (professionalIds.length === 0) {
+    return days;
+  }
+
+  const dayHours = await businessHoursService.getDayHours(establishmentId, date);
+  if (!dayHours.open) {
+    for (const professionalId of professionalIds) {
+      days.set(professionalId, {
+        date,
+        available: false,
+        reason: 'establishment_closed',
+        ...(dayHours.note ? { note: dayHours.note } : {})
+      });
+    }
+    return days;
+  }
+
+  const [schedules, timeOff] = await Promise.all([
+    loadSchedules(professionalIds),
+    loadTimeOff(professionalIds, date)
+  ]);
+  const weekday = businessHoursService.weekdayOf(date);
+
+  for (const professionalId of professionalIds) {
+    const ownSchedules = schedules.filter(row => row.professional_id === professionalId);
+    const ownTimeOff = timeOff.filter(row => row.professional_id === professionalId);
+
+    // Férias ou folga do dia inteiro
+    const fullDay = ownTimeOff.find(row => !row.start_time || !row.end_time);
+    if (fullDay) {
+      days.set(professionalId, {
+        date,
+        available: false,
+        reason: 'time_off',
+        ...(fullDay.reason ? { note: fullDay.reason } : {})
+      });
+      continue;
+    }
+
+    // Sem jornada cadastrada, o profissional acompanha o horário do estabelecimento
+    const schedule = ownSchedules.find(row => row.weekday === weekday);
+    if (ownSchedules.length > 0 && !schedule) {
+      days.set(professionalId, { date, available: false, reason: 'day_off' });
+      continue;
+    }
+
+    const startsAt = schedule && shortTime(schedule.starts_at) > dayHours.opensAt
+      ? shortTime(schedule.starts_at)
+      : dayHours.opensAt;
+    const endsAt = schedule && shortTime(schedule.ends_at) < dayHours.closesAt
+      ? shortTime(schedule.ends_at)
+      : dayHours.closesAt;
+
+    if (startsAt >= endsAt) {
+      days.set(professionalId, { date, available: false, reason: 'day_off' });
+      continue;
+    }
+
+    const blocked: BlockedPeriod[] = [];
+    if (dayHours.breakStart && dayHours.breakEnd) {
+      blocked.push({ start: dayHours.breakStart, end: dayHours.breakEnd, reason: 'establishment_break' });
+    }
+    if (schedule?.break_start && schedule.break_end) {
+      blocked.push({ start: shortTime(schedule.break_start), end: shortTime(schedule.break_end), reason: 'break' });
+    }
+    for (const row of ownTimeOff) {
+      blocked.push({
+        start: shortTime(row.start_time!),
+        end: shortTime(row.end_time!),
+        reason: 'time_off',
+        ...(row.reason ? { note: row.reason } : {})
+      });
+    }
+
+    days.set(professionalId, {
+      date,
+      available: true,
+      startsAt,
+      endsAt,
+      blocked: blocked.sort((a, b) => a.start.localeCompare(b.start))
+    });
+  }
+
+  return days;
+};
+
+// Função para saber se um atendimento [start, end) (minutos desde a meia-noite) cabe na jornada do dia
+const fitsInDay = (day: ProfessionalDay | undefined, start: number, end: number): boolean => {
+  if (!day?.available) {
+    return false;
+  }
+
+  if (start < businessHoursService.toMinutes(day.startsAt) || end > businessHoursService.toMinutes(day.endsAt)) {
+    return false;
+  }
+
+  return !day.blocked.some(period =>
+    start < businessHoursService.toMinutes(period.end) && businessHoursService.toMinutes(period.start) < end
+  );
+};
+
+// Função para obter a jornada semanal de um profissional
+const getSchedule = async (professionalId: string): Promise<ProfessionalSchedule[]> => {
+  const rows = await loadSchedules([professionalId]);
+  return rows.sort((a, b) => a.weekday - b.weekday);
+};
+
+// Função para substituir a jornada semanal (lista vazia = acompanhar o horário do estabelecimento)
+// Grava as linhas novas antes de apagar as antigas: se algo falhar no meio, a jornada anterior continua valendo
+const replaceSchedule = async (
+  professionalId: string,
+  schedule: ScheduleInput[]
+): Promise<ProfessionalSchedule[]> => {
+  const previousIds = (await loadSchedules([professionalId])).map(row => row.id);
+  let insertedIds: string[] = [];
+
+  if (schedule.length > 0) {
+    const { data, error } = await supabase
+      .from('professional_schedules')
+      .insert(schedule.map(row => ({
+        professional_id: professionalId,
+        weekday: row.weekday,
+        starts_at: row.starts_at,
+        ends_at: row.ends_at,
+        break_start: row.break_start || null,
+        break_end: row.break_end || null
+      })))
+      .select('id');
+
+    if (error) {
+      logger.error('Erro ao salvar jornada do profissional:', error);
+      throw error;
+    }
+
+    insertedIds = (data || []).map(row => row.id as string);
+  }
+
+  if (previousIds.length > 0) {
+    const { error: deleteError } = await supabase
+      .from('professional_schedules')
+      .delete()
+      .in('id', previousIds);
+
+    if (deleteError) {
+      logger.error('Erro ao limpar jornada anterior do profissional:', deleteError);
+
+      // Desfaz as linhas novas para não deixar dois registros no mesmo dia da semana
+      if (insertedIds.length > 0) {
+        const { error: rollbackError } = await supabase
+          .from('professional_schedules')
+          .delete()
+          .in('id', insertedIds);
+
+        if (rollbackError) {
+          logger.error('Erro ao desfazer jornada nova do profissional:', rollbackError);
+        }
+      }
+
+      throw deleteError;
+    }
+  }
+
+  logger.info('Jornada do profissional atualizada:', { professionalId, days: schedule.length });
+  return getSchedule(professionalId);
+};
+
+// Função para listar as ausências que terminam a partir de uma data
+const listTimeOff = async (professionalId: string, from: string): Promise<ProfessionalTimeOff[]> => {
+  const { data, error } = await supabase
+    .from('professional_time_off')
+    .select('*')
+    .eq('professional_id', professionalId)
+    .gte('ends_on', from)
+    .order('starts_on', { ascending: true });
+
+  if (error) {
+    logger.error('Erro ao listar ausências do profissional:', error);
+    throw error;
+  }
+
+  return (data || []) as ProfessionalTimeOff[];
+};
+
+// Função para registrar uma ausência (bloqueio pontual, folga ou férias)
+const addTimeOff = async (professionalId: string, input: TimeOffInput): Promise<ProfessionalTimeOff> => {
+  const { data, error } = await supabase
+    .from('professional_time_off')
+    .insert({
+      professional_id: professionalId,
+      starts_on: input.starts_on,
+      ends_on: input.ends_on,
+      start_time: input.start_time || null,
+      end_time: input.end_time || null,
+      reason: input.reason || null,
+      created_at: new Date().toISOString()
+    })
+    .select('*')
+    .single();
+
+  if (error) {
+    logger.error('Erro ao registrar ausência do profissional:', error);
+    throw error;
+  }
+
+  logger.info('Ausência do profissional registrada:', { professionalId, timeOffId: data.id });
+  return data as ProfessionalTimeOff;
+};
+
+// Função para remover uma ausência; retorna false se ela não existir
+const removeTimeOff = async (professionalId: string, timeOffId: string): Promise<boolean> => {
+  const { data, error } = await supabase
+    .from('professional_time_off')
+    .delete()
+    .eq('id', timeOffId)
+    .eq('professional_id', professionalId)
+    .select('id');
+
+  if (error) {
+    logger.error('Erro ao remover ausência do profissional:', error);
+    throw error;
+  }
+
+  return Boolean(data && data.length > 0);
+};
+
+export const professionalScheduleService = {
+  getProfessionalDays,
+  fitsInDay,
+  getSchedule,
+  replaceSchedule,
+  listTimeOff,
+  addTimeOff,
+  removeTimeOff
+};
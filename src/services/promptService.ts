@@ -0,0 +1,333 @@
+import { supabase, AiPrompt, Establishment } from '../config/supabase';
+import { logger } from '../utils/logger';
+import { IntentType } from './intentService';
+import { ConversationContext } from './contextService';
+import { businessHoursService } from './businessHoursService';
+
+interface CachedPrompt {
+  prompt: AiPrompt | null;
+  expiresAt: number;
+}
+
+interface CachedEstablishment {
+  establishment: Establishment | null;
+  expiresAt: number;
+}
+
+type PromptField = keyof Pick<AiPrompt,
+  | 'greeting_prompt'
+  | 'new_client_prompt'
+  | 'scheduling_prompt'
+  | 'reschedule_prompt'
+  | 'cancel_prompt'
+  | 'services_prompt'
+  | 'prices_prompt'
+  | 'farewell_prompt'
+  | 'fallback_prompt'>;
+
+type PromptFlag = keyof Pick<AiPrompt,
+  | 'enable_services_info'
+  | 'enable_scheduling'
+  | 'enable_context_memory'
+  | 'enable_proactive_suggestions'>;
+
+export interface ComposeInput {
+  prompts: AiPrompt | null;
+  establishment: Establishment | null;
+  intent: IntentType;
+  context?: ConversationContext | null | undefined;
+  // Primeiro contato do cliente; por padrão deduzido do contexto
+  newClient?: boolean | undefined;
+  // Prompt livre da instância, usado quando o estabelecimento não definiu system_prompt
+  instancePrompt?: string | undefined;
+  // Horário de funcionamento descrito pelo businessHoursService
+  businessHours?: string | undefined;
+}
+
+// Prompt final e as seções que entraram nele (útil para a pré-visualização)
+export interface ComposedPrompt {
+  prompt: string;
+  sections: string[];
+}
+
+// Cache curto para não consultar ai_prompts a cada mensagem recebida
+const CACHE_TTL_MS = 5 * 60 * 1000;
+const promptCache = new Map<string, CachedPrompt>();
+const establishmentCache = new Map<string, CachedEstablishment>();
+
+const DEFAULT_BASE_PROMPT = `Você é um assistente virtual inteligente para WhatsApp. Suas características:
+
+- Seja sempre educado, prestativo e profissional
+- Responda de forma clara e objetiva
+- Use linguagem natural e amigável
+- Mantenha respostas concisas (máximo 300 caracteres quando possível)
+- Se não souber algo, seja honesto sobre isso
+- Evite usar emojis em excesso
+- Foque em resolver o problema do usuário`;
+
+// Seção do ai_prompts usada para cada intenção (fallback_prompt quando não houver)
+const INTENT_SECTIONS: Partial<Record<IntentType, PromptField>> = {
+  greeting: 'greeting_prompt',
+  scheduling: 'scheduling_prompt',
+  availability: 'scheduling_prompt',
+  confirmation: 'scheduling_prompt',
+  reschedule: 'reschedule_prompt',
+  cancel: 'cancel_prompt',
+  services_info: 'services_prompt',
+  prices_info: 'prices_prompt',
+  farewell: 'farewell_prompt'
+};
+
+// Flag enable_* que liga/desliga cada seção
+const SECTION_FLAGS: Partial<Record<PromptField, PromptFlag>> = {
+  scheduling_prompt: 'enable_scheduling',
+  reschedule_prompt: 'enable_scheduling',
+  cancel_prompt: 'enable_scheduling',
+  services_prompt: 'enable_services_info',
+  prices_prompt: 'enable_services_info'
+};
+
+// Função para buscar os prompts configurados do estabelecimento
+const getPrompts = async (establishmentId: string): Promise<AiPrompt | null> => {
+  const cached = promptCache.get(establishmentId);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.prompt;
+  }
+
+  try {
+    const { data, error } = await supabase
+      .from('ai_prompts')
+      .select('*')
+      .eq('establishment_id', establishmentId)
+      .single();
+
+    if (error && error.code !== 'PGRST116') { // PGRST116 = no rows returned
+      logger.error('Erro ao buscar prompts do estabelecimento:', error);
+      return null;
+    }
+
+    const prompt = (data as AiPrompt) || null;
+    promptCache.set(establishmentId, { prompt, expiresAt: Date.now() + CACHE_TTL_MS });
+
+    return prompt;
+  } catch (error) {
+    logger.error('Erro ao buscar prompts do estabelecimento:', error);
+    return null;
+  }
+};
+
+// Função para obter a janela de agrupamento de mensagens (response_delay, em segundos)
+const getResponseDelayMs = async (establishmentId: string): Promise<number> => {
+  const prompt = await getPrompts(establishmentId);
+  const seconds = parseFloat(prompt?.response_delay || '');
+
+  if (isNaN(seconds) || seconds <= 0) {
+    return 0;
+  }
+
+  // Limitar a 60s para não segurar a conversa indefinidamente
+  return Math.min(seconds, 60) * 1000;
+};
+
+// Função para buscar os dados do estabelecimento usados no prompt
+const getEstablishment = async (establishmentId: string): Promise<Establishment | null> => {
+  const cached = establishmentCache.get(establishmentId);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.establishment;
+  }
+
+  try {
+    const { data, error } = await supabase
+      .from('establishments')
+      .select('*')
+      .eq('id', establishmentId)
+      .single();
+
+    if (error && error.code !== 'PGRST116') { // PGRST116 = no rows returned
+      logger.error('Erro ao buscar estabelecimento:', error);
+      return null;
+    }
+
+    const establishment = (data as Establishment) || null;
+    establishmentCache.set(establishmentId, { establishment, expiresAt: Date.now() + CACHE_TTL_MS });
+
+    return establishment;
+  } catch (error) {
+    logger.error('Erro ao buscar estabelecimento:', error);
+    return null;
+  }
+};
+
+// Função para interpretar as flags enable_* (gravadas como texto no banco)
+const isEnabled = (value: string | undefined, defaultValue: boolean = true): boolean => {
+  if (value === undefined || value === null || value.trim() === '') {
+    return defaultValue;
+  }
+
+  return ['true', '1', 'sim', 'yes', 'on'].includes(value.trim().toLowerCase());
+};
+
+// Função para montar o bloco de informações do estabelecimento
+const describeEstablishment = (establishment: Establishment): string => {
+  const address = [
+    [establishment.street, establishment.number].filter(Boolean).join(', '),
+    establishment.complement,
+    establishment.neighborhood,
+    [establishment.city, establishment.state].filter(Boolean).join(' - '),
+    establishment.cep ? `CEP ${establishment.cep}` : undefined
+  ].filter(Boolean).join(', ');
+
+  const facts: Array<[string, string | undefined]> = [
+    ['Nome', establishment.name],
+    ['Endereço', address || undefined],
+    ['WhatsApp', establishment.whatsapp],
+    ['E-mail', establishment.email],
+    ['Site', establishment.website_url],
+    ['Instagram', establishment.instagram_url],
+    ['Facebook', establishment.facebook_url],
+    ['TikTok', establishment.tiktok_url]
+  ];
+
+  return 'Informações do estabelecimento (use-as sem inventar outras):\n' + facts
+    .filter((fact): fact is [string, string] => Boolean(fact[1]))
+    .map(([label, value]) => `- ${label}: ${value}`)
+    .join('\n');
+};
+
+// Função para descrever o contexto do cliente
+const describeClient = (context: ConversationContext): string | undefined => {
+  const lines: string[] = [];
+
+  if (context.client_name) {
+    lines.push(`Você está conversando com: ${context.client_name}`);
+  }
+
+  const data = context.context_data || {};
+  if (data.lastInteraction) {
+    lines.push(`Última interação: ${new Date(data.lastInteraction).toLocaleDateString('pt-BR')}`);
+  }
+  if (data.preferences) {
+    lines.push(`Preferências do cliente: ${JSON.stringify(data.preferences)}`);
+  }
+
+  return lines.length > 0 ? lines.join('\n') : undefined;
+};
+
+// Função para compor o prompt do sistema a partir do ai_prompts do estabelecimento
+const composeSystemPrompt = (input: ComposeInput): ComposedPrompt => {
+  const { prompts, establishment, intent, context } = input;
+  const parts: string[] = [];
+  const sections: string[] = [];
+
+  const add = (name: string, text: string | undefined): void => {
+    if (text && text.trim()) {
+      parts.push(text.trim());
+      sections.push(name);
+    }
+  };
+
+  add(prompts?.system_prompt ? 'system_prompt' : input.instancePrompt ? 'instance_prompt' : 'default',
+    prompts?.system_prompt || input.instancePrompt || DEFAULT_BASE_PROMPT);
+
+  if (establishment) {
+    add('establishment', describeEstablishment(establishment));
+  }
+
+  add('business_hours', input.businessHours);
+
+  // Seção da intenção detectada, respeitando as flags enable_*
+  const field = INTENT_SECTIONS[intent] || 'fallback_prompt';
+  const flag = SECTION_FLAGS[field];
+  if (!flag || isEnabled(prompts?.[flag])) {
+    add(field, prompts?.[field]);
+  }
+
+  // Primeiro contato do cliente
+  const isNewClient = input.newClient ?? context?.context_data?.messageCount === 0;
+  if (isNewClient) {
+    add('new_client_prompt', prompts?.new_client_prompt);
+  }
+
+  if (!isEnabled(prompts?.enable_scheduling)) {
+    add('scheduling_disabled', 'Não faça nem altere agendamentos por aqui; oriente o cliente a falar diretamente com o estabelecimento.');
+  }
+  if (!isEnabled(prompts?.enable_services_info)) {
+    add('services_info_disabled', 'Não informe serviços ou preços; oriente o cliente a consultar o estabelecimento.');
+  }
+  if (isEnabled(prompts?.enable_proactive_suggestions, false)) {
+    add('proactive_suggestions', 'Quando fizer sentido, sugira serviços complementares ou o próximo agendamento, sem insistir.');
+  }
+
+  if (context && isEnabled(prompts?.enable_context_memory)) {
+    add('client_context', describeClient(context));
+  }
+
+  add('intent', `Intenção detectada: ${intent}`);
+
+  return { prompt: parts.join('\n\n'), sections };
+};
+
+// Função para montar o prompt do sistema de um estabelecimento para a intenção detectada
+const buildSystemPrompt = async (
+  establishmentId: string,
+  intent: IntentType,
+  context?: ConversationContext | null,
+  instancePrompt?: string
+): Promise<ComposedPrompt> => {
+  const [prompts, establishment, businessHours] = await Promise.all([
+    getPrompts(establishmentId),
+    getEstablishment(establishmentId),
+    businessHoursService.describeSchedule(establishmentId)
+  ]);
+
+  return composeSystemPrompt({ prompts, establishment, intent, context, instancePrompt, businessHours });
+};
+
+// Função para montar uma resposta pronta, sem IA (usada quando o orçamento de IA do estabelecimento acaba)
+const buildTemplateAnswer = async (establishmentId: string, intent: IntentType): Promise<string> => {
+  const establishment = await getEstablishment(establishmentId);
+  const name = establishment?.name || 'nosso estabelecimento';
+  const contact = establishment?.whatsapp || establishment?.email;
+  const talkToTeam = contact
+    ? `Para mais detalhes, fale com nossa equipe: ${contact}.`
+    : 'Nossa equipe vai te responder em breve.';
+
+  switch (intent) {
+    case 'greeting':
+      return `Olá! Bem-vindo(a) ao ${name}. Para marcar um horário, é só dizer "quero agendar". ${talkToTeam}`;
+    case 'farewell':
+      return `Obrigado pelo contato com o ${name}! Até breve. 😊`;
+    case 'compliment':
+      return `Que bom saber disso! Obrigado pelo carinho com o ${name}. 😊`;
+    case 'complaint':
+      return `Sentimos muito pelo ocorrido. Sua mensagem foi registrada e nossa equipe vai entrar em contato. ${talkToTeam}`;
+    case 'availability':
+      return `${await businessHoursService.describeSchedule(establishmentId)}\n\n${talkToTeam}`;
+    case 'services_info':
+    case 'prices_info':
+      return `Para informações sobre serviços, valores e horários do ${name}: ${talkToTeam}`;
+    default:
+      return `Recebemos sua mensagem! Para agendar, diga "quero agendar"; para cancelar, "quero cancelar". ${talkToTeam}`;
+  }
+};
+
+// Função para descartar o cache (ex.: após edição dos prompts)
+const invalidateCache = (establishmentId?: string): void => {
+  if (establishmentId) {
+    promptCache.delete(establishmentId);
+    establishmentCache.delete(establishmentId);
+  } else {
+    promptCache.clear();
+    establishmentCache.clear();
+  }
+};
+
+export const promptService = {
+  getPrompts,
+  getEstablishment,
+  getResponseDelayMs,
+  composeSystemPrompt,
+  buildSystemPrompt,
+  buildTemplateAnswer,
+  invalidateCache
+};
@@ -0,0 +1,114 @@
+import { MemoryQueueStorage } from './queueStorage';
+
+const newJob = (overrides: { run_at?: Date; group_key?: string } = {}) => ({
+  type: 'process_message',
+  payload: { text: 'oi' },
+  max_attempts: 3,
+  run_at: overrides.run_at || new Date(Date.now() - 1000),
+  group_key: overrides.group_key || null
+});
+
+describe('MemoryQueueStorage', () => {
+  let storage: MemoryQueueStorage;
+
+  beforeEach(() => {
+    storage = new MemoryQueueStorage();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('reserva apenas jobs pendentes já vencidos, em ordem de execução', async () => {
+    const later = await storage.insert(newJob({ run_at: new Date(Date.now() - 1000) }));
+    const earlier = await storage.insert(newJob({ run_at: new Date(Date.now() - 5000) }));
+    await storage.insert(newJob({ run_at: new Date(Date.now() + 60000) }));
+
+    const claimed = await storage.claimDue(10);
+
+    expect(claimed.map(job => job.id)).toEqual([earlier.id, later.id]);
+    expect(claimed.every(job => job.status === 'processing' && job.attempts === 1)).toBe(true);
+  });
+
+  it('não entrega o mesmo job duas vezes', async () => {
+    await storage.insert(newJob());
+
+    const first = await storage.claimDue(10);
+    const second = await storage.claimDue(10);
+
+    expect(first).toHaveLength(1);
+    expect(second).toHaveLength(0);
+  });
+
+  it('não reserva job de uma conversa que já tem job em execução', async () => {
+    await storage.insert(newJob({ group_key: 'est:5511999999999' }));
+    await storage.claimDue(10);
+    const next = await storage.insert(newJob({ group_key: 'est:5511999999999' }));
+    const other = await storage.insert(newJob({ group_key: 'est:5511888888888' }));
+
+    expect((await storage.claimDue(10)).map(job => job.id)).toEqual([other.id]);
+
+    await storage.markCompleted((await storage.listJobs({ status: 'processing' })).find(job => job.id !== other.id)!.id);
+    expect((await storage.claimDue(10)).map(job => job.id)).toEqual([next.id]);
+  });
+
+  it('reserva no máximo um job por conversa em cada ciclo', async () => {
+    await storage.insert(newJob({ group_key: 'est:5511999999999', run_at: new Date(Date.now() - 2000) }));
+    await storage.insert(newJob({ group_key: 'est:5511999999999' }));
+
+    expect(await storage.claimDue(10)).toHaveLength(1);
+  });
+
+  it('respeita o limite de jobs reservados', async () => {
+    await storage.insert(newJob());
+    await storage.insert(newJob());
+    await storage.insert(newJob());
+
+    expect(await storage.claimDue(2)).toHaveLength(2);
+    expect(await storage.claimDue(2)).toHaveLength(1);
+  });
+
+  it('atualiza um job pendente apenas se ele não mudou desde a leitura', async () => {
+    jest.useFakeTimers({ now: new Date('2026-10-19T12:00:00Z') });
+    await storage.insert(newJob({ group_key: 'est:5511999999999' }));
+
+    // Dois produtores leem a mesma versão do job
+    const first = await storage.findPendingByGroup('process_message', 'est:5511999999999');
+    const second = await storage.findPendingByGroup('process_message', 'est:5511999999999');
+
+    jest.setSystemTime(new Date('2026-10-19T12:00:01Z'));
+    const updated = await storage.updatePending(first!, { text: 'oi\nqueria marcar' }, new Date());
+
+    expect(updated?.payload).toEqual({ text: 'oi\nqueria marcar' });
+    expect(await storage.updatePending(second!, { text: 'amanhã' }, new Date())).toBeNull();
+  });
+
+  it('não junta payloads em um job que já está em execução', async () => {
+    await storage.insert(newJob({ group_key: 'est:5511999999999' }));
+    await storage.claimDue(10);
+
+    expect(await storage.findPendingByGroup('process_message', 'est:5511999999999')).toBeNull();
+  });
+
+  it('devolve para a fila jobs travados além do tempo limite', async () => {
+    await storage.insert(newJob());
+    await storage.claimDue(10);
+
+    expect(await storage.releaseStale(new Date(Date.now() + 1000))).toBe(1);
+    expect((await storage.countByStatus()).pending).toBe(1);
+  });
+
+  it('reenfileira apenas jobs em dead-letter, zerando as tentativas', async () => {
+    const job = await storage.insert(newJob());
+    await storage.claimDue(10);
+
+    expect(await storage.requeue(job.id)).toBe(false);
+
+    await storage.markFailed(job.id, 'falhou', null);
+    expect(await storage.requeue(job.id)).toBe(true);
+
+    const requeued = await storage.getJob(job.id);
+    expect(requeued?.status).toBe('pending');
+    expect(requeued?.attempts).toBe(0);
+  });
+});
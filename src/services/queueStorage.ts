@@ -0,0 +1,519 @@
+import { v4 as uuidv4 } from 'uuid';
+import { supabase } from '../config/supabase';
+import { logger } from '../utils/logger';
+
+const JOB_STATUSES = ['pending', 'processing', 'completed', 'dead'] as const;
+
+export type JobStatus = typeof JOB_STATUSES[number];
+
+export interface QueueJob<T = any> {
+  id: string;
+  type: string;
+  payload: T;
+  status: JobStatus;
+  attempts: number;
+  max_attempts: number;
+  run_at: string;
+  group_key?: string | null;
+  last_error?: string | null;
+  locked_at?: string | null;
+  completed_at?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface NewQueueJob<T = any> {
+  type: string;
+  payload: T;
+  max_attempts: number;
+  run_at: Date;
+  group_key?: string | null;
+}
+
+export interface JobListFilter {
+  status?: JobStatus | undefined;
+  type?: string | undefined;
+  limit?: number | undefined;
+}
+
+// Candidatos lidos por vaga em claimDue (parte pode ser pulada por ter a conversa em execução)
+const CLAIM_OVERFETCH = 4;
+
+// Código de violação de unicidade do Postgres
+const UNIQUE_VIOLATION = '23505';
+
+/**
+ * Contrato de armazenamento da fila. Implementações precisam garantir que
+ * claimDue nunca entregue o mesmo job a dois workers ao mesmo tempo, nem
+ * um job cujo grupo (conversa) já tenha outro job em execução.
+ */
+export interface QueueStorage {
+  insert<T>(job: NewQueueJob<T>): Promise<QueueJob<T>>;
+  claimDue(limit: number): Promise<QueueJob[]>;
+  findPendingByGroup(type: string, groupKey: string): Promise<QueueJob | null>;
+  updatePending<T>(job: QueueJob<T>, payload: T, runAt: Date): Promise<QueueJob<T> | null>;
+  markCompleted(jobId: string): Promise<void>;
+  markFailed(jobId: string, errorMessage: string, nextRunAt: Date | null): Promise<void>;
+  releaseStale(lockedBefore: Date): Promise<number>;
+  requeue(jobId: string): Promise<boolean>;
+  getJob(jobId: string): Promise<QueueJob | null>;
+  listJobs(filter: JobListFilter): Promise<QueueJob[]>;
+  countByStatus(): Promise<Record<JobStatus, number>>;
+}
+
+/**
+ * Armazenamento em tabela Postgres (message_jobs) via Supabase
+ */
+class SupabaseQueueStorage implements QueueStorage {
+  private table = 'message_jobs';
+
+  async insert<T>(job: NewQueueJob<T>): Promise<QueueJob<T>> {
+    const now = new Date().toISOString();
+
+    const { data, error } = await supabase
+      .from(this.table)
+      .insert({
+        type: job.type,
+        payload: job.payload,
+        status: 'pending',
+        attempts: 0,
+        max_attempts: job.max_attempts,
+        run_at: job.run_at.toISOString(),
+        group_key: job.group_key || null,
+        created_at: now,
+        updated_at: now
+      })
+      .select('*')
+      .single();
+
+    if (error) {
+      logger.error('Erro ao inserir job na fila:', error);
+      throw error;
+    }
+
+    return data as QueueJob<T>;
+  }
+
+  async claimDue(limit: number): Promise<QueueJob[]> {
+    const now = new Date().toISOString();
+
+    const [{ data: candidates, error }, { data: running, error: runningError }] = await Promise.all([
+      supabase
+        .from(this.table)
+        .select('*')
+        .eq('status', 'pending')
+        .lte('run_at', now)
+        .order('run_at', { ascending: true })
+        .limit(limit * CLAIM_OVERFETCH),
+      supabase
+        .from(this.table)
+        .select('group_key')
+        .eq('status', 'processing')
+        .not('group_key', 'is', null)
+    ]);
+
+    if (error || runningError) {
+      logger.error('Erro ao buscar jobs pendentes:', error || runningError);
+      return [];
+    }
+
+    // Conversas com job em execução ficam de fora: o próximo turno espera o atual terminar
+    const busyGroups = new Set((running || []).map(row => row.group_key as string));
+    const claimed: QueueJob[] = [];
+
+    for (const candidate of (candidates || []) as QueueJob[]) {
+      if (claimed.length >= limit) {
+        break;
+      }
+
+      if (candidate.group_key && busyGroups.has(candidate.group_key)) {
+        continue;
+      }
+
+      // Atualização condicional: só um worker consegue mudar o status de pending.
+      // O índice único parcial de group_key em processing barra dois workers na mesma conversa.
+      const { data, error: claimError } = await supabase
+        .from(this.table)
+        .update({
+          status: 'processing',
+          attempts: candidate.attempts + 1,
+          locked_at: now,
+          updated_at: now
+        })
+        .eq('id', candidate.id)
+        .eq('status', 'pending')
+        .select('*');
+
+      if (claimError) {
+        if (claimError.code !== UNIQUE_VIOLATION) {
+          logger.error('Erro ao reservar job:', claimError);
+        }
+        continue;
+      }
+
+      if (data && data.length > 0) {
+        claimed.push(data[0] as QueueJob);
+        if (candidate.group_key) {
+          busyGroups.add(candidate.group_key);
+        }
+      }
+    }
+
+    return claimed;
+  }
+
+  async findPendingByGroup(type: string, groupKey: string): Promise<QueueJob | null> {
+    const { data, error } = await supabase
+      .from(this.table)
+      .select('*')
+      .eq('type', type)
+      .eq('group_key', groupKey)
+      .eq('status', 'pending')
+      .order('created_at', { ascending: false })
+      .limit(1);
+
+    if (error) {
+      logger.error('Erro ao buscar job pendente do grupo:', error);
+      return null;
+    }
+
+    return (data?.[0] as QueueJob) || null;
+  }
+
+  async updatePending<T>(job: QueueJob<T>, payload: T, runAt: Date): Promise<QueueJob<T> | null> {
+    // Concorrência otimista: falha se o job foi reservado ou alterado nesse meio tempo
+    const { data, error } = await supabase
+      .from(this.table)
+      .update({
+        payload,
+        run_at: runAt.toISOString(),
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', job.id)
+      .eq('status', 'pending')
+      .eq('updated_at', job.updated_at)
+      .select('*');
+
+    if (error) {
+      logger.error('Erro ao atualizar job pendente:', error);
+      return null;
+    }
+
+    return (data?.[0] as QueueJob<T>) || null;
+  }
+
+  async markCompleted(jobId: string): Promise<void> {
+    const now = new Date().toISOString();
+
+    const { error } = await supabase
+      .from(this.table)
+      .update({
+        status: 'completed',
+        locked_at: null,
+        completed_at: now,
+        updated_at: now
+      })
+      .eq('id', jobId);
+
+    if (error) {
+      logger.error('Erro ao concluir job:', error);
+    }
+  }
+
+  async markFailed(jobId: string, errorMessage: string, nextRunAt: Date | null): Promise<void> {
+    const { error } = await supabase
+      .from(this.table)
+      .update({
+        status: nextRunAt ? 'pending' : 'dead',
+        last_error: errorMessage,
+        run_at: nextRunAt ? nextRunAt.toISOString() : undefined,
+        locked_at: null,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', jobId);
+
+    if (error) {
+      logger.error('Erro ao registrar falha do job:', error);
+    }
+  }
+
+  async releaseStale(lockedBefore: Date): Promise<number> {
+    const { data, error } = await supabase
+      .from(this.table)
+      .update({
+        status: 'pending',
+        locked_at: null,
+        updated_at: new Date().toISOString()
+      })
+      .eq('status', 'processing')
+      .lt('locked_at', lockedBefore.toISOString())
+      .select('id');
+
+    if (error) {
+      logger.error('Erro ao liberar jobs travados:', error);
+      return 0;
+    }
+
+    return data?.length || 0;
+  }
+
+  async requeue(jobId: string): Promise<boolean> {
+    const now = new Date().toISOString();
+
+    const { data, error } = await supabase
+      .from(this.table)
+      .update({
+        status: 'pending',
+        attempts: 0,
+        run_at: now,
+        locked_at: null,
+        updated_at: now
+      })
+      .eq('id', jobId)
+      .eq('status', 'dead')
+      .select('id');
+
+    if (error) {
+      logger.error('Erro ao reenfileirar job:', error);
+      return false;
+    }
+
+    return (data?.length || 0) > 0;
+  }
+
+  async getJob(jobId: string): Promise<QueueJob | null> {
+    const { data, error } = await supabase
+      .from(this.table)
+      .select('*')
+      .eq('id', jobId)
+      .single();
+
+    if (error) {
+      if (error.code !== 'PGRST116') {
+        logger.error('Erro ao buscar job:', error);
+      }
+      return null;
+    }
+
+    return data as QueueJob;
+  }
+
+  async listJobs(filter: JobListFilter): Promise<QueueJob[]> {
+    let query = supabase
+      .from(this.table)
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(filter.limit || 50);
+
+    if (filter.status) {
+      query = query.eq('status', filter.status);
+    }
+
+    if (filter.type) {
+      query = query.eq('type', filter.type);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      logger.error('Erro ao listar jobs:', error);
+      return [];
+    }
+
+    return (data || []) as QueueJob[];
+  }
+
+  async countByStatus(): Promise<Record<JobStatus, number>> {
+    const counts = {} as Record<JobStatus, number>;
+
+    for (const status of JOB_STATUSES) {
+      const { count, error } = await supabase
+        .from(this.table)
+        .select('*', { count: 'exact', head: true })
+        .eq('status', status);
+
+      if (error) {
+        logger.error('Erro ao contar jobs:', error);
+      }
+
+      counts[status] = count || 0;
+    }
+
+    return counts;
+  }
+}
+
+/**
+ * Armazenamento em memória, usado em testes e desenvolvimento local
+ */
+class MemoryQueueStorage implements QueueStorage {
+  private jobs = new Map<string, QueueJob>();
+
+  async insert<T>(job: NewQueueJob<T>): Promise<QueueJob<T>> {
+    const now = new Date().toISOString();
+    const stored: QueueJob<T> = {
+      id: uuidv4(),
+      type: job.type,
+      payload: job.payload,
+      status: 'pending',
+      attempts: 0,
+      max_attempts: job.max_attempts,
+      run_at: job.run_at.toISOString(),
+      group_key: job.group_key || null,
+      last_error: null,
+      locked_at: null,
+      completed_at: null,
+      created_at: now,
+      updated_at: now
+    };
+
+    this.jobs.set(stored.id, stored);
+    return { ...stored };
+  }
+
+  async claimDue(limit: number): Promise<QueueJob[]> {
+    const now = new Date();
+    const busyGroups = new Set(
+      Array.from(this.jobs.values())
+        .filter(job => job.status === 'processing' && job.group_key)
+        .map(job => job.group_key as string)
+    );
+    const due = Array.from(this.jobs.values())
+      .filter(job => job.status === 'pending' && new Date(job.run_at) <= now)
+      .sort((a, b) => a.run_at.localeCompare(b.run_at));
+    const claimed: QueueJob[] = [];
+
+    for (const job of due) {
+      if (claimed.length >= limit) {
+        break;
+      }
+
+      // Conversa com job em execução: o próximo turno espera o atual terminar
+      if (job.group_key && busyGroups.has(job.group_key)) {
+        continue;
+      }
+
+      job.status = 'processing';
+      job.attempts += 1;
+      job.locked_at = now.toISOString();
+      job.updated_at = now.toISOString();
+      claimed.push({ ...job });
+
+      if (job.group_key) {
+        busyGroups.add(job.group_key);
+      }
+    }
+
+    return claimed;
+  }
+
+  async findPendingByGroup(type: string, groupKey: string): Promise<QueueJob | null> {
+    const job = Array.from(this.jobs.values())
+      .filter(j => j.type === type && j.group_key === groupKey && j.status === 'pending')
+      .sort((a, b) => b.created_at.localeCompare(a.created_at))[0];
+
+    return job ? { ...job } : null;
+  }
+
+  async updatePending<T>(job: QueueJob<T>, payload: T, runAt: Date): Promise<QueueJob<T> | null> {
+    const stored = this.jobs.get(job.id);
+    if (!stored || stored.status !== 'pending' || stored.updated_at !== job.updated_at) {
+      return null;
+    }
+
+    stored.payload = payload;
+    stored.run_at = runAt.toISOString();
+    stored.updated_at = new Date().toISOString();
+    return { ...stored };
+  }
+
+  async markCompleted(jobId: string): Promise<void> {
+    const job = this.jobs.get(jobId);
+    if (!job) {
+      return;
+    }
+
+    const now = new Date().toISOString();
+    job.status = 'completed';
+    job.locked_at = null;
+    job.completed_at = now;
+    job.updated_at = now;
+  }
+
+  async markFailed(jobId: string, errorMessage: string, nextRunAt: Date | null): Promise<void> {
+    const job = this.jobs.get(jobId);
+    if (!job) {
+      return;
+    }
+
+    job.status = nextRunAt ? 'pending' : 'dead';
+    job.last_error = errorMessage;
+    job.locked_at = null;
+    job.updated_at = new Date().toISOString();
+
+    if (nextRunAt) {
+      job.run_at = nextRunAt.toISOString();
+    }
+  }
+
+  async releaseStale(lockedBefore: Date): Promise<number> {
+    let released = 0;
+
+    for (const job of this.jobs.values()) {
+      if (job.status === 'processing' && job.locked_at && new Date(job.locked_at) < lockedBefore) {
+        job.status = 'pending';
+        job.locked_at = null;
+        released++;
+      }
+    }
+
+    return released;
+  }
+
+  async requeue(jobId: string): Promise<boolean> {
+    const job = this.jobs.get(jobId);
+    if (!job || job.status !== 'dead') {
+      return false;
+    }
+
+    const now = new Date().toISOString();
+    job.status = 'pending';
+    job.attempts = 0;
+    job.run_at = now;
+    job.updated_at = now;
+    return true;
+  }
+
+  async getJob(jobId: string): Promise<QueueJob | null> {
+    const job = this.jobs.get(jobId);
+    return job ? { ...job } : null;
+  }
+
+  async listJobs(filter: JobListFilter): Promise<QueueJob[]> {
+    return Array.from(this.jobs.values())
+      .filter(job => !filter.status || job.status === filter.status)
+      .filter(job => !filter.type || job.type === filter.type)
+      .sort((a, b) => b.created_at.localeCompare(a.created_at))
+      .slice(0, filter.limit || 50)
+      .map(job => ({ ...job }));
+  }
+
+  async countByStatus(): Promise<Record<JobStatus, number>> {
+    const counts = { pending: 0, processing: 0, completed: 0, dead: 0 };
+
+    for (const job of this.jobs.values()) {
+      counts[job.status]++;
+    }
+
+    return counts;
+  }
+
+  /**
+   * Remove todos os jobs (útil entre testes)
+   */
+  clear(): void {
+    this.jobs.clear();
+  }
+}
+
+export { SupabaseQueueStorage, MemoryQueueStorage, JOB_STATUSES };
@@ -0,0 +1,219 @@
+import { supabase } from '../config/supabase';
+import { logger } from '../utils/logger';
+import { ProcessedMessage } from '../types/schemas';
+import { classifyJid } from '../utils/jid';
+import { messageProcessor } from './messageProcessor';
+import { deduplicationService } from './deduplicationService';
+import { tenantContext, TenantContext } from './tenantContext';
+
+export interface ReplayFilter {
+  establishmentId?: string | undefined;
+  from?: Date | undefined;
+  to?: Date | undefined;
+  // Por padrão só as mensagens nunca respondidas (processed = false)
+  processed?: boolean | undefined;
+  limit?: number | undefined;
+}
+
+export interface ReplayOptions {
+  dryRun?: boolean;
+}
+
+// Resultado de uma conversa reprocessada (as mensagens do mesmo cliente viram um único turno)
+export interface ReplayedConversation {
+  establishmentId: string;
+  clientPhone: string;
+  messageIds: string[];
+  success: boolean;
+  // Na simulação, a intenção detectada (sem resposta quando o turno cairia num diálogo de agendamento)
+  intent?: string | undefined;
+  response?: string | undefined;
+  error?: string | undefined;
+}
+
+export interface ReplayReport {
+  dryRun: boolean;
+  selected: number;
+  conversations: number;
+  succeeded: number;
+  failed: number;
+  skipped: number;
+  results: ReplayedConversation[];
+}
+
+interface StoredMessage {
+  message_id: string;
+  establishment_id: string;
+  client_phone: string;
+  client_name: string | null;
+  message_content: string;
+  message_type: ProcessedMessage['messageType'];
+  metadata: string | Record<string, any> | null;
+  created_at: string;
+}
+
+const DEFAULT_LIMIT = 200;
+
+// Função para buscar as mensagens recebidas que atendem ao filtro
+const selectMessages = async (filter: ReplayFilter): Promise<StoredMessage[]> => {
+  let query = supabase
+    .from('whatsapp_messages')
+    .select('message_id, establishment_id, client_phone, client_name, message_content, message_type, metadata, created_at')
+    .eq('is_from_client', true)
+    .eq('processed', filter.processed ?? false)
+    .order('created_at', { ascending: true })
+    .limit(filter.limit || DEFAULT_LIMIT);
+
+  if (filter.establishmentId) {
+    query = query.eq('establishment_id', filter.establishmentId);
+  }
+  if (filter.from) {
+    query = query.gte('created_at', filter.from.toISOString());
+  }
+  if (filter.to) {
+    query = query.lte('created_at', filter.to.toISOString());
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    logger.error('Erro ao selecionar mensagens para reprocessamento:', error);
+    throw error;
+  }
+
+  return (data || []) as StoredMessage[];
+};
+
+// Função para montar o contexto de cada estabelecimento a partir da sua instância
+const loadTenants = async (establishmentIds: string[]): Promise<Map<string, TenantContext>> => {
+  const { data, error } = await supabase
+    .from('uazapi_configurations')
+    .select('*')
+    .in('establishment_id', establishmentIds);
+
+  if (error) {
+    logger.error('Erro ao buscar instâncias para reprocessamento:', error);
+    throw error;
+  }
+
+  const tenants = new Map<string, TenantContext>();
+  for (const instanceConfig of data || []) {
+    tenants.set(instanceConfig.establishment_id, await tenantContext.fromInstanceConfig(instanceConfig));
+  }
+
+  return tenants;
+};
+
+// Função para reconstruir a mensagem processada a partir da linha gravada pelo webhook
+const toProcessedMessage = (row: StoredMessage, instanceName: string): ProcessedMessage => {
+  const metadata = typeof row.metadata === 'string'
+    ? JSON.parse(row.metadata) as Record<string, any>
+    : row.metadata || {};
+  const chatJid: string | undefined = metadata.remoteJid;
+  const chatType = chatJid ? classifyJid(chatJid) : 'private';
+
+  return {
+    messageId: row.message_id,
+    instanceName,
+    clientPhone: row.client_phone,
+    ...(row.client_name ? { clientName: row.client_name } : {}),
+    messageContent: row.message_content,
+    messageType: row.message_type,
+    timestamp: Math.floor(new Date(row.created_at).getTime() / 1000),
+    isFromClient: true,
+    chatType,
+    ...(chatJid ? { chatJid } : {}),
+    metadata: { ...metadata, replayed: true }
+  };
+};
+
+// Função para reprocessar mensagens salvas que não foram respondidas
+const replay = async (filter: ReplayFilter, options: ReplayOptions = {}): Promise<ReplayReport> => {
+  const dryRun = options.dryRun || false;
+  const rows = await selectMessages(filter);
+  const report: ReplayReport = {
+    dryRun,
+    selected: rows.length,
+    conversations: 0,
+    succeeded: 0,
+    failed: 0,
+    skipped: 0,
+    results: []
+  };
+
+  if (rows.length === 0) {
+    return report;
+  }
+
+  const tenants = await loadTenants([...new Set(rows.map(row => row.establishment_id))]);
+
+  // Agrupar por conversa, mantendo a ordem de chegada
+  const conversations = new Map<string, StoredMessage[]>();
+  for (const row of rows) {
+    const key = `${row.establishment_id}:${row.client_phone}`;
+    conversations.set(key, [...(conversations.get(key) || []), row]);
+  }
+
+  report.conversations = conversations.size;
+
+  for (const conversation of conversations.values()) {
+    const first = conversation[0]!;
+    const messageIds = conversation.map(row => row.message_id);
+    const tenant = tenants.get(first.establishment_id);
+
+    if (!tenant) {
+      logger.warn('Estabelecimento sem instância configurada, mensagens ignoradas no reprocessamento', {
+        establishmentId: first.establishment_id,
+        messageIds
+      });
+      report.skipped += conversation.length;
+      continue;
+    }
+
+    const messages = conversation.map(row => toProcessedMessage(row, tenant.instanceName));
+
+    if (!dryRun) {
+      // A reserva de resposta depende do registro de entrega; garantir que ele exista
+      for (const message of messages) {
+        await deduplicationService.ensureDelivery(tenant.instanceName, message.messageId);
+      }
+    }
+
+    const result = await tenantContext.runWithTenant(tenant, () => messageProcessor.processBurst(messages, { dryRun }));
+
+    if (result.success && !dryRun) {
+      await messageProcessor.markAsProcessed(messageIds);
+    }
+
+    report.results.push({
+      establishmentId: first.establishment_id,
+      clientPhone: first.client_phone,
+      messageIds,
+      success: result.success,
+      intent: result.intent,
+      response: result.response,
+      error: result.error
+    });
+
+    if (result.success) {
+      report.succeeded++;
+    } else {
+      report.failed++;
+    }
+  }
+
+  logger.info('Reprocessamento de mensagens concluído', {
+    dryRun,
+    selected: report.selected,
+    conversations: report.conversations,
+    succeeded: report.succeeded,
+    failed: report.failed,
+    skipped: report.skipped
+  });
+
+  return report;
+};
+
+export const replayService = {
+  replay
+};
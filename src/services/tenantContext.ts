@@ -0,0 +1,73 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { supabase, UazapiConfiguration, AiPrompt } from '../config/supabase';
+import { logger } from '../utils/logger';
+import { promptService } from './promptService';
+
+// Estabelecimento (tenant) ao qual a execução atual pertence
+export interface TenantContext {
+  establishmentId: string;
+  instanceName: string;
+  instanceConfig: UazapiConfiguration;
+  prompts: AiPrompt | null;
+}
+
+const storage = new AsyncLocalStorage<TenantContext>();
+
+// Função para montar o contexto do tenant a partir de uma configuração de instância já carregada
+const fromInstanceConfig = async (instanceConfig: UazapiConfiguration): Promise<TenantContext> => {
+  return {
+    establishmentId: instanceConfig.establishment_id,
+    instanceName: instanceConfig.instance_name,
+    instanceConfig,
+    prompts: await promptService.getPrompts(instanceConfig.establishment_id)
+  };
+};
+
+// Função para resolver o tenant pelo nome da instância da UazAPI
+const resolveByInstance = async (instanceName: string): Promise<TenantContext | null> => {
+  const { data, error } = await supabase
+    .from('uazapi_configurations')
+    .select('*')
+    .eq('instance_name', instanceName)
+    .single();
+
+  if (error && error.code !== 'PGRST116') { // PGRST116 = no rows returned
+    logger.error('Erro ao resolver estabelecimento da instância:', error);
+    throw error;
+  }
+
+  if (!data) {
+    return null;
+  }
+
+  return fromInstanceConfig(data as UazapiConfiguration);
+};
+
+// Função para executar um trecho com o tenant disponível para todos os serviços chamados
+const runWithTenant = <T>(tenant: TenantContext, fn: () => Promise<T>): Promise<T> => {
+  return storage.run(tenant, fn);
+};
+
+// Função para obter o tenant da execução atual (se houver)
+const getTenant = (): TenantContext | undefined => {
+  return storage.getStore();
+};
+
+// Função para obter o tenant da execução atual; não existe estabelecimento padrão
+const requireTenant = (): TenantContext => {
+  const tenant = storage.getStore();
+
+  if (!tenant) {
+    throw new Error('Nenhum estabelecimento associado à execução atual');
+  }
+
+  return tenant;
+};
+
+export const tenantContext = {
+  fromInstanceConfig,
+  resolveByInstance,
+  runWithTenant,
+  getTenant,
+  requireTenant
+};
@@ -1,7 +1,5 @@
 import axios, { AxiosResponse } from 'axios';
-import { SendMessage } from '@/types/schemas';
-import { logger } from '@/utils/logger';
-import { supabase } from '@/config/supabase';
+import { logger } from '../utils/logger';
 
 // Interface para resposta da UazAPI
 interface UazapiResponse {
@@ -12,13 +10,14 @@ interface UazapiResponse {
 }
 
 // Interface para status da instância
-interface InstanceStatus {
+export interface InstanceStatus {
   instance: string;
   status: 'open' | 'close' | 'connecting';
   qrcode?: string;
 }
 
 // Classe para gerenciar comunicação com UazAPI
+// Envios de mensagens devem passar pelo outboundGateway, que resolve as credenciais da instância
 class UazapiService {
   private baseUrl: string;
   private adminToken: string;
@@ -238,118 +237,71 @@ class UazapiService {
       };
     }
   }
-}
 
-// Instância global do serviço (será configurada dinamicamente)
-let uazapiService: UazapiService | null = null;
+  // Desconectar o WhatsApp da instância (a instância continua existindo)
+  async logoutInstance(instanceName: string): Promise<UazapiResponse> {
+    try {
+      const url = `${this.baseUrl}/instance/logout/${instanceName}`;
 
-// Função para obter configuração da instância
-const getInstanceConfig = async (instanceName: string) => {
-  try {
-    const { data, error } = await supabase
-      .from('uazapi_configurations')
-      .select('*')
-      .eq('instance_name', instanceName)
-      .single();
+      const response: AxiosResponse = await axios.delete(url, {
+        headers: this.getHeaders(),
+        timeout: 30000
+      });
 
-    if (error) {
-      logger.error('Erro ao buscar configuração da instância:', error);
-      return null;
-    }
+      logger.info('Instância desconectada:', {
+        instanceName,
+        status: response.status
+      });
 
-    return data;
-  } catch (error) {
-    logger.error('Erro ao buscar configuração da instância:', error);
-    return null;
-  }
-};
-
-// Função principal para enviar mensagem
-export const sendMessage = async (messageData: SendMessage): Promise<boolean> => {
-  try {
-    // Buscar configuração da instância
-    const config = await getInstanceConfig(messageData.instanceName);
-    if (!config) {
-      logger.error('Configuração da instância não encontrada:', messageData.instanceName);
-      return false;
-    }
+      return {
+        success: true,
+        data: response.data
+      };
+    } catch (error: any) {
+      logger.error('Erro ao desconectar instância:', {
+        instanceName,
+        error: error.message
+      });
 
-    // Criar serviço UazAPI
-    const service = new UazapiService(config.uazapi_url, config.admin_token);
-
-    let result: UazapiResponse;
-
-    // Enviar mensagem baseada no tipo
-    if (messageData.messageType === 'text') {
-      result = await service.sendTextMessage(
-        messageData.instanceName,
-        config.instance_token,
-        messageData.phone,
-        messageData.message
-      );
-    } else if (messageData.mediaUrl) {
-      result = await service.sendMediaMessage(
-        messageData.instanceName,
-        config.instance_token,
-        messageData.phone,
-        messageData.mediaUrl,
-        messageData.caption,
-        messageData.fileName
-      );
-    } else {
-      logger.error('Tipo de mensagem não suportado ou URL de mídia ausente');
-      return false;
+      return {
+        success: false,
+        error: error.message || 'Erro desconhecido'
+      };
     }
+  }
 
-    if (!result.success) {
-      logger.error('Falha ao enviar mensagem:', result.error);
-      return false;
-    }
+  // Remover instância
+  async deleteInstance(instanceName: string): Promise<UazapiResponse> {
+    try {
+      const url = `${this.baseUrl}/instance/delete/${instanceName}`;
 
-    return true;
-  } catch (error) {
-    logger.error('Erro ao enviar mensagem:', error);
-    return false;
-  }
-};
-
-// Função para verificar status de todas as instâncias
-export const checkAllInstancesStatus = async (): Promise<void> => {
-  try {
-    const { data: configs, error } = await supabase
-      .from('uazapi_configurations')
-      .select('*');
-
-    if (error) {
-      logger.error('Erro ao buscar configurações das instâncias:', error);
-      return;
-    }
+      const response: AxiosResponse = await axios.delete(url, {
+        headers: this.getHeaders(),
+        timeout: 30000
+      });
 
-    for (const config of configs) {
-      const service = new UazapiService(config.uazapi_url, config.admin_token);
-      const status = await service.getInstanceStatus(config.instance_name);
-      
-      if (status) {
-        // Atualizar status no banco
-        const newStatus = status.status === 'open' ? 'connected' : 'disconnected';
-        
-        await supabase
-          .from('uazapi_configurations')
-          .update({ 
-            status: newStatus,
-            qr_code: status.qrcode || null
-          })
-          .eq('id', config.id);
-
-        logger.info('Status da instância atualizado:', {
-          instanceName: config.instance_name,
-          status: newStatus
-        });
-      }
+      logger.info('Instância removida:', {
+        instanceName,
+        status: response.status
+      });
+
+      return {
+        success: true,
+        data: response.data
+      };
+    } catch (error: any) {
+      logger.error('Erro ao remover instância:', {
+        instanceName,
+        error: error.message,
+        status: error.response?.status
+      });
+
+      return {
+        success: false,
+        error: error.message || 'Erro desconhecido'
+      };
     }
-  } catch (error) {
-    logger.error('Erro ao verificar status das instâncias:', error);
   }
-};
+}
 
 export { UazapiService };
\ No newline at end of file
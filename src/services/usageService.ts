@@ -0,0 +1,267 @@
+import { supabase } from '../config/supabase';
+import { logger } from '../utils/logger';
+
+// Chamada à OpenAI que consumiu tokens
+export type UsageKind = 'intent' | 'response';
+
+export interface UsageRecord {
+  kind: UsageKind;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+}
+
+// Orçamento mensal do estabelecimento (sem linha em ai_budgets, o uso é ilimitado)
+export interface AiBudget {
+  establishment_id: string;
+  monthly_token_limit: number | null;
+  monthly_cost_limit: number | null;
+  // Frações do orçamento que disparam aviso (ex.: [0.8, 0.95])
+  warning_thresholds: number[] | null;
+}
+
+export interface BudgetStatus {
+  period: string;
+  usedTokens: number;
+  usedCost: number;
+  tokenLimit: number | null;
+  costLimit: number | null;
+  // Maior fração consumida entre os limites definidos
+  ratio: number;
+  exceeded: boolean;
+}
+
+interface CachedBudget {
+  budget: AiBudget | null;
+  usedTokens: number;
+  usedCost: number;
+  period: string;
+  expiresAt: number;
+}
+
+// Preço em dólares por 1 milhão de tokens (entrada / saída)
+const MODEL_PRICES: Record<string, { input: number; output: number }> = {
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-3.5-turbo': { input: 0.5, output: 1.5 }
+};
+
+const DEFAULT_THRESHOLDS = [0.8, 0.95];
+
+// O total do mês é recarregado do banco periodicamente; entre recargas, o uso é somado em memória
+const CACHE_TTL_MS = 60 * 1000;
+const budgetCache = new Map<string, CachedBudget>();
+
+// Função para identificar o mês corrente (UTC)
+const currentPeriod = (): string => {
+  return new Date().toISOString().slice(0, 7);
+};
+
+// Função para estimar o custo de uma chamada
+const estimateCost = (model: string, promptTokens: number, completionTokens: number): number => {
+  // Modelos com sufixo de versão (ex.: gpt-4o-mini-2024-07-18) usam o preço do modelo base
+  const key = Object.keys(MODEL_PRICES)
+    .sort((a, b) => b.length - a.length)
+    .find(name => model.startsWith(name));
+  const price = MODEL_PRICES[key || 'gpt-4o-mini']!;
+
+  return (promptTokens * price.input + completionTokens * price.output) / 1_000_000;
+};
+
+// Função para carregar orçamento e consumo do mês do estabelecimento
+const loadBudget = async (establishmentId: string): Promise<CachedBudget> => {
+  const period = currentPeriod();
+  const cached = budgetCache.get(establishmentId);
+  if (cached && cached.expiresAt > Date.now() && cached.period === period) {
+    return cached;
+  }
+
+  const { data: budget, error: budgetError } = await supabase
+    .from('ai_budgets')
+    .select('*')
+    .eq('establishment_id', establishmentId)
+    .maybeSingle();
+
+  if (budgetError) {
+    logger.error('Erro ao buscar orçamento de IA:', budgetError);
+    throw budgetError;
+  }
+
+  const { data: usage, error: usageError } = await supabase
+    .from('ai_usage')
+    .select('total_tokens, cost')
+    .eq('establishment_id', establishmentId)
+    .gte('created_at', `${period}-01T00:00:00.000Z`);
+
+  if (usageError) {
+    logger.error('Erro ao somar uso de IA do mês:', usageError);
+    throw usageError;
+  }
+
+  const entry: CachedBudget = {
+    budget: budget as AiBudget | null,
+    usedTokens: (usage || []).reduce((sum, row) => sum + (row.total_tokens || 0), 0),
+    usedCost: (usage || []).reduce((sum, row) => sum + Number(row.cost || 0), 0),
+    period,
+    expiresAt: Date.now() + CACHE_TTL_MS
+  };
+  budgetCache.set(establishmentId, entry);
+
+  return entry;
+};
+
+// Função para calcular a situação do orçamento a partir do consumo
+const toStatus = (entry: CachedBudget): BudgetStatus => {
+  const tokenLimit = entry.budget?.monthly_token_limit ?? null;
+  const costLimit = entry.budget?.monthly_cost_limit ?? null;
+  const ratios = [
+    tokenLimit ? entry.usedTokens / tokenLimit : 0,
+    costLimit ? entry.usedCost / costLimit : 0
+  ];
+  const ratio = Math.max(...ratios);
+
+  return {
+    period: entry.period,
+    usedTokens: entry.usedTokens,
+    usedCost: Math.round(entry.usedCost * 10000) / 10000,
+    tokenLimit,
+    costLimit,
+    ratio: Math.round(ratio * 1000) / 1000,
+    exceeded: ratio >= 1
+  };
+};
+
+// Função para obter a situação do orçamento do estabelecimento no mês
+const getBudgetStatus = async (establishmentId: string): Promise<BudgetStatus> => {
+  return toStatus(await loadBudget(establishmentId));
+};
+
+// Função para saber se o estabelecimento ainda pode usar a IA (falhas de consulta não bloqueiam o atendimento)
+const canUseAI = async (establishmentId: string): Promise<boolean> => {
+  try {
+    return !(await getBudgetStatus(establishmentId)).exceeded;
+  } catch (error) {
+    logger.error('Erro ao verificar orçamento de IA, liberando uso:', error);
+    return true;
+  }
+};
+
+// Função para registrar o aviso de limiar (uma vez por limiar e mês)
+const warnThresholds = async (establishmentId: string, previous: BudgetStatus, current: BudgetStatus): Promise<void> => {
+  const entry = budgetCache.get(establishmentId);
+  const thresholds = entry?.budget?.warning_thresholds || DEFAULT_THRESHOLDS;
+  const crossed = [...thresholds, 1].filter(threshold => previous.ratio < threshold && current.ratio >= threshold);
+
+  for (const threshold of crossed) {
+    const { error } = await supabase
+      .from('ai_budget_warnings')
+      .insert({
+        establishment_id: establishmentId,
+        period: current.period,
+        threshold,
+        used_tokens: current.usedTokens,
+        used_cost: current.usedCost,
+        created_at: new Date().toISOString()
+      });
+
+    // 23505 = aviso já registrado por outra execução
+    if (error && error.code !== '23505') {
+      logger.error('Erro ao registrar aviso de orçamento de IA:', error);
+      continue;
+    }
+
+    if (!error) {
+      logger.warn(threshold >= 1
+        ? 'Orçamento de IA esgotado; estabelecimento passa a usar respostas automáticas'
+        : 'Orçamento de IA próximo do limite', {
+        establishmentId,
+        threshold,
+        usedTokens: current.usedTokens,
+        usedCost: current.usedCost,
+        tokenLimit: current.tokenLimit,
+        costLimit: current.costLimit
+      });
+    }
+  }
+};
+
+// Função para registrar o consumo de uma chamada à OpenAI
+const recordUsage = async (establishmentId: string, usage: UsageRecord): Promise<void> => {
+  try {
+    const totalTokens = usage.promptTokens + usage.completionTokens;
+    const cost = estimateCost(usage.model, usage.promptTokens, usage.completionTokens);
+
+    // Carregar o total do mês antes de gravar, para não contar esta chamada duas vezes
+    const entry = await loadBudget(establishmentId);
+
+    const { error } = await supabase
+      .from('ai_usage')
+      .insert({
+        establishment_id: establishmentId,
+        kind: usage.kind,
+        model: usage.model,
+        prompt_tokens: usage.promptTokens,
+        completion_tokens: usage.completionTokens,
+        total_tokens: totalTokens,
+        cost,
+        created_at: new Date().toISOString()
+      });
+
+    if (error) {
+      logger.error('Erro ao registrar uso de IA:', error);
+      return;
+    }
+
+    const previous = toStatus(entry);
+    entry.usedTokens += totalTokens;
+    entry.usedCost += cost;
+
+    if (entry.budget) {
+      await warnThresholds(establishmentId, previous, toStatus(entry));
+    }
+  } catch (error) {
+    logger.error('Erro ao registrar uso de IA:', error);
+  }
+};
+
+// Função para definir o orçamento mensal do estabelecimento
+const setBudget = async (
+  establishmentId: string,
+  budget: Pick<AiBudget, 'monthly_token_limit' | 'monthly_cost_limit' | 'warning_thresholds'>
+): Promise<AiBudget> => {
+  const { data, error } = await supabase
+    .from('ai_budgets')
+    .upsert({
+      establishment_id: establishmentId,
+      ...budget,
+      updated_at: new Date().toISOString()
+    }, { onConflict: 'establishment_id' })
+    .select('*')
+    .single();
+
+  if (error) {
+    logger.error('Erro ao salvar orçamento de IA:', error);
+    throw error;
+  }
+
+  invalidateCache(establishmentId);
+  return data as AiBudget;
+};
+
+// Função para descartar o cache (ex.: após alterar o orçamento)
+const invalidateCache = (establishmentId?: string): void => {
+  if (establishmentId) {
+    budgetCache.delete(establishmentId);
+  } else {
+    budgetCache.clear();
+  }
+};
+
+export const usageService = {
+  estimateCost,
+  getBudgetStatus,
+  canUseAI,
+  recordUsage,
+  setBudget,
+  invalidateCache
+};
@@ -0,0 +1,560 @@
+import { supabase } from '../config/supabase';
+import { config } from '../config/env';
+import { logger } from '../utils/logger';
+import { appointmentService } from './appointmentService';
+import { businessHoursService } from './businessHoursService';
+import { contextService } from './contextService';
+import { outboundGateway } from './outboundGateway';
+
+// Cliente aguardando vaga para um serviço, profissional (ou qualquer um) e período
+export interface WaitlistEntry {
+  id: string;
+  establishment_id: string;
+  client_id: string;
+  client_phone: string;
+  service_id: string;
+  professional_id: string | null;
+  date_from: string;
+  date_to: string;
+  status: 'waiting' | 'offered' | 'booked' | 'cancelled' | 'expired';
+  created_at: string;
+  updated_at?: string;
+}
+
+// Horário liberado oferecido a um cliente da lista, reservado até expires_at
+export interface WaitlistOffer {
+  id: string;
+  entry_id: string;
+  establishment_id: string;
+  client_phone: string;
+  professional_id: string;
+  service_id: string;
+  slot_date: string;
+  slot_time: string;
+  status: 'pending' | 'accepted' | 'booked' | 'declined' | 'expired' | 'taken';
+  expires_at: string;
+  created_at: string;
+  responded_at?: string | null;
+}
+
+export interface JoinWaitlistInput {
+  establishmentId: string;
+  clientId: string;
+  clientPhone: string;
+  serviceId: string;
+  professionalId: string | null;
+  dateFrom: string;
+  dateTo: string;
+}
+
+// Horário que ficou livre (ex.: após um cancelamento)
+export interface FreedSlot {
+  establishmentId: string;
+  professionalId: string;
+  date: string;
+  time: string;
+}
+
+// Referência à oferta aberta guardada em context_data.waitlist_offer
+export interface OpenOfferRef {
+  offer_id: string;
+  expires_at: string;
+}
+
+// Função para verificar se a oferta guardada no contexto ainda está no prazo
+const isOfferOpen = (ref: OpenOfferRef | null | undefined): ref is OpenOfferRef => {
+  return Boolean(ref?.offer_id) && new Date(ref!.expires_at).getTime() > Date.now();
+};
+
+// Função para colocar o cliente na lista de espera (sem duplicar um pedido igual ainda ativo)
+const joinWaitlist = async (input: JoinWaitlistInput): Promise<WaitlistEntry> => {
+  let existingQuery = supabase
+    .from('waitlist_entries')
+    .select('*')
+    .eq('establishment_id', input.establishmentId)
+    .eq('client_id', input.clientId)
+    .eq('service_id', input.serviceId)
+    .in('status', ['waiting', 'offered'])
+    .lte('date_from', input.dateTo)
+    .gte('date_to', input.dateFrom)
+    .limit(1);
+
+  existingQuery = input.professionalId
+    ? existingQuery.eq('professional_id', input.professionalId)
+    : existingQuery.is('professional_id', null);
+
+  const { data: existing, error: existingError } = await existingQuery;
+
+  if (existingError) {
+    logger.error('Erro ao buscar pedido na lista de espera:', existingError);
+    throw existingError;
+  }
+
+  if (existing && existing.length > 0) {
+    return existing[0] as WaitlistEntry;
+  }
+
+  const { data, error } = await supabase
+    .from('waitlist_entries')
+    .insert({
+      establishment_id: input.establishmentId,
+      client_id: input.clientId,
+      client_phone: input.clientPhone,
+      service_id: input.serviceId,
+      professional_id: input.professionalId,
+      date_from: input.dateFrom,
+      date_to: input.dateTo,
+      status: 'waiting',
+      created_at: new Date().toISOString()
+    })
+    .select('*')
+    .single();
+
+  if (error) {
+    logger.error('Erro ao entrar na lista de espera:', error);
+    throw error;
+  }
+
+  logger.info('Cliente entrou na lista de espera:', {
+    establishmentId: input.establishmentId,
+    entryId: data.id,
+    dateFrom: input.dateFrom,
+    dateTo: input.dateTo
+  });
+
+  return data as WaitlistEntry;
+};
+
+// Função para atualizar o status de um pedido da lista
+const setEntryStatus = async (entryId: string, status: WaitlistEntry['status']): Promise<void> => {
+  const { error } = await supabase
+    .from('waitlist_entries')
+    .update({ status, updated_at: new Date().toISOString() })
+    .eq('id', entryId);
+
+  if (error) {
+    logger.error('Erro ao atualizar pedido da lista de espera:', error);
+  }
+};
+
+// Função para encerrar uma oferta pendente (só vale se ela ainda estiver pendente)
+const closeOffer = async (offerId: string, status: WaitlistOffer['status']): Promise<boolean> => {
+  const { data, error } = await supabase
+    .from('waitlist_offers')
+    .update({ status, responded_at: new Date().toISOString() })
+    .eq('id', offerId)
+    .eq('status', 'pending')
+    .select('id');
+
+  if (error) {
+    logger.error('Erro ao encerrar oferta da lista de espera:', error);
+    return false;
+  }
+
+  return Boolean(data && data.length > 0);
+};
+
+// Função para registrar a mensagem da oferta, para que um "sim" citando-a seja ligado a essa oferta
+const saveOfferMessage = async (
+  establishmentId: string,
+  clientPhone: string,
+  content: string,
+  messageId: string | undefined,
+  offerId: string
+): Promise<void> => {
+  const { error } = await supabase
+    .from('messages')
+    .insert({
+      establishment_id: establishmentId,
+      phone_number: clientPhone,
+      message_content: content,
+      message_type: 'text',
+      timestamp: new Date().toISOString(),
+      direction: 'outbound',
+      external_message_id: messageId,
+      dialog_data: { kind: 'waitlist_offer', offer_id: offerId }
+    });
+
+  if (error) {
+    logger.error('Erro ao salvar mensagem da oferta da lista de espera:', error);
+  }
+};
+
+// Função para oferecer o horário ao próximo cliente da fila em que ele cabe
+const offerSlot = async (slot: FreedSlot): Promise<WaitlistOffer | null> => {
+  const now = businessHoursService.toLocal();
+  const time = slot.time.length === 5 ? `${slot.time}:00` : slot.time;
+
+  if (slot.date < now.date || (slot.date === now.date && time.slice(0, 5) <= now.time)) {
+    return null;
+  }
+
+  // Uma oferta por vez para o mesmo horário (garantido no banco pelo índice waitlist_offers_active_slot_key)
+  const { data: offers, error: offersError } = await supabase
+    .from('waitlist_offers')
+    .select('entry_id, status')
+    .eq('professional_id', slot.professionalId)
+    .eq('slot_date', slot.date)
+    .eq('slot_time', time);
+
+  if (offersError) {
+    logger.error('Erro ao buscar ofertas do horário:', offersError);
+    return null;
+  }
+
+  if ((offers || []).some(offer => offer.status === 'pending' || offer.status === 'accepted')) {
+    return null;
+  }
+
+  const alreadyOffered = new Set((offers || []).map(offer => offer.entry_id));
+
+  const { data: entries, error: entriesError } = await supabase
+    .from('waitlist_entries')
+    .select('*')
+    .eq('establishment_id', slot.establishmentId)
+    .eq('status', 'waiting')
+    .lte('date_from', slot.date)
+    .gte('date_to', slot.date)
+    .or(`professional_id.is.null,professional_id.eq.${slot.professionalId}`)
+    .order('created_at', { ascending: true });
+
+  if (entriesError) {
+    logger.error('Erro ao buscar lista de espera:', entriesError);
+    return null;
+  }
+
+  for (const entry of (entries || []) as WaitlistEntry[]) {
+    if (alreadyOffered.has(entry.id)) {
+      continue;
+    }
+
+    // O serviço pedido precisa caber inteiro a partir do horário liberado
+    const slots = await appointmentService.getAvailableSlots(
+      slot.establishmentId,
+      slot.date,
+      slot.professionalId,
+      entry.service_id
+    );
+    const freed = slots.find(available => available.time === time);
+    if (!freed) {
+      continue;
+    }
+
+    const expiresAt = new Date(Date.now() + config.waitlist.holdMinutes * 60 * 1000).toISOString();
+    const { data: offer, error } = await supabase
+      .from('waitlist_offers')
+      .insert({
+        entry_id: entry.id,
+        establishment_id: slot.establishmentId,
+        client_phone: entry.client_phone,
+        professional_id: slot.professionalId,
+        service_id: entry.service_id,
+        slot_date: slot.date,
+        slot_time: time,
+        status: 'pending',
+        expires_at: expiresAt,
+        created_at: new Date().toISOString()
+      })
+      .select('*')
+      .single();
+
+    if (error) {
+      // 23505 = o horário já foi oferecido por outra execução ao mesmo tempo (índice único de ofertas ativas)
+      if (error.code === '23505') {
+        logger.info('Horário já oferecido a outro cliente da lista de espera:', {
+          professionalId: slot.professionalId,
+          date: slot.date,
+          time
+        });
+        return null;
+      }
+
+      logger.error('Erro ao registrar oferta da lista de espera:', error);
+      return null;
+    }
+
+    const { data: service } = await supabase
+      .from('services')
+      .select('name')
+      .eq('id', entry.service_id)
+      .maybeSingle();
+
+    const offerMessage = '🎉 *Abriu um horário!*\n\n' +
+      `💼 ${service?.name || 'Serviço'}\n` +
+      `👨‍💼 ${freed.professional_name}\n` +
+      `📅 ${appointmentService.formatDateForDisplay(slot.date)} às ${appointmentService.formatTimeForDisplay(time)}\n\n` +
+      `Você estava na lista de espera. Quer esse horário? Responda *sim* ou *não* em até ${config.waitlist.holdMinutes} minutos.`;
+    const sendResult = await outboundGateway.sendText({
+      to: entry.client_phone,
+      message: offerMessage,
+      instance: { establishmentId: slot.establishmentId }
+    });
+
+    if (!sendResult.success) {
+      // Cliente inalcançável: a vaga segue para o próximo da fila
+      logger.error('Falha ao enviar oferta da lista de espera:', {
+        entryId: entry.id,
+        error: sendResult.error
+      });
+      await closeOffer(offer.id, 'expired');
+      continue;
+    }
+
+    await setEntryStatus(entry.id, 'offered');
+    await saveOfferMessage(slot.establishmentId, entry.client_phone, offerMessage, sendResult.messageId, offer.id);
+    await contextService.updateContext(slot.establishmentId, entry.client_phone, {
+      waitlist_offer: { offer_id: offer.id, expires_at: expiresAt }
+    });
+
+    logger.info('Horário oferecido à lista de espera:', {
+      establishmentId: slot.establishmentId,
+      entryId: entry.id,
+      offerId: offer.id,
+      slotDate: slot.date,
+      slotTime: time
+    });
+
+    return offer as WaitlistOffer;
+  }
+
+  return null;
+};
+
+// Função chamada quando um horário fica livre (ex.: cancelamento)
+const onSlotFreed = async (slot: FreedSlot): Promise<void> => {
+  try {
+    await offerSlot(slot);
+  } catch (error) {
+    logger.error('Erro ao oferecer horário liberado à lista de espera:', error);
+  }
+};
+
+// Função para tratar o "sim" ou "não" do cliente à oferta
+const respondToOffer = async (
+  establishmentId: string,
+  clientPhone: string,
+  offerId: string,
+  accepted: boolean
+): Promise<string> => {
+  await contextService.updateContext(establishmentId, clientPhone, { waitlist_offer: null });
+
+  const { data: offer, error } = await supabase
+    .from('waitlist_offers')
+    .select('*, waitlist_entries(client_id), services(name, price, commission_percentage)')
+    .eq('id', offerId)
+    .eq('establishment_id', establishmentId)
+    .maybeSingle();
+
+  if (error) {
+    logger.error('Erro ao buscar oferta da lista de espera:', error);
+    throw error;
+  }
+
+  if (!offer || offer.status !== 'pending' || new Date(offer.expires_at).getTime() <= Date.now()) {
+    return 'Essa oferta já expirou. Você continua na lista de espera e avisaremos se abrir outro horário.';
+  }
+
+  const slot: FreedSlot = {
+    establishmentId,
+    professionalId: offer.professional_id,
+    date: offer.slot_date,
+    time: offer.slot_time
+  };
+
+  if (!accepted) {
+    if (await closeOffer(offer.id, 'declined')) {
+      await setEntryStatus(offer.entry_id, 'waiting');
+      await offerSlot(slot);
+    }
+    return 'Tudo bem! Você continua na lista de espera e avisaremos se abrir outro horário. 😊';
+  }
+
+  // Reservar a oferta antes de agendar, para não aceitar duas vezes
+  if (!(await closeOffer(offer.id, 'accepted'))) {
+    return 'Essa oferta já expirou. Você continua na lista de espera e avisaremos se abrir outro horário.';
+  }
+
+  const price = Number(offer.services?.price || 0);
+  const result = await appointmentService.createAppointment({
+    establishment_id: establishmentId,
+    professional_id: offer.professional_id,
+    client_id: offer.waitlist_entries.client_id,
+    service_id: offer.service_id,
+    appointment_date: offer.slot_date,
+    appointment_time: offer.slot_time,
+    total_price: price,
+    commission_value: Math.round(price * (offer.services?.commission_percentage || 0)) / 100
+  });
+
+  if (!result.success) {
+    await supabase
+      .from('waitlist_offers')
+      .update({ status: 'taken' })
+      .eq('id', offer.id);
+    await setEntryStatus(offer.entry_id, 'waiting');
+
+    logger.warn('Horário da lista de espera não pôde ser agendado:', {
+      offerId: offer.id,
+      error: result.error
+    });
+    return 'Que pena, esse horário não está mais disponível. 😕 Você continua na lista de espera.';
+  }
+
+  // 'accepted' só reserva o horário enquanto o agendamento é criado; encerrada, a oferta deixa de bloquear
+  // o horário, que volta a ser oferecido se esse agendamento for cancelado
+  const { error: bookedError } = await supabase
+    .from('waitlist_offers')
+    .update({ status: 'booked' })
+    .eq('id', offer.id);
+
+  if (bookedError) {
+    logger.error('Erro ao encerrar oferta agendada da lista de espera:', bookedError);
+  }
+
+  await setEntryStatus(offer.entry_id, 'booked');
+
+  logger.info('Horário da lista de espera agendado:', {
+    establishmentId,
+    offerId: offer.id,
+    appointmentId: result.data?.id
+  });
+
+  return '✅ *Agendamento realizado!*\n\n' +
+    `💼 ${offer.services?.name || 'Serviço'}\n` +
+    `📅 ${appointmentService.formatDateForDisplay(offer.slot_date)} às ${appointmentService.formatTimeForDisplay(offer.slot_time)}\n\n` +
+    'Até lá! 😊';
+};
+
+// Função para expirar ofertas sem resposta (passando a vaga adiante) e pedidos cujo período acabou
+const processExpired = async (): Promise<{ expiredOffers: number; expiredEntries: number }> => {
+  const report = { expiredOffers: 0, expiredEntries: 0 };
+
+  const { data: offers, error } = await supabase
+    .from('waitlist_offers')
+    .select('*')
+    .eq('status', 'pending')
+    .lt('expires_at', new Date().toISOString());
+
+  if (error) {
+    logger.error('Erro ao buscar ofertas vencidas da lista de espera:', error);
+    return report;
+  }
+
+  for (const offer of (offers || []) as WaitlistOffer[]) {
+    if (!(await closeOffer(offer.id, 'expired'))) {
+      continue;
+    }
+
+    report.expiredOffers++;
+    await setEntryStatus(offer.entry_id, 'waiting');
+    await contextService.updateContext(offer.establishment_id, offer.client_phone, { waitlist_offer: null });
+    await onSlotFreed({
+      establishmentId: offer.establishment_id,
+      professionalId: offer.professional_id,
+      date: offer.slot_date,
+      time: offer.slot_time
+    });
+  }
+
+  const { data: entries, error: entriesError } = await supabase
+    .from('waitlist_entries')
+    .update({ status: 'expired', updated_at: new Date().toISOString() })
+    .eq('status', 'waiting')
+    .lt('date_to', businessHoursService.toLocal().date)
+    .select('id');
+
+  if (entriesError) {
+    logger.error('Erro ao expirar pedidos da lista de espera:', entriesError);
+  } else {
+    report.expiredEntries = (entries || []).length;
+  }
+
+  return report;
+};
+
+// Função para iniciar a verificação periódica das ofertas (apenas no servidor)
+const startWaitlistChecks = (): void => {
+  setInterval(async () => {
+    await processExpired();
+  }, config.waitlist.checkIntervalMs);
+
+  logger.info('Verificação da lista de espera iniciada', {
+    intervalMs: config.waitlist.checkIntervalMs
+  });
+};
+
+// Função para listar a lista de espera do estabelecimento
+const listEntries = async (
+  establishmentId: string,
+  status?: WaitlistEntry['status']
+): Promise<WaitlistEntry[]> => {
+  let query = supabase
+    .from('waitlist_entries')
+    .select('*, clients(name, phone), services(name), professionals(name)')
+    .eq('establishment_id', establishmentId)
+    .order('created_at', { ascending: true });
+
+  if (status) {
+    query = query.eq('status', status);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    logger.error('Erro ao listar lista de espera:', error);
+    throw error;
+  }
+
+  return (data || []) as WaitlistEntry[];
+};
+
+// Função para retirar um pedido da lista; retorna false se ele não estiver ativo
+const cancelEntry = async (establishmentId: string, entryId: string): Promise<boolean> => {
+  const { data, error } = await supabase
+    .from('waitlist_entries')
+    .update({ status: 'cancelled', updated_at: new Date().toISOString() })
+    .eq('id', entryId)
+    .eq('establishment_id', establishmentId)
+    .in('status', ['waiting', 'offered'])
+    .select('id');
+
+  if (error) {
+    logger.error('Erro ao cancelar pedido da lista de espera:', error);
+    throw error;
+  }
+
+  if (!data || data.length === 0) {
+    return false;
+  }
+
+  // Oferta em aberto para esse pedido: o horário segue para o próximo da fila
+  const { data: offers } = await supabase
+    .from('waitlist_offers')
+    .select('*')
+    .eq('entry_id', entryId)
+    .eq('status', 'pending');
+
+  for (const offer of (offers || []) as WaitlistOffer[]) {
+    if (await closeOffer(offer.id, 'expired')) {
+      await contextService.updateContext(establishmentId, offer.client_phone, { waitlist_offer: null });
+      await onSlotFreed({
+        establishmentId,
+        professionalId: offer.professional_id,
+        date: offer.slot_date,
+        time: offer.slot_time
+      });
+    }
+  }
+
+  return true;
+};
+
+export const waitlistService = {
+  isOfferOpen,
+  joinWaitlist,
+  onSlotFreed,
+  respondToOffer,
+  processExpired,
+  startWaitlistChecks,
+  listEntries,
+  cancelEntry
+};
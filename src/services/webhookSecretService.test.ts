@@ -0,0 +1,88 @@
+import { webhookSecretService } from './webhookSecretService';
+
+const NOW = new Date('2026-10-19T12:00:00Z');
+const body = Buffer.from(JSON.stringify({ event: 'messages', data: { text: 'oi' } }));
+
+const timestampAt = (offsetSeconds: number): string => String(Math.floor(NOW.getTime() / 1000) + offsetSeconds);
+
+const sign = (secret: string, timestamp: string): string =>
+  webhookSecretService.computeSignature(secret, timestamp, body);
+
+describe('webhookSecretService.verifySignature', () => {
+  const instanceConfig = {
+    webhook_secret: 'segredo-atual',
+    previous_webhook_secret: 'segredo-anterior',
+    previous_webhook_secret_expires_at: new Date(NOW.getTime() + 60 * 60 * 1000).toISOString()
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: NOW });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('aceita a assinatura do segredo atual, com ou sem o prefixo sha256=', () => {
+    const timestamp = timestampAt(0);
+    const signature = sign('segredo-atual', timestamp);
+
+    expect(webhookSecretService.verifySignature(instanceConfig, timestamp, signature, body))
+      .toEqual({ valid: true, usedPreviousSecret: false });
+    expect(webhookSecretService.verifySignature(instanceConfig, timestamp, `sha256=${signature}`, body))
+      .toEqual({ valid: true, usedPreviousSecret: false });
+  });
+
+  it('rejeita assinatura de outro corpo', () => {
+    const timestamp = timestampAt(0);
+    const signature = sign('segredo-atual', timestamp);
+
+    expect(webhookSecretService.verifySignature(instanceConfig, timestamp, signature, Buffer.from('{}')))
+      .toEqual({ valid: false, reason: 'invalid_signature' });
+  });
+
+  it('aceita timestamps dentro da janela anti-replay', () => {
+    const timestamp = timestampAt(-300);
+
+    expect(webhookSecretService.verifySignature(instanceConfig, timestamp, sign('segredo-atual', timestamp), body).valid)
+      .toBe(true);
+  });
+
+  it('rejeita timestamps antigos, no futuro ou inválidos, mesmo com assinatura correta', () => {
+    for (const timestamp of [timestampAt(-301), timestampAt(301), 'agora']) {
+      expect(webhookSecretService.verifySignature(instanceConfig, timestamp, sign('segredo-atual', timestamp), body))
+        .toEqual({ valid: false, reason: 'stale_timestamp' });
+    }
+  });
+
+  it('aceita o segredo anterior durante o período de carência', () => {
+    const timestamp = timestampAt(0);
+
+    expect(webhookSecretService.verifySignature(instanceConfig, timestamp, sign('segredo-anterior', timestamp), body))
+      .toEqual({ valid: true, usedPreviousSecret: true });
+  });
+
+  it('rejeita o segredo anterior depois que ele expira', () => {
+    jest.setSystemTime(new Date(NOW.getTime() + 2 * 60 * 60 * 1000));
+    const timestamp = String(Math.floor(Date.now() / 1000));
+
+    expect(webhookSecretService.verifySignature(instanceConfig, timestamp, sign('segredo-anterior', timestamp), body))
+      .toEqual({ valid: false, reason: 'invalid_signature' });
+  });
+
+  it('rejeita o segredo anterior sem data de expiração', () => {
+    const timestamp = timestampAt(0);
+    const withoutExpiry = { ...instanceConfig, previous_webhook_secret_expires_at: null };
+
+    expect(webhookSecretService.verifySignature(withoutExpiry, timestamp, sign('segredo-anterior', timestamp), body))
+      .toEqual({ valid: false, reason: 'invalid_signature' });
+  });
+
+  it('exige um segredo configurado na instância', () => {
+    const timestamp = timestampAt(0);
+    const withoutSecret = { webhook_secret: null, previous_webhook_secret: null, previous_webhook_secret_expires_at: null };
+
+    expect(webhookSecretService.verifySignature(withoutSecret, timestamp, sign('segredo-atual', timestamp), body))
+      .toEqual({ valid: false, reason: 'missing_secret' });
+  });
+});
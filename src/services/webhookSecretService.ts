@@ -0,0 +1,117 @@
+import { createHmac, randomBytes } from 'crypto';
+import { supabase, UazapiConfiguration } from '../config/supabase';
+import { config } from '../config/env';
+import { logger } from '../utils/logger';
+import { safeCompare } from '../utils/security';
+
+export type SignatureCheck =
+  | { valid: true; usedPreviousSecret: boolean }
+  | { valid: false; reason: 'missing_secret' | 'stale_timestamp' | 'invalid_signature' };
+
+// Função para gerar um novo segredo de webhook
+const generateSecret = (): string => {
+  return randomBytes(32).toString('hex');
+};
+
+// Função para calcular a assinatura HMAC-SHA256 de "<timestamp>.<corpo>"
+const computeSignature = (secret: string, timestamp: string, rawBody: Buffer): string => {
+  return createHmac('sha256', secret)
+    .update(`${timestamp}.`)
+    .update(rawBody)
+    .digest('hex');
+};
+
+// Função para validar a assinatura de uma entrega contra os segredos da instância
+const verifySignature = (
+  instanceConfig: Pick<UazapiConfiguration, 'webhook_secret' | 'previous_webhook_secret' | 'previous_webhook_secret_expires_at'>,
+  timestamp: string,
+  signature: string,
+  rawBody: Buffer
+): SignatureCheck => {
+  if (!instanceConfig.webhook_secret) {
+    return { valid: false, reason: 'missing_secret' };
+  }
+
+  // Janela anti-replay: timestamps muito antigos (ou no futuro) são rejeitados
+  const sentAt = parseInt(timestamp, 10);
+  const ageSeconds = Math.abs(Date.now() / 1000 - sentAt);
+  if (isNaN(sentAt) || ageSeconds > config.webhook.replayWindowSeconds) {
+    return { valid: false, reason: 'stale_timestamp' };
+  }
+
+  const provided = signature.replace(/^sha256=/, '');
+
+  if (safeCompare(provided, computeSignature(instanceConfig.webhook_secret, timestamp, rawBody))) {
+    return { valid: true, usedPreviousSecret: false };
+  }
+
+  // Durante a rotação, o segredo anterior continua aceito até expirar
+  const previousExpiresAt = instanceConfig.previous_webhook_secret_expires_at
+    ? new Date(instanceConfig.previous_webhook_secret_expires_at).getTime()
+    : 0;
+
+  if (instanceConfig.previous_webhook_secret && previousExpiresAt > Date.now()) {
+    const previousSignature = computeSignature(instanceConfig.previous_webhook_secret, timestamp, rawBody);
+    if (safeCompare(provided, previousSignature)) {
+      return { valid: true, usedPreviousSecret: true };
+    }
+  }
+
+  return { valid: false, reason: 'invalid_signature' };
+};
+
+// Função para rotacionar o segredo da instância, mantendo o anterior válido por um período
+const rotateSecret = async (
+  instanceName: string,
+  graceSeconds: number = config.webhook.secretGraceSeconds
+): Promise<{ secret: string; previousSecretExpiresAt: string | null } | null> => {
+  try {
+    const { data: current, error: fetchError } = await supabase
+      .from('uazapi_configurations')
+      .select('id, webhook_secret')
+      .eq('instance_name', instanceName)
+      .single();
+
+    if (fetchError || !current) {
+      logger.error('Instância não encontrada para rotação de segredo:', { instanceName, error: fetchError });
+      return null;
+    }
+
+    const secret = generateSecret();
+    const previousSecretExpiresAt = current.webhook_secret
+      ? new Date(Date.now() + graceSeconds * 1000).toISOString()
+      : null;
+
+    const { error } = await supabase
+      .from('uazapi_configurations')
+      .update({
+        webhook_secret: secret,
+        previous_webhook_secret: current.webhook_secret || null,
+        previous_webhook_secret_expires_at: previousSecretExpiresAt,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', current.id);
+
+    if (error) {
+      logger.error('Erro ao rotacionar segredo do webhook:', error);
+      return null;
+    }
+
+    logger.info('Segredo do webhook rotacionado:', {
+      instanceName,
+      previousSecretExpiresAt
+    });
+
+    return { secret, previousSecretExpiresAt };
+  } catch (error) {
+    logger.error('Erro ao rotacionar segredo do webhook:', error);
+    return null;
+  }
+};
+
+export const webhookSecretService = {
+  generateSecret,
+  computeSignature,
+  verifySignature,
+  rotateSecret
+};
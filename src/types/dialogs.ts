@@ -0,0 +1,39 @@
+// Referências gravadas junto das mensagens enviadas pelo bot, para que uma resposta
+// citando a mensagem (reply) possa ser resolvida contra a lista ou oferta exata.
+
+export interface DialogAppointmentRef {
+  id: string;
+  appointment_date: string;
+  appointment_time: string;
+  services: { name: string };
+  professionals: { name: string };
+}
+
+export interface DialogSlotRef {
+  date: string;
+  time: string;
+  professional_id: string;
+  professional_name: string;
+}
+
+export type OutboundDialog =
+  | { kind: 'cancellation_list'; appointments: DialogAppointmentRef[] }
+  | { kind: 'slot_offer'; slots: DialogSlotRef[] }
+  | { kind: 'reschedule_list'; appointments: DialogAppointmentRef[] }
+  | { kind: 'reschedule_offer'; appointment_id: string; slots: DialogSlotRef[] }
+  | { kind: 'waitlist_offer'; offer_id: string };
+
+// Resposta produzida por um handler de intenção
+export interface HandlerReply {
+  message: string;
+  dialog?: OutboundDialog;
+}
+
+// Mensagem citada pelo cliente, já vinculada à mensagem enviada pelo bot (quando houver)
+export interface QuotedReference {
+  messageId: string;
+  text?: string;
+  participant?: string;
+  outboundMessageId?: string;
+  dialog?: OutboundDialog;
+}
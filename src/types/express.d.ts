@@ -0,0 +1,16 @@
+// Extensões do Request do Express usadas pela aplicação
+declare global {
+  namespace Express {
+    interface Request {
+      // Corpo original da requisição, necessário para validar assinaturas HMAC
+      rawBody?: Buffer;
+      // Usuário da API administrativa, preenchido por requireAdminToken
+      admin?: {
+        userId: string;
+        establishmentId: string;
+      };
+    }
+  }
+}
+
+export {};
@@ -1,25 +1,59 @@
 import { z } from 'zod';
 
-// Schema para webhook da UazAPI
-export const UazapiWebhookSchema = z.object({
+// Chave que identifica uma mensagem do WhatsApp
+const MessageKeySchema = z.object({
+  remoteJid: z.string(),
+  fromMe: z.boolean(),
+  id: z.string()
+});
+
+// Informações de contexto da mensagem (menções e mensagem citada em replies)
+const ContextInfoSchema = z.object({
+  mentionedJid: z.array(z.string()).optional(),
+  stanzaId: z.string().optional(),
+  participant: z.string().optional(),
+  quotedMessage: z.object({
+    conversation: z.string().optional(),
+    extendedTextMessage: z.object({
+      text: z.string().optional()
+    }).optional(),
+    imageMessage: z.object({
+      caption: z.string().optional()
+    }).optional(),
+    videoMessage: z.object({
+      caption: z.string().optional()
+    }).optional()
+  }).optional()
+});
+
+// Cartão de contato (vCard) compartilhado na conversa
+const ContactCardSchema = z.object({
+  displayName: z.string().optional(),
+  vcard: z.string().optional()
+});
+
+// Evento de mensagem recebida/enviada
+export const MessagesUpsertEventSchema = z.object({
+  event: z.literal('messages.upsert'),
   instanceName: z.string(),
   data: z.object({
-    key: z.object({
-      remoteJid: z.string(),
-      fromMe: z.boolean(),
-      id: z.string()
+    key: MessageKeySchema.extend({
+      // Autor da mensagem quando a conversa é um grupo
+      participant: z.string().optional()
     }),
     messageTimestamp: z.number(),
     pushName: z.string().optional(),
     message: z.object({
       conversation: z.string().optional(),
       extendedTextMessage: z.object({
-        text: z.string()
+        text: z.string(),
+        contextInfo: ContextInfoSchema.optional()
       }).optional(),
       imageMessage: z.object({
         caption: z.string().optional(),
         url: z.string().optional(),
-        mimetype: z.string().optional()
+        mimetype: z.string().optional(),
+        contextInfo: ContextInfoSchema.optional()
       }).optional(),
       audioMessage: z.object({
         url: z.string().optional(),
@@ -28,18 +62,118 @@ export const UazapiWebhookSchema = z.object({
       videoMessage: z.object({
         caption: z.string().optional(),
         url: z.string().optional(),
-        mimetype: z.string().optional()
+        mimetype: z.string().optional(),
+        contextInfo: ContextInfoSchema.optional()
       }).optional(),
       documentMessage: z.object({
         caption: z.string().optional(),
         url: z.string().optional(),
         mimetype: z.string().optional(),
         fileName: z.string().optional()
+      }).optional(),
+      locationMessage: z.object({
+        degreesLatitude: z.number(),
+        degreesLongitude: z.number(),
+        name: z.string().optional(),
+        address: z.string().optional()
+      }).optional(),
+      contactMessage: ContactCardSchema.optional(),
+      contactsArrayMessage: z.object({
+        displayName: z.string().optional(),
+        contacts: z.array(ContactCardSchema)
+      }).optional(),
+      stickerMessage: z.object({
+        url: z.string().optional(),
+        mimetype: z.string().optional(),
+        isAnimated: z.boolean().optional()
+      }).optional(),
+      reactionMessage: z.object({
+        // Mensagem que recebeu a reação
+        key: MessageKeySchema.partial().extend({ id: z.string() }),
+        // Texto vazio significa que a reação foi removida
+        text: z.string().optional()
+      }).optional(),
+      buttonsResponseMessage: z.object({
+        selectedButtonId: z.string().optional(),
+        selectedDisplayText: z.string().optional(),
+        contextInfo: ContextInfoSchema.optional()
+      }).optional(),
+      listResponseMessage: z.object({
+        title: z.string().optional(),
+        singleSelectReply: z.object({
+          selectedRowId: z.string().optional()
+        }).optional(),
+        contextInfo: ContextInfoSchema.optional()
+      }).optional(),
+      templateButtonReplyMessage: z.object({
+        selectedId: z.string().optional(),
+        selectedDisplayText: z.string().optional(),
+        contextInfo: ContextInfoSchema.optional()
       }).optional()
     })
   })
 });
 
+// Evento de recibo (entregue/lida) de mensagem enviada
+export const MessageStatusEventSchema = z.object({
+  event: z.literal('messages.update'),
+  instanceName: z.string(),
+  data: z.object({
+    key: MessageKeySchema,
+    // A UazAPI envia o status como texto (DELIVERY_ACK) ou como código numérico (3)
+    status: z.union([z.string(), z.number()]),
+    timestamp: z.number().optional()
+  })
+});
+
+// Evento de mudança de conexão da instância
+export const ConnectionUpdateEventSchema = z.object({
+  event: z.literal('connection.update'),
+  instanceName: z.string(),
+  data: z.object({
+    state: z.enum(['open', 'close', 'connecting']),
+    statusReason: z.number().optional()
+  })
+});
+
+// Evento de novo QR code para pareamento
+export const QrCodeUpdatedEventSchema = z.object({
+  event: z.literal('qrcode.updated'),
+  instanceName: z.string(),
+  data: z.object({
+    qrcode: z.object({
+      base64: z.string().optional(),
+      code: z.string().optional()
+    })
+  })
+});
+
+// Normaliza o nome do evento (MESSAGES_UPSERT -> messages.upsert).
+// Payloads sem evento são tratados como mensagens, como antes.
+const normalizeWebhookEvent = (body: unknown): unknown => {
+  if (!body || typeof body !== 'object') {
+    return body;
+  }
+
+  const payload = body as Record<string, any>;
+  const event = typeof payload.event === 'string'
+    ? payload.event.toLowerCase().replace(/_/g, '.')
+    : 'messages.upsert';
+
+  return { ...payload, event };
+};
+
+// Schema para webhook da UazAPI
+export const UazapiWebhookSchema = z.preprocess(
+  normalizeWebhookEvent,
+  z.discriminatedUnion('event', [
+    MessagesUpsertEventSchema,
+    MessageStatusEventSchema,
+    ConnectionUpdateEventSchema,
+    QrCodeUpdatedEventSchema
+  ])
+);
+
 // Schema para mensagem processada
 export const ProcessedMessageSchema = z.object({
   messageId: z.string(),
@@ -47,9 +181,23 @@ export const ProcessedMessageSchema = z.object({
   clientPhone: z.string(),
   clientName: z.string().optional(),
   messageContent: z.string(),
-  messageType: z.enum(['text', 'image', 'audio', 'video', 'document']),
+  messageType: z.enum([
+    'text',
+    'image',
+    'audio',
+    'video',
+    'document',
+    'location',
+    'contact',
+    'sticker',
+    'reaction',
+    'interactive',
+    'unknown'
+  ]),
   timestamp: z.number(),
   isFromClient: z.boolean(),
+  chatType: z.enum(['private', 'group', 'broadcast', 'status', 'newsletter']).optional(),
+  chatJid: z.string().optional(),
   metadata: z.record(z.any()).optional()
 });
 
@@ -66,8 +214,12 @@ export const UazapiConfigSchema = z.object({
   ai_prompt: z.string().optional(),
   auto_reply_enabled: z.boolean(),
   webhook_url: z.string().url().optional(),
+  webhook_secret: z.string().nullable().optional(),
+  previous_webhook_secret: z.string().nullable().optional(),
+  previous_webhook_secret_expires_at: z.string().datetime().nullable().optional(),
   status: z.enum(['connected', 'disconnected', 'connecting']),
   qr_code: z.string().optional(),
+  group_policy: z.enum(['ignore', 'mention_only', 'log_only']).optional(),
   message_templates: z.object({
     welcome: z.string().optional(),
     followup: z.string().optional(),
@@ -161,6 +313,10 @@ export const SendMessageSchema = z.object({
 
 // Tipos TypeScript derivados dos schemas
 export type UazapiWebhook = z.infer<typeof UazapiWebhookSchema>;
+export type MessagesUpsertEvent = z.infer<typeof MessagesUpsertEventSchema>;
+export type MessageStatusEvent = z.infer<typeof MessageStatusEventSchema>;
+export type ConnectionUpdateEvent = z.infer<typeof ConnectionUpdateEventSchema>;
+export type QrCodeUpdatedEvent = z.infer<typeof QrCodeUpdatedEventSchema>;
 export type ProcessedMessage = z.infer<typeof ProcessedMessageSchema>;
 export type UazapiConfig = z.infer<typeof UazapiConfigSchema>;
 export type AiPrompt = z.infer<typeof AiPromptSchema>;
@@ -0,0 +1,48 @@
+import { classifyJid, extractPhoneNumber, isNumberMentioned } from './jid';
+
+describe('classifyJid', () => {
+  it('identifica cada tipo de conversa pelo sufixo do JID', () => {
+    expect(classifyJid('5511999999999@s.whatsapp.net')).toBe('private');
+    expect(classifyJid('120363025246125486@g.us')).toBe('group');
+    expect(classifyJid('status@broadcast')).toBe('status');
+    expect(classifyJid('1234567890@broadcast')).toBe('broadcast');
+    expect(classifyJid('120363144038483540@newsletter')).toBe('newsletter');
+  });
+});
+
+describe('extractPhoneNumber', () => {
+  it('remove o domínio e o sufixo de dispositivo', () => {
+    expect(extractPhoneNumber('5511999999999@s.whatsapp.net')).toBe('5511999999999');
+    expect(extractPhoneNumber('5511999999999:12@s.whatsapp.net')).toBe('5511999999999');
+  });
+
+  it('rejeita JIDs sem número', () => {
+    expect(() => extractPhoneNumber('')).toThrow('Número de telefone inválido');
+    expect(() => extractPhoneNumber('@s.whatsapp.net')).toThrow('Número de telefone inválido');
+  });
+});
+
+describe('isNumberMentioned', () => {
+  const mentions = ['5511888888888@s.whatsapp.net', '5511999999999:3@s.whatsapp.net'];
+
+  it('encontra o número entre as menções, ignorando formatação e dispositivo', () => {
+    expect(isNumberMentioned('5511999999999', mentions)).toBe(true);
+    expect(isNumberMentioned('+55 (11) 99999-9999', mentions)).toBe(true);
+  });
+
+  it('aceita números com ou sem código do país', () => {
+    expect(isNumberMentioned('11999999999', mentions)).toBe(true);
+    expect(isNumberMentioned('5511777777777', ['11777777777@s.whatsapp.net'])).toBe(true);
+  });
+
+  it('não encontra números que não foram mencionados', () => {
+    expect(isNumberMentioned('5511777777777', mentions)).toBe(false);
+    expect(isNumberMentioned('5511777777777')).toBe(false);
+  });
+
+  it('não considera menção sem número do bot ou JID sem número', () => {
+    expect(isNumberMentioned(undefined, mentions)).toBe(false);
+    expect(isNumberMentioned('', mentions)).toBe(false);
+    expect(isNumberMentioned('5511999999999', ['@s.whatsapp.net'])).toBe(false);
+  });
+});
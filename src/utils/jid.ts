@@ -0,0 +1,51 @@
+// Tipos de conversa identificáveis pelo JID do WhatsApp
+export type ChatType = 'private' | 'group' | 'broadcast' | 'status' | 'newsletter';
+
+// Função para classificar o tipo de conversa a partir do remoteJid
+export const classifyJid = (jid: string): ChatType => {
+  if (jid === 'status@broadcast') {
+    return 'status';
+  }
+
+  if (jid.endsWith('@g.us')) {
+    return 'group';
+  }
+
+  if (jid.endsWith('@broadcast')) {
+    return 'broadcast';
+  }
+
+  if (jid.endsWith('@newsletter')) {
+    return 'newsletter';
+  }
+
+  return 'private';
+};
+
+// Função para extrair número de telefone de um JID individual
+// (5511999999999:12@s.whatsapp.net -> 5511999999999)
+export const extractPhoneNumber = (jid: string): string => {
+  const phone = jid?.split('@')[0]?.split(':')[0];
+  if (!phone) {
+    throw new Error('Número de telefone inválido');
+  }
+  return phone;
+};
+
+// Função para verificar se um número aparece entre os JIDs mencionados
+export const isNumberMentioned = (phone: string | undefined, mentionedJids: string[] = []): boolean => {
+  const digits = phone?.replace(/\D/g, '');
+  if (!digits) {
+    return false;
+  }
+
+  return mentionedJids.some(jid => {
+    const mentioned = jid.split('@')[0]?.split(':')[0] || '';
+    if (!mentioned) {
+      return false;
+    }
+
+    // Aceitar números salvos com ou sem código do país
+    return mentioned === digits || mentioned.endsWith(digits) || digits.endsWith(mentioned);
+  });
+};
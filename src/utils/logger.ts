@@ -2,9 +2,12 @@ import winston from 'winston';
 import path from 'path';
 import fs from 'fs';
 
+// Em ambiente serverless (Vercel) o sistema de arquivos é somente leitura: logar apenas no console
+const isServerless = Boolean(process.env.VERCEL);
+
 // Criar diretório de logs se não existir
 const logsDir = path.join(process.cwd(), 'logs');
-if (!fs.existsSync(logsDir)) {
+if (!isServerless && !fs.existsSync(logsDir)) {
   fs.mkdirSync(logsDir, { recursive: true });
 }
 
@@ -19,7 +22,7 @@ const logger = winston.createLogger({
     winston.format.json()
   ),
   defaultMeta: { service: 'agenteia-whatsapp' },
-  transports: [
+  transports: isServerless ? [new winston.transports.Console()] : [
     // Arquivo de erro
     new winston.transports.File({
       filename: path.join(logsDir, 'error.log'),
@@ -37,7 +40,7 @@ const logger = winston.createLogger({
 });
 
 // Em desenvolvimento, também logar no console
-if (process.env.NODE_ENV !== 'production') {
+if (process.env.NODE_ENV !== 'production' && !isServerless) {
   logger.add(new winston.transports.Console({
     format: winston.format.combine(
       winston.format.colorize(),
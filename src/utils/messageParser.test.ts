@@ -0,0 +1,147 @@
+import { extractQuotedMessage, parseMessage } from './messageParser';
+
+describe('parseMessage', () => {
+  it('lê texto simples e texto estendido', () => {
+    expect(parseMessage({ conversation: 'Oi, tudo bem?' })).toEqual({ content: 'Oi, tudo bem?', type: 'text' });
+    expect(parseMessage({ extendedTextMessage: { text: 'Quero agendar' } }))
+      .toEqual({ content: 'Quero agendar', type: 'text' });
+  });
+
+  it('usa a legenda da mídia ou um marcador quando não há legenda', () => {
+    expect(parseMessage({ imageMessage: { caption: 'Esse corte' } })).toEqual({ content: 'Esse corte', type: 'image' });
+    expect(parseMessage({ imageMessage: {} })).toEqual({ content: '[Imagem]', type: 'image' });
+    expect(parseMessage({ audioMessage: {} })).toEqual({ content: '[Áudio]', type: 'audio' });
+    expect(parseMessage({ videoMessage: {} })).toEqual({ content: '[Vídeo]', type: 'video' });
+    expect(parseMessage({ documentMessage: { fileName: 'orcamento.pdf' } }))
+      .toEqual({ content: '[Documento: orcamento.pdf]', type: 'document' });
+  });
+
+  it('normaliza localização com nome e endereço', () => {
+    const parsed = parseMessage({
+      locationMessage: { degreesLatitude: -23.56, degreesLongitude: -46.65, name: 'Salão', address: 'Av. Paulista, 1000' }
+    });
+
+    expect(parsed).toEqual({
+      content: '[Localização: Salão - Av. Paulista, 1000]',
+      type: 'location',
+      data: { kind: 'location', latitude: -23.56, longitude: -46.65, name: 'Salão', address: 'Av. Paulista, 1000' }
+    });
+  });
+
+  it('usa as coordenadas quando a localização não tem nome', () => {
+    expect(parseMessage({ locationMessage: { degreesLatitude: -23.56, degreesLongitude: -46.65 } }).content)
+      .toBe('[Localização: -23.56, -46.65]');
+  });
+
+  it('extrai nome e telefones dos cartões de contato', () => {
+    const vcard = [
+      'BEGIN:VCARD',
+      'VERSION:3.0',
+      'FN:Maria Souza',
+      'TEL;type=CELL;waid=5511999999999:+55 11 99999-9999',
+      'TEL;type=HOME:+55 11 3333-4444',
+      'END:VCARD'
+    ].join('\n');
+
+    expect(parseMessage({ contactMessage: { vcard } })).toEqual({
+      content: '[Contato: Maria Souza]',
+      type: 'contact',
+      data: { kind: 'contact', contacts: [{ name: 'Maria Souza', phones: ['5511999999999', '551133334444'] }] }
+    });
+  });
+
+  it('lê vários contatos, preferindo o nome exibido', () => {
+    const parsed = parseMessage({
+      contactsArrayMessage: {
+        contacts: [
+          { displayName: 'Ana', vcard: 'FN:Ana Lima\nTEL;waid=5511911111111:+55 11 91111-1111' },
+          { vcard: 'FN:João' }
+        ]
+      }
+    });
+
+    expect(parsed.content).toBe('[Contato: Ana, João]');
+    expect(parsed.data).toEqual({
+      kind: 'contact',
+      contacts: [{ name: 'Ana', phones: ['5511911111111'] }, { name: 'João', phones: [] }]
+    });
+  });
+
+  it('identifica figurinhas', () => {
+    expect(parseMessage({ stickerMessage: { isAnimated: true, mimetype: 'image/webp' } })).toEqual({
+      content: '[Figurinha]',
+      type: 'sticker',
+      data: { kind: 'sticker', animated: true, mimetype: 'image/webp' }
+    });
+  });
+
+  it('lê reações e reações removidas', () => {
+    expect(parseMessage({ reactionMessage: { key: { id: 'MSG1' }, text: '👍' } })).toEqual({
+      content: '👍',
+      type: 'reaction',
+      data: { kind: 'reaction', emoji: '👍', targetMessageId: 'MSG1', removed: false }
+    });
+    expect(parseMessage({ reactionMessage: { key: { id: 'MSG1' }, text: '' } })).toEqual({
+      content: '[Reação removida]',
+      type: 'reaction',
+      data: { kind: 'reaction', emoji: '', targetMessageId: 'MSG1', removed: true }
+    });
+  });
+
+  it('usa o texto escolhido em botões, listas e templates', () => {
+    expect(parseMessage({ buttonsResponseMessage: { selectedButtonId: 'confirm', selectedDisplayText: 'Confirmar' } }))
+      .toEqual({
+        content: 'Confirmar',
+        type: 'interactive',
+        data: { kind: 'interactive', source: 'button', selectedText: 'Confirmar', selectedId: 'confirm' }
+      });
+    expect(parseMessage({ listResponseMessage: { title: 'Corte', singleSelectReply: { selectedRowId: 'svc-1' } } }))
+      .toEqual({
+        content: 'Corte',
+        type: 'interactive',
+        data: { kind: 'interactive', source: 'list', selectedText: 'Corte', selectedId: 'svc-1' }
+      });
+    expect(parseMessage({ templateButtonReplyMessage: { selectedDisplayText: 'Sim' } })).toEqual({
+      content: 'Sim',
+      type: 'interactive',
+      data: { kind: 'interactive', source: 'template', selectedText: 'Sim' }
+    });
+  });
+
+  it('marca mensagens sem tipo conhecido como não suportadas', () => {
+    expect(parseMessage({})).toEqual({ content: '[Mensagem não suportada]', type: 'unknown' });
+  });
+});
+
+describe('extractQuotedMessage', () => {
+  it('retorna id, texto e autor da mensagem citada', () => {
+    const quoted = extractQuotedMessage({
+      extendedTextMessage: {
+        text: 'Pode ser esse',
+        contextInfo: {
+          stanzaId: 'MSG1',
+          participant: '5511999999999@s.whatsapp.net',
+          quotedMessage: { imageMessage: { caption: 'Horários de amanhã' } }
+        }
+      }
+    });
+
+    expect(quoted).toEqual({
+      messageId: 'MSG1',
+      text: 'Horários de amanhã',
+      participant: '5511999999999@s.whatsapp.net'
+    });
+  });
+
+  it('lê a citação de respostas a botões', () => {
+    expect(extractQuotedMessage({
+      buttonsResponseMessage: { selectedDisplayText: 'Confirmar', contextInfo: { stanzaId: 'MSG2' } }
+    })).toEqual({ messageId: 'MSG2' });
+  });
+
+  it('ignora mensagens que não são respostas', () => {
+    expect(extractQuotedMessage({ conversation: 'Oi' })).toBeUndefined();
+    expect(extractQuotedMessage({ extendedTextMessage: { text: 'Oi', contextInfo: { mentionedJid: [] } } }))
+      .toBeUndefined();
+  });
+});
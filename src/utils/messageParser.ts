@@ -0,0 +1,202 @@
+import { MessagesUpsertEvent, ProcessedMessage } from '../types/schemas';
+
+type IncomingMessage = MessagesUpsertEvent['data']['message'];
+export type MessageType = ProcessedMessage['messageType'];
+
+export interface SharedContact {
+  name: string;
+  phones: string[];
+}
+
+// Representação normalizada dos tipos de mensagem que não são texto puro
+export type NormalizedMessageData =
+  | { kind: 'location'; latitude: number; longitude: number; name?: string; address?: string }
+  | { kind: 'contact'; contacts: SharedContact[] }
+  | { kind: 'sticker'; animated: boolean; mimetype?: string }
+  | { kind: 'reaction'; emoji: string; targetMessageId: string; removed: boolean }
+  | { kind: 'interactive'; source: 'button' | 'list' | 'template'; selectedId?: string; selectedText: string };
+
+export interface ParsedMessage {
+  content: string;
+  type: MessageType;
+  data?: NormalizedMessageData;
+}
+
+// Função para extrair nome e telefones de um vCard
+const parseVCard = (vcard: string | undefined, displayName: string | undefined): SharedContact => {
+  const lines = (vcard || '').split(/\r?\n/);
+  const fullName = lines.find(line => line.startsWith('FN:'))?.slice(3).trim();
+
+  // Linhas TEL podem vir como "TEL;type=CELL;waid=5511999999999:+55 11 99999-9999"
+  const phones = lines
+    .filter(line => line.toUpperCase().startsWith('TEL'))
+    .map(line => {
+      const waid = line.match(/waid=(\d+)/i)?.[1];
+      return waid || line.slice(line.lastIndexOf(':') + 1).replace(/\D/g, '');
+    })
+    .filter(phone => phone.length > 0);
+
+  return {
+    name: displayName || fullName || 'Contato',
+    phones
+  };
+};
+
+// Função para extrair conteúdo e tipo da mensagem recebida
+export const parseMessage = (message: IncomingMessage): ParsedMessage => {
+  // Mensagem de texto simples
+  if (message.conversation) {
+    return { content: message.conversation, type: 'text' };
+  }
+
+  // Mensagem de texto estendida
+  if (message.extendedTextMessage?.text) {
+    return { content: message.extendedTextMessage.text, type: 'text' };
+  }
+
+  // Mensagem de imagem
+  if (message.imageMessage) {
+    return { content: message.imageMessage.caption || '[Imagem]', type: 'image' };
+  }
+
+  // Mensagem de áudio
+  if (message.audioMessage) {
+    return { content: '[Áudio]', type: 'audio' };
+  }
+
+  // Mensagem de vídeo
+  if (message.videoMessage) {
+    return { content: message.videoMessage.caption || '[Vídeo]', type: 'video' };
+  }
+
+  // Mensagem de documento
+  if (message.documentMessage) {
+    return {
+      content: message.documentMessage.caption || `[Documento: ${message.documentMessage.fileName || 'arquivo'}]`,
+      type: 'document'
+    };
+  }
+
+  // Localização compartilhada
+  if (message.locationMessage) {
+    const { degreesLatitude, degreesLongitude, name, address } = message.locationMessage;
+    const label = [name, address].filter(Boolean).join(' - ') || `${degreesLatitude}, ${degreesLongitude}`;
+
+    return {
+      content: `[Localização: ${label}]`,
+      type: 'location',
+      data: {
+        kind: 'location',
+        latitude: degreesLatitude,
+        longitude: degreesLongitude,
+        ...(name ? { name } : {}),
+        ...(address ? { address } : {})
+      }
+    };
+  }
+
+  // Um ou mais cartões de contato
+  if (message.contactMessage || message.contactsArrayMessage) {
+    const cards = message.contactMessage
+      ? [message.contactMessage]
+      : message.contactsArrayMessage?.contacts || [];
+    const contacts = cards.map(card => parseVCard(card.vcard, card.displayName));
+
+    return {
+      content: `[Contato: ${contacts.map(contact => contact.name).join(', ')}]`,
+      type: 'contact',
+      data: { kind: 'contact', contacts }
+    };
+  }
+
+  // Figurinha
+  if (message.stickerMessage) {
+    return {
+      content: '[Figurinha]',
+      type: 'sticker',
+      data: {
+        kind: 'sticker',
+        animated: message.stickerMessage.isAnimated || false,
+        ...(message.stickerMessage.mimetype ? { mimetype: message.stickerMessage.mimetype } : {})
+      }
+    };
+  }
+
+  // Reação a uma mensagem
+  if (message.reactionMessage) {
+    const emoji = message.reactionMessage.text || '';
+
+    return {
+      content: emoji || '[Reação removida]',
+      type: 'reaction',
+      data: {
+        kind: 'reaction',
+        emoji,
+        targetMessageId: message.reactionMessage.key.id,
+        removed: emoji.length === 0
+      }
+    };
+  }
+
+  // Respostas a botões, listas e templates: o texto escolhido segue como conteúdo da mensagem
+  if (message.buttonsResponseMessage) {
+    const selectedText = message.buttonsResponseMessage.selectedDisplayText || '';
+    const selectedId = message.buttonsResponseMessage.selectedButtonId;
+
+    return {
+      content: selectedText,
+      type: 'interactive',
+      data: { kind: 'interactive', source: 'button', selectedText, ...(selectedId ? { selectedId } : {}) }
+    };
+  }
+
+  if (message.listResponseMessage) {
+    const selectedText = message.listResponseMessage.title || '';
+    const selectedId = message.listResponseMessage.singleSelectReply?.selectedRowId;
+
+    return {
+      content: selectedText,
+      type: 'interactive',
+      data: { kind: 'interactive', source: 'list', selectedText, ...(selectedId ? { selectedId } : {}) }
+    };
+  }
+
+  if (message.templateButtonReplyMessage) {
+    const selectedText = message.templateButtonReplyMessage.selectedDisplayText || '';
+    const selectedId = message.templateButtonReplyMessage.selectedId;
+
+    return {
+      content: selectedText,
+      type: 'interactive',
+      data: { kind: 'interactive', source: 'template', selectedText, ...(selectedId ? { selectedId } : {}) }
+    };
+  }
+
+  return { content: '[Mensagem não suportada]', type: 'unknown' };
+};
+
+// Função para extrair a mensagem citada (reply) de uma mensagem recebida
+export const extractQuotedMessage = (message: IncomingMessage) => {
+  const contextInfo = message.extendedTextMessage?.contextInfo
+    || message.imageMessage?.contextInfo
+    || message.videoMessage?.contextInfo
+    || message.buttonsResponseMessage?.contextInfo
+    || message.listResponseMessage?.contextInfo
+    || message.templateButtonReplyMessage?.contextInfo;
+
+  if (!contextInfo?.stanzaId) {
+    return undefined;
+  }
+
+  const quoted = contextInfo.quotedMessage;
+  const text = quoted?.conversation
+    || quoted?.extendedTextMessage?.text
+    || quoted?.imageMessage?.caption
+    || quoted?.videoMessage?.caption;
+
+  return {
+    messageId: contextInfo.stanzaId,
+    ...(text ? { text } : {}),
+    ...(contextInfo.participant ? { participant: contextInfo.participant } : {})
+  };
+};
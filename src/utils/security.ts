@@ -0,0 +1,13 @@
+import { timingSafeEqual } from 'crypto';
+
+// Comparação em tempo constante para evitar ataques de temporização
+export const safeCompare = (a: string, b: string): boolean => {
+  const bufferA = Buffer.from(a);
+  const bufferB = Buffer.from(b);
+
+  if (bufferA.length !== bufferB.length) {
+    return false;
+  }
+
+  return timingSafeEqual(bufferA, bufferB);
+};
@@ -0,0 +1,188 @@
+-- Tabelas que o sistema já usava antes das migrações, com as colunas que o código lê e grava.
+-- Em um banco existente nada muda (if not exists); em um banco novo, as migrações seguintes têm onde se apoiar.
+
+create table if not exists establishments (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  cnpj text,
+  whatsapp text,
+  email text,
+  cep text,
+  street text,
+  number text,
+  complement text,
+  neighborhood text,
+  city text,
+  state text,
+  instagram_url text,
+  facebook_url text,
+  tiktok_url text,
+  website_url text,
+  logo_url text,
+  admin_name text,
+  admin_email text,
+  auth_user_id uuid,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create table if not exists professionals (
+  id uuid primary key default gen_random_uuid(),
+  establishment_id uuid not null references establishments (id) on delete cascade,
+  name text not null,
+  active boolean not null default true,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists services (
+  id uuid primary key default gen_random_uuid(),
+  establishment_id uuid not null references establishments (id) on delete cascade,
+  name text not null,
+  price numeric(10, 2) not null default 0,
+  duration_minutes integer,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists clients (
+  id uuid primary key default gen_random_uuid(),
+  establishment_id uuid not null references establishments (id) on delete cascade,
+  name text,
+  phone text not null,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists appointments (
+  id uuid primary key default gen_random_uuid(),
+  establishment_id uuid not null references establishments (id) on delete cascade,
+  client_id uuid not null references clients (id),
+  professional_id uuid not null references professionals (id),
+  service_id uuid not null references services (id),
+  appointment_date date not null,
+  appointment_time time not null,
+  status text not null default 'scheduled',
+  total_price numeric(10, 2),
+  commission_value numeric(10, 2),
+  notes text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create table if not exists uazapi_configurations (
+  id uuid primary key default gen_random_uuid(),
+  establishment_id uuid not null references establishments (id) on delete cascade,
+  uazapi_url text not null,
+  admin_token text not null,
+  instance_name text not null,
+  instance_token text not null,
+  whatsapp_number text,
+  ai_enabled boolean not null default true,
+  ai_prompt text,
+  auto_reply_enabled boolean not null default true,
+  webhook_url text,
+  status text not null default 'disconnected',
+  qr_code text,
+  message_templates jsonb not null default '{}'::jsonb,
+  automation_settings jsonb not null default '{}'::jsonb,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create table if not exists whatsapp_messages (
+  id uuid primary key default gen_random_uuid(),
+  conversation_id uuid,
+  message_id text not null,
+  establishment_id uuid references establishments (id) on delete cascade,
+  client_phone text not null,
+  client_name text,
+  sender_type text not null default 'client',
+  message_content text,
+  message_type text not null default 'text',
+  metadata text,
+  is_from_client boolean not null default true,
+  processed boolean not null default false,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists messages (
+  id uuid primary key default gen_random_uuid(),
+  phone_number text not null,
+  message_content text,
+  message_type text not null default 'text',
+  direction text not null,
+  timestamp timestamptz not null default now(),
+  webhook_data jsonb,
+  external_message_id text,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists conversation_contexts (
+  id uuid primary key default gen_random_uuid(),
+  establishment_id uuid not null references establishments (id) on delete cascade,
+  client_phone text not null,
+  client_name text,
+  context_data jsonb not null default '{}'::jsonb,
+  last_interaction timestamptz not null default now(),
+  conversation_state text not null default 'active',
+  intent text,
+  sentiment text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (establishment_id, client_phone)
+);
+
+create table if not exists ai_prompts (
+  id uuid primary key default gen_random_uuid(),
+  establishment_id uuid not null references establishments (id) on delete cascade,
+  system_prompt text,
+  greeting_prompt text,
+  new_client_prompt text,
+  scheduling_prompt text,
+  farewell_prompt text,
+  services_prompt text,
+  prices_prompt text,
+  reschedule_prompt text,
+  cancel_prompt text,
+  fallback_prompt text,
+  inactivity_hours text,
+  response_delay text,
+  enable_services_info text,
+  enable_scheduling text,
+  enable_smart_responses text,
+  enable_intent_detection text,
+  enable_context_memory text,
+  enable_proactive_suggestions text,
+  enable_calendar_integration text,
+  enable_sentiment_analysis text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create table if not exists scheduled_messages (
+  id uuid primary key default gen_random_uuid(),
+  establishment_id uuid not null references establishments (id) on delete cascade,
+  appointment_id uuid references appointments (id) on delete cascade,
+  client_phone text not null,
+  message_content text not null,
+  scheduled_for timestamptz not null,
+  status text not null default 'pending',
+  sent_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists performance_metrics (
+  id uuid primary key default gen_random_uuid(),
+  metric_name text not null,
+  metric_value double precision not null,
+  metadata jsonb,
+  timestamp timestamptz not null default now()
+);
+
+create table if not exists error_logs (
+  id uuid primary key default gen_random_uuid(),
+  error_type text not null,
+  error_message text not null,
+  stack_trace text,
+  context jsonb,
+  severity text not null default 'medium',
+  timestamp timestamptz not null default now()
+);
@@ -0,0 +1,204 @@
+-- Colunas e tabelas usadas pela fila, agenda dos profissionais, lista de espera, alertas das instâncias
+-- e orçamento de IA. Vêm antes das migrações de índices, que dependem delas.
+
+-- Colunas novas em tabelas existentes
+alter table establishments add column if not exists appointment_buffer_minutes integer;
+
+alter table services add column if not exists commission_percentage numeric(5, 2);
+
+alter table uazapi_configurations add column if not exists webhook_secret text;
+alter table uazapi_configurations add column if not exists previous_webhook_secret text;
+alter table uazapi_configurations add column if not exists previous_webhook_secret_expires_at timestamptz;
+alter table uazapi_configurations add column if not exists group_policy text;
+
+alter table messages add column if not exists establishment_id uuid references establishments (id) on delete cascade;
+alter table messages add column if not exists dialog_data jsonb;
+alter table messages add column if not exists delivered_at timestamptz;
+alter table messages add column if not exists read_at timestamptz;
+
+alter table scheduled_messages add column if not exists template_id text;
+alter table scheduled_messages add column if not exists external_message_id text;
+
+alter table performance_metrics add column if not exists establishment_id uuid;
+alter table error_logs add column if not exists establishment_id uuid;
+
+-- Instância, estabelecimento e prompts: uma linha por estabelecimento (o upsert usa establishment_id)
+create unique index if not exists uazapi_configurations_instance_name_key on uazapi_configurations (instance_name);
+create unique index if not exists uazapi_configurations_establishment_key on uazapi_configurations (establishment_id);
+create unique index if not exists ai_prompts_establishment_key on ai_prompts (establishment_id);
+
+-- Clientes cadastrados pelo bot: o erro 23505 indica cadastro simultâneo pela mesma conversa
+create unique index if not exists clients_establishment_phone_key on clients (establishment_id, phone);
+
+-- Recibos e citações procuram a mensagem enviada pelo id do WhatsApp
+create index if not exists messages_external_message_id_idx on messages (establishment_id, external_message_id);
+
+-- Fila durável de processamento de mensagens
+create table if not exists message_jobs (
+  id uuid primary key default gen_random_uuid(),
+  type text not null,
+  payload jsonb not null,
+  status text not null default 'pending',
+  attempts integer not null default 0,
+  max_attempts integer not null,
+  run_at timestamptz not null default now(),
+  group_key text,
+  last_error text,
+  locked_at timestamptz,
+  completed_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists message_jobs_due_idx on message_jobs (status, run_at);
+
+-- Horário de funcionamento (weekday 0 = domingo) e exceções por data
+create table if not exists business_hours (
+  id uuid primary key default gen_random_uuid(),
+  establishment_id uuid not null references establishments (id) on delete cascade,
+  weekday smallint not null check (weekday between 0 and 6),
+  opens_at time not null,
+  closes_at time not null,
+  break_start time,
+  break_end time,
+  unique (establishment_id, weekday)
+);
+
+create table if not exists business_exceptions (
+  id uuid primary key default gen_random_uuid(),
+  establishment_id uuid not null references establishments (id) on delete cascade,
+  date date not null,
+  closed boolean not null default false,
+  opens_at time,
+  closes_at time,
+  reason text,
+  unique (establishment_id, date)
+);
+
+-- Jornada semanal e ausências dos profissionais
+create table if not exists professional_schedules (
+  id uuid primary key default gen_random_uuid(),
+  professional_id uuid not null references professionals (id) on delete cascade,
+  weekday smallint not null check (weekday between 0 and 6),
+  starts_at time not null,
+  ends_at time not null,
+  break_start time,
+  break_end time
+);
+
+create index if not exists professional_schedules_professional_idx on professional_schedules (professional_id);
+
+create table if not exists professional_time_off (
+  id uuid primary key default gen_random_uuid(),
+  professional_id uuid not null references professionals (id) on delete cascade,
+  starts_on date not null,
+  ends_on date not null,
+  start_time time,
+  end_time time,
+  reason text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists professional_time_off_professional_idx on professional_time_off (professional_id, ends_on);
+
+-- Histórico de remarcações
+create table if not exists appointment_history (
+  id uuid primary key default gen_random_uuid(),
+  appointment_id uuid not null references appointments (id) on delete cascade,
+  establishment_id uuid not null references establishments (id) on delete cascade,
+  action text not null,
+  previous_date date,
+  previous_time time,
+  new_date date,
+  new_time time,
+  changed_by text,
+  created_at timestamptz not null default now()
+);
+
+-- Lista de espera e ofertas de horários liberados
+create table if not exists waitlist_entries (
+  id uuid primary key default gen_random_uuid(),
+  establishment_id uuid not null references establishments (id) on delete cascade,
+  client_id uuid not null references clients (id) on delete cascade,
+  client_phone text not null,
+  service_id uuid not null references services (id),
+  professional_id uuid references professionals (id),
+  date_from date not null,
+  date_to date not null,
+  status text not null default 'waiting',
+  created_at timestamptz not null default now(),
+  updated_at timestamptz
+);
+
+create table if not exists waitlist_offers (
+  id uuid primary key default gen_random_uuid(),
+  entry_id uuid not null references waitlist_entries (id) on delete cascade,
+  establishment_id uuid not null references establishments (id) on delete cascade,
+  client_phone text not null,
+  professional_id uuid not null references professionals (id),
+  service_id uuid not null references services (id),
+  slot_date date not null,
+  slot_time time not null,
+  status text not null default 'pending',
+  expires_at timestamptz not null,
+  responded_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+-- Alertas e histórico de status das instâncias
+create table if not exists instance_alerts (
+  id uuid primary key default gen_random_uuid(),
+  establishment_id uuid not null references establishments (id) on delete cascade,
+  instance_name text not null,
+  alert_type text not null,
+  channel text,
+  recipient text,
+  status text not null default 'open',
+  opened_at timestamptz not null default now(),
+  resolved_at timestamptz
+);
+
+create table if not exists instance_status_history (
+  id uuid primary key default gen_random_uuid(),
+  establishment_id uuid not null references establishments (id) on delete cascade,
+  instance_name text not null,
+  previous_status text,
+  status text not null,
+  source text not null,
+  created_at timestamptz not null default now()
+);
+
+-- Uso e orçamento de IA
+create table if not exists ai_usage (
+  id uuid primary key default gen_random_uuid(),
+  establishment_id uuid not null references establishments (id) on delete cascade,
+  kind text not null,
+  model text not null,
+  prompt_tokens integer not null default 0,
+  completion_tokens integer not null default 0,
+  total_tokens integer not null default 0,
+  cost numeric(12, 6) not null default 0,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists ai_usage_establishment_created_idx on ai_usage (establishment_id, created_at);
+
+create table if not exists ai_budgets (
+  establishment_id uuid primary key references establishments (id) on delete cascade,
+  monthly_token_limit bigint,
+  monthly_cost_limit numeric(12, 2),
+  warning_thresholds jsonb,
+  updated_at timestamptz not null default now()
+);
+
+-- Um aviso por limiar em cada mês: usageService trata o erro 23505 como "aviso já registrado"
+create table if not exists ai_budget_warnings (
+  id uuid primary key default gen_random_uuid(),
+  establishment_id uuid not null references establishments (id) on delete cascade,
+  period text not null,
+  threshold numeric(4, 2) not null,
+  used_tokens bigint not null,
+  used_cost numeric(12, 6) not null,
+  created_at timestamptz not null default now(),
+  unique (establishment_id, period, threshold)
+);
@@ -0,0 +1,19 @@
+-- Registro de entregas do webhook: uma linha por mensagem de cada instância.
+-- O índice único é o que garante a deduplicação (deduplicationService.claimDelivery trata o erro 23505).
+create table if not exists webhook_deliveries (
+  id uuid primary key default gen_random_uuid(),
+  instance_name text not null,
+  message_id text not null,
+  first_seen_at timestamptz not null default now(),
+  last_seen_at timestamptz not null default now(),
+  delivery_count integer not null default 1,
+  result jsonb,
+  reply_claimed_at timestamptz
+);
+
+create unique index if not exists webhook_deliveries_instance_message_key
+  on webhook_deliveries (instance_name, message_id);
+
+-- Resposta guardada antes do envio: se o envio falhar, a nova tentativa só a reenvia
+alter table webhook_deliveries add column if not exists reply jsonb;
+alter table webhook_deliveries add column if not exists reply_sent_at timestamptz;
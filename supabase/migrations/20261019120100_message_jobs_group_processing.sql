@@ -0,0 +1,4 @@
+-- No máximo um job em execução por conversa (group_key): claimDue trata o erro 23505 como "conversa ocupada"
+create unique index if not exists message_jobs_group_processing_key
+  on message_jobs (group_key)
+  where status = 'processing' and group_key is not null;
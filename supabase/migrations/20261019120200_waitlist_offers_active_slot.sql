@@ -0,0 +1,5 @@
+-- No máximo uma oferta ativa por horário liberado: offerSlot trata o erro 23505 como "horário já oferecido".
+-- 'accepted' dura só enquanto o agendamento é criado; depois a oferta passa a 'booked' ou 'taken'
+create unique index if not exists waitlist_offers_active_slot_key
+  on waitlist_offers (professional_id, slot_date, slot_time)
+  where status in ('pending', 'accepted');
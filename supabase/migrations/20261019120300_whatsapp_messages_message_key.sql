@@ -0,0 +1,3 @@
+-- Uma linha por mensagem recebida em cada estabelecimento: a reentrega do webhook faz upsert nessas colunas
+create unique index if not exists whatsapp_messages_establishment_message_key
+  on whatsapp_messages (establishment_id, message_id);